@@ -1,6 +1,10 @@
 import { Hono } from "hono";
 import { logger } from "hono/logger";
 import { airQualityRoutes } from "./routes/air-quality";
+import { alertRoutes } from "./routes/alert-routes";
+import { exportRoutes } from "./routes/export-routes";
+import { importRoutes } from "./routes/import-routes";
+import { ingestRoutes } from "./routes/ingest-routes";
 import { newsRoutes } from "./routes/news-routes";
 import { createServer } from "node:http";
 import * as dotenv from "dotenv";
@@ -11,6 +15,22 @@ import { osmRoutes } from "./routes/osm-routes";
 import { predictionRoutes } from "./routes/prediction-routes";
 import { urbanPlanningRoutes } from "./routes/urban-planning-routes";
 import { corsMiddleware } from "./middleware/cors-middleware";
+import {
+  configureAlerts,
+  getAlertIntervalMs,
+  runAlertEvaluation,
+} from "./services/alerts";
+import {
+  configureIngestion,
+  getIngestIntervalMs,
+  getWatchlist,
+  runIngestion,
+} from "./services/ingestion";
+import { configureProviders } from "./services/providers/provider-registry";
+import { configureResponseCache } from "./services/response-cache";
+import { configureRetention, runRetention } from "./services/retention";
+import { setStorageDatabase } from "./services/storage";
+import { createSqliteDatabase } from "./services/storage/sqlite-database";
 
 // --- START: Load GeoJSON Data ---
 // REMOVE or comment out the GeoJSON loading logic as it's no longer needed
@@ -26,23 +46,6 @@ try {
 console.log("GeoJSON country loading skipped as it's no longer used.");
 // --- END: Load GeoJSON Data ---
 
-// Initialize global variable for storing last air quality data
-declare global {
-  var lastAirQualityData: {
-    aqi: number;
-    level: string;
-    components: Record<string, number>;
-    location: { lat: string; lon: string };
-    timestamp: number;
-  } | null;
-}
-
-// Set initial value
-if (typeof global.lastAirQualityData === "undefined") {
-  global.lastAirQualityData = null;
-  console.log("Initialized global.lastAirQualityData");
-}
-
 // Try to load environment variables from different paths to ensure they're found
 const envPaths = [
   ".env",
@@ -71,6 +74,27 @@ console.log("Environment loaded:", {
   API_KEY_SET: process.env.OPENWEATHER_API_KEY ? "Yes" : "No",
 });
 
+// Apply provider credentials and priority from the environment
+configureProviders(process.env);
+// Node has no KV or Cache API, so responses are cached in memory
+configureResponseCache(process.env);
+// Observations are stored in a local SQLite file
+const dbPath = process.env.AIR_QUALITY_DB_PATH || "data/air-quality.db";
+try {
+  setStorageDatabase(createSqliteDatabase(dbPath));
+  console.log(`Observation store: ${dbPath}`);
+} catch (error) {
+  console.error(
+    "Failed to open the observation store, readings won't be stored:",
+    error
+  );
+}
+
+// Watchlist and polling interval for the ingestion timer
+configureIngestion(process.env);
+configureRetention(process.env);
+configureAlerts(process.env);
+
 const app = new Hono();
 
 // Use our custom CORS middleware instead of the Hono cors middleware
@@ -81,6 +105,10 @@ app.use(logger());
 
 // Routes
 app.route("/api", airQualityRoutes);
+app.route("/api/alerts", alertRoutes);
+app.route("/api/export", exportRoutes);
+app.route("/api/import", importRoutes);
+app.route("/api/ingest", ingestRoutes);
 app.route("/api/news", newsRoutes);
 // app.route("/api/topology", topologyRoutes); // Remove this line
 app.route("/api/osm", osmRoutes); // Add the OSM routes under /api/osm
@@ -160,8 +188,8 @@ if (require.main === module) {
 
       const request = new Request(url.toString(), requestInit);
 
-      // Fetch response from Hono app
-      const response = await app.fetch(request);
+      // Fetch response from Hono app, exposing process.env as c.env
+      const response = await app.fetch(request, process.env);
 
       // Convert Hono/Fetch Response back to Node res
       res.statusCode = response.status;
@@ -196,6 +224,38 @@ if (require.main === module) {
     }
   });
 
+  // Poll the monitoring watchlist now and then on every interval
+  if (getWatchlist().length > 0) {
+    const ingest = () =>
+      runIngestion("timer").catch((error) =>
+        console.error("Ingest run failed:", error)
+      );
+    ingest();
+    setInterval(ingest, getIngestIntervalMs()).unref();
+    console.log(
+      `Ingesting ${getWatchlist().length} watchlist points every ${
+        getIngestIntervalMs() / 60000
+      } minutes`
+    );
+  }
+
+  // Roll up and delete raw observations past retention, now and hourly
+  const applyRetention = () =>
+    runRetention().catch((error) =>
+      console.error("Retention run failed:", error)
+    );
+  applyRetention();
+  setInterval(applyRetention, 60 * 60 * 1000).unref();
+
+  // Check alert subscriptions against their thresholds on every interval
+  setInterval(
+    () =>
+      runAlertEvaluation("timer").catch((error) =>
+        console.error("Alert run failed:", error)
+      ),
+    getAlertIntervalMs()
+  ).unref();
+
   server.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT}`);
     console.log(
@@ -1,26 +1,20 @@
 import { Hono } from "hono";
 import { logger } from "hono/logger";
 import { airQualityRoutes } from "./routes/air-quality";
+import { alertRoutes } from "./routes/alert-routes";
+import { exportRoutes } from "./routes/export-routes";
+import { importRoutes } from "./routes/import-routes";
+import { ingestRoutes } from "./routes/ingest-routes";
 import { newsRoutes } from "./routes/news-routes";
 import { predictionRoutes } from "./routes/prediction-routes";
 import { urbanPlanningRoutes } from "./routes/urban-planning-routes";
 import { corsMiddleware } from "./middleware/cors-middleware";
-
-// Initialize global variable for AQ data
-declare global {
-  var lastAirQualityData: {
-    aqi: number;
-    level: string;
-    components: Record<string, number>;
-    location: { lat: string; lon: string };
-    timestamp: number;
-  } | null;
-}
-
-// Set initial value if not already defined
-if (typeof global.lastAirQualityData === "undefined") {
-  global.lastAirQualityData = null;
-}
+import { configureAlerts, runAlertEvaluation } from "./services/alerts";
+import { configureIngestion, runIngestion } from "./services/ingestion";
+import { configureProviders } from "./services/providers/provider-registry";
+import { configureResponseCache } from "./services/response-cache";
+import { configureRetention, runRetention } from "./services/retention";
+import { configureStorage } from "./services/storage";
 
 const app = new Hono();
 
@@ -30,8 +24,23 @@ app.use("*", corsMiddleware);
 // Apply logger middleware
 app.use(logger());
 
+// Apply provider credentials, priority, the cache backend, the D1 observation store and the alert settings from the Worker bindings
+app.use("*", async (c, next) => {
+  configureProviders(c.env as Record<string, unknown>);
+  configureResponseCache(c.env as Record<string, unknown>);
+  configureStorage(c.env as Record<string, unknown>);
+  configureIngestion(c.env as Record<string, unknown>);
+  configureRetention(c.env as Record<string, unknown>);
+  configureAlerts(c.env as Record<string, unknown>);
+  await next();
+});
+
 // Routes
 app.route("/api", airQualityRoutes);
+app.route("/api/alerts", alertRoutes);
+app.route("/api/export", exportRoutes);
+app.route("/api/import", importRoutes);
+app.route("/api/ingest", ingestRoutes);
 app.route("/api/news", newsRoutes);
 app.route("/api/predict", predictionRoutes);
 app.route("/api/urban-planning", urbanPlanningRoutes);
@@ -43,12 +52,22 @@ app.get("/", (c) => {
     version: "1.0.0",
     endpoints: [
       "/api/current",
+      "/api/current/batch",
       "/api/components",
       "/api/forecast",
+      "/api/history",
+      "/api/standards",
+      "/api/guidelines",
       "/api/store-air-quality",
+      "/api/alerts/subscriptions",
+      "/api/export",
+      "/api/import",
+      "/api/ingest/status",
       "/api/news/air-quality",
       "/api/predict/hourly",
       "/api/predict/weekly",
+      "/api/predict/evaluate",
+      "/api/predict/ensemble",
       "/api/urban-planning/recommendations",
     ],
   });
@@ -59,5 +78,32 @@ app.options("*", (c) => {
   return c.body(null, 204);
 });
 
-// For Cloudflare Workers, we need to export the app directly
-export default app;
+// For Cloudflare Workers, export the app's fetch handler together with the
+// cron handler that polls the monitoring watchlist, applies retention and
+// evaluates alert subscriptions
+export default {
+  fetch: app.fetch,
+  async scheduled(
+    _event: unknown,
+    env: Record<string, unknown>,
+    ctx: { waitUntil(promise: Promise<unknown>): void }
+  ) {
+    configureProviders(env);
+    configureStorage(env);
+    configureIngestion(env);
+    configureRetention(env);
+    configureAlerts(env);
+    // Alerts read the current readings the ingestion run stores
+    ctx.waitUntil(
+      runIngestion("cron")
+        .catch((error) => console.error("Ingest run failed:", error))
+        .then(() => runAlertEvaluation("cron"))
+        .catch((error) => console.error("Alert run failed:", error))
+    );
+    ctx.waitUntil(
+      runRetention().catch((error) =>
+        console.error("Retention run failed:", error)
+      )
+    );
+  },
+};
@@ -20,6 +20,9 @@
  * - CO: >4000 μg/m³ is considered moderate
  *
  * These thresholds might vary in different regions and countries.
+ *
+ * The WHO 2021 guideline levels and interim targets, with their averaging
+ * periods, are in services/who-guidelines.ts and served by /api/guidelines.
  */
 
 export {}; // This makes the file a module
@@ -1,6 +1,25 @@
 import { Hono } from "hono";
-import axios from "axios";
 import * as airQualityServiceModule from "../services/air-quality-service";
+import {
+  AggregationGranularity,
+  aggregateDailyOutlook,
+  aggregateReadings,
+  combinePeriods,
+} from "../services/aggregation";
+import {
+  AQI_STANDARDS,
+  resolveAqiStandard,
+  unknownStandardMessage,
+} from "../services/aqi-standards";
+import { mapWithConcurrency } from "../services/concurrency";
+import { DEFAULT_PERCENTILES } from "../services/statistics";
+import { cachedLocationLookup } from "../services/response-cache";
+import {
+  parseTimestamp,
+  resolveTimeZone,
+  toLocalIso,
+} from "../services/timezone";
+import { getCircuitStates, upstreamRequest } from "../services/upstream-client";
 
 // Import the constants from the service
 const BASE_URL = "https://api.openweathermap.org/data/2.5";
@@ -19,9 +38,14 @@ app.get("/current", async (c) => {
   try {
     const lat = c.req.query("lat") || "37.7749"; // Default to San Francisco
     const lon = c.req.query("lon") || "-122.4194";
+    const standardParam = c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+    }
 
     console.log(
-      `API request received for current air quality at coordinates: ${lat}, ${lon}`
+      `API request received for current air quality at coordinates: ${lat}, ${lon} (${standard.id})`
     );
 
     // Get API key from the context environment (provided by Cloudflare Workers)
@@ -37,35 +61,214 @@ app.get("/current", async (c) => {
       console.warn("No API key found in Cloudflare Worker environment!");
     }
 
-    // Pass the API key to the service method
-    const data = await airQualityServiceModule.getCurrentAirQuality(
+    // Pass the API key to the service method; nearby requests share cached data
+    const cached = await cachedLocationLookup(
+      "current",
       lat,
       lon,
-      apiKey
+      { standard: standard.id },
+      () =>
+        airQualityServiceModule.getCurrentAirQuality(
+          lat,
+          lon,
+          apiKey,
+          standard.id
+        )
     );
+    const data = cached.data;
+    c.header("X-Cache", cached.hit ? "HIT" : "MISS");
 
     console.log(
       `Returning air quality data: AQI=${data.aqi}, Level=${data.level}`
     );
 
-    // Store this data in a global variable for use in the AI summary
-    global.lastAirQualityData = {
-      aqi: data.aqi,
-      level: data.level,
-      components: data.components,
+    // Optionally report the NowCast-based AQI next to the instantaneous one
+    let nowcast = undefined;
+    if (c.req.query("nowcast") === "true") {
+      try {
+        const cachedNowCast = await cachedLocationLookup(
+          "current",
+          lat,
+          lon,
+          { standard: standard.id, nowcast: true },
+          () =>
+            airQualityServiceModule.getNowCastAirQuality(
+              lat,
+              lon,
+              apiKey,
+              standard.id,
+              { timestamp: data.timestamp, components: data.components }
+            )
+        );
+        nowcast = cachedNowCast.data;
+      } catch (nowcastError) {
+        console.error("Error calculating NowCast AQI:", nowcastError);
+        nowcast = {
+          error:
+            nowcastError instanceof Error
+              ? nowcastError.message
+              : "Failed to calculate NowCast AQI",
+        };
+      }
+    }
+
+    // Nearby requests share the entry; report the coordinates asked for
+    const response = {
+      ...data,
       location: { lat, lon },
-      timestamp: data.timestamp,
+      cachedAt: cached.cachedAt,
+      age: cached.age,
     };
-
-    console.log("✓ Successfully stored OpenWeather data in global variable");
-
-    return c.json(data);
+    return c.json(nowcast ? { ...response, nowcast } : response);
   } catch (error) {
     console.error("Error fetching air quality data:", error);
     return c.json({ error: "Failed to fetch air quality data" }, 500);
   }
 });
 
+// Limits for the batch endpoint: locations per request and upstream calls in flight
+const MAX_BATCH_LOCATIONS = 100;
+const BATCH_CONCURRENCY = 5;
+
+interface BatchLocation {
+  name?: string;
+  lat: string;
+  lon: string;
+}
+
+// Normalise one entry of a batch request, or describe why it is invalid
+function parseBatchLocation(
+  entry: any
+): { location: BatchLocation } | { error: string } {
+  const lat = Number(entry?.lat);
+  const lon = Number(entry?.lon);
+  if (
+    entry?.lat === undefined ||
+    entry?.lon === undefined ||
+    !isFinite(lat) ||
+    !isFinite(lon) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lon) > 180
+  ) {
+    return { error: "Invalid coordinates provided" };
+  }
+  return {
+    location: {
+      name: typeof entry.name === "string" ? entry.name : undefined,
+      lat: String(entry.lat),
+      lon: String(entry.lon),
+    },
+  };
+}
+
+// Get current air quality for many named locations, ranked by AQI (worst first)
+app.post("/current/batch", async (c) => {
+  try {
+    let body: any;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Request body must be JSON" }, 400);
+    }
+
+    const entries = Array.isArray(body) ? body : body?.locations;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return c.json(
+        { error: "Provide a non-empty locations array of { name, lat, lon }" },
+        400
+      );
+    }
+    if (entries.length > MAX_BATCH_LOCATIONS) {
+      return c.json(
+        {
+          error: `A batch can contain at most ${MAX_BATCH_LOCATIONS} locations`,
+        },
+        400
+      );
+    }
+
+    if (body?.standard !== undefined && typeof body.standard !== "string") {
+      return c.json({ error: "standard must be a string" }, 400);
+    }
+    const standardParam = body?.standard || c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam) }, 400);
+    }
+
+    const apiKey = c.env.OPENWEATHER_API_KEY;
+    console.log(
+      `Batch request for ${entries.length} locations (${standard.id})`
+    );
+
+    const settled = await mapWithConcurrency(
+      entries,
+      BATCH_CONCURRENCY,
+      async (entry) => {
+        const parsed = parseBatchLocation(entry);
+        if ("error" in parsed) throw new Error(parsed.error);
+        const { lat, lon } = parsed.location;
+        return cachedLocationLookup(
+          "current",
+          lat,
+          lon,
+          { standard: standard.id },
+          () =>
+            airQualityServiceModule.getCurrentAirQuality(
+              lat,
+              lon,
+              apiKey,
+              standard.id
+            )
+        );
+      }
+    );
+
+    const succeeded = [];
+    const failed = [];
+    for (const [index, outcome] of settled.entries()) {
+      const entry = entries[index];
+      const name = typeof entry?.name === "string" ? entry.name : null;
+      if (outcome.status === "fulfilled") {
+        const { data, cachedAt, age } = outcome.value;
+        succeeded.push({
+          name,
+          ...data,
+          location: { lat: String(entry.lat), lon: String(entry.lon) },
+          cachedAt,
+          age,
+        });
+      } else {
+        failed.push({
+          rank: null,
+          name,
+          location: { lat: entry?.lat ?? null, lon: entry?.lon ?? null },
+          error:
+            outcome.reason instanceof Error
+              ? outcome.reason.message
+              : "Failed to fetch air quality data",
+        });
+      }
+    }
+
+    // Rank successful lookups by AQI; failures keep their input order at the end
+    const ranked = succeeded
+      .sort((a, b) => b.aqi - a.aqi)
+      .map((result, index) => ({ rank: index + 1, ...result }));
+
+    return c.json({
+      standard: standard.id,
+      count: entries.length,
+      succeeded: ranked.length,
+      failed: failed.length,
+      results: [...ranked, ...failed],
+    });
+  } catch (error) {
+    console.error("Error fetching batch air quality data:", error);
+    return c.json({ error: "Failed to fetch batch air quality data" }, 500);
+  }
+});
+
 // Get air quality components data
 app.get("/components", async (c) => {
   try {
@@ -76,65 +279,337 @@ app.get("/components", async (c) => {
     console.log(
       `Fetching air quality components for coordinates: ${lat}, ${lon}`
     );
-    const data = await airQualityServiceModule.getAirQualityComponents(
-      lat,
-      lon,
-      apiKey
+    const cached = await cachedLocationLookup("components", lat, lon, {}, () =>
+      airQualityServiceModule.getAirQualityComponents(lat, lon, apiKey)
     );
-    return c.json(data);
+    c.header("X-Cache", cached.hit ? "HIT" : "MISS");
+    return c.json({
+      ...cached.data,
+      cachedAt: cached.cachedAt,
+      age: cached.age,
+    });
   } catch (error) {
     console.error("Error fetching air quality components:", error);
     return c.json({ error: "Failed to fetch air quality components" }, 500);
   }
 });
 
-// Get forecast air quality data (24 hours)
+// Longest forecast horizon we ask providers for (OpenWeather offers ~96 hours)
+const MAX_FORECAST_HOURS = 120;
+
+// Get forecast air quality data, hourly (24 hours by default) or as a daily outlook
 app.get("/forecast", async (c) => {
   try {
     const lat = c.req.query("lat") || "37.7749";
     const lon = c.req.query("lon") || "-122.4194";
     const apiKey = c.env.OPENWEATHER_API_KEY;
+    const standardParam = c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+    }
+
+    const granularity = c.req.query("granularity") || "hourly";
+    if (granularity !== "hourly" && granularity !== "daily") {
+      return c.json({ error: "granularity must be hourly or daily" }, 400);
+    }
+
+    const hoursParam = c.req.query("hours");
+    // Daily outlooks default to the whole horizon, hourly to the next 24 hours
+    const defaultHours = granularity === "daily" ? MAX_FORECAST_HOURS : 24;
+    const hours = hoursParam ? Number(hoursParam) : defaultHours;
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_FORECAST_HOURS) {
+      return c.json(
+        {
+          error: `hours must be a whole number between 1 and ${MAX_FORECAST_HOURS}`,
+        },
+        400
+      );
+    }
+
+    const zone = resolveTimeZone(c.req.query("tz"), lat, lon);
+    if (!zone) {
+      return c.json(
+        {
+          error: `Unknown timezone "${c.req.query(
+            "tz"
+          )}". Use an IANA name such as Asia/Kolkata or an offset such as +05:30`,
+        },
+        400
+      );
+    }
 
     console.log(
-      `Fetching air quality forecast for coordinates: ${lat}, ${lon}`
+      `Fetching air quality forecast for coordinates: ${lat}, ${lon} (${standard.id}, ${granularity}, ${hours}h)`
     );
-    const data = await airQualityServiceModule.getAirQualityForecast(
+    // Cache the full horizon once and slice it per request
+    const cached = await cachedLocationLookup(
+      "forecast",
       lat,
       lon,
-      apiKey
+      { standard: standard.id },
+      () =>
+        airQualityServiceModule.getAirQualityForecast(
+          lat,
+          lon,
+          apiKey,
+          standard.id,
+          MAX_FORECAST_HOURS
+        )
     );
-    return c.json(data);
+    c.header("X-Cache", cached.hit ? "HIT" : "MISS");
+
+    const forecast = cached.data.forecast.slice(0, hours);
+    const freshness = { cachedAt: cached.cachedAt, age: cached.age };
+
+    if (granularity === "daily") {
+      const days = aggregateDailyOutlook(
+        forecast.map((item) => ({
+          timestamp: item.timestamp,
+          aqi: item.airQuality,
+          dominantPollutant: item.dominantPollutant,
+          components: item.components,
+        })),
+        zone,
+        standard.id
+      );
+      return c.json({
+        granularity,
+        days,
+        hours: forecast.length,
+        availableHours: cached.data.availableHours,
+        timezone: { id: zone.id, source: zone.source },
+        standard: cached.data.standard,
+        location: { lat, lon },
+        provider: cached.data.provider,
+        ...freshness,
+      });
+    }
+
+    return c.json({
+      ...cached.data,
+      location: { lat, lon },
+      forecast: forecast.map((item) => ({
+        ...item,
+        localTime: toLocalIso(item.timestamp, zone),
+      })),
+      granularity,
+      hours: forecast.length,
+      timezone: { id: zone.id, source: zone.source },
+      ...freshness,
+    });
   } catch (error) {
     console.error("Error fetching forecast data:", error);
     return c.json({ error: "Failed to fetch forecast data" }, 500);
   }
 });
 
-// Store air quality data - additional endpoint for the frontend to update backend data
+const MAX_HISTORY_RANGE = 366 * 24 * 60 * 60; // seconds
+
+// Get historical air quality (hourly, or aggregated daily/weekly)
+app.get("/history", async (c) => {
+  try {
+    const lat = c.req.query("lat") || "37.7749";
+    const lon = c.req.query("lon") || "-122.4194";
+    const apiKey = c.env.OPENWEATHER_API_KEY;
+    const aggregate = c.req.query("aggregate") || "hourly";
+    const standardParam = c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+    }
+
+    if (!["hourly", "daily", "weekly"].includes(aggregate)) {
+      return c.json(
+        { error: "Invalid aggregate. Expected: hourly, daily or weekly" },
+        400
+      );
+    }
+
+    const end =
+      parseTimestamp(c.req.query("end")) ?? Math.floor(Date.now() / 1000);
+    const start =
+      parseTimestamp(c.req.query("start")) ?? end - 7 * 24 * 60 * 60;
+
+    if (start >= end) {
+      return c.json({ error: "start must be before end" }, 400);
+    }
+    if (end - start > MAX_HISTORY_RANGE) {
+      return c.json({ error: "History range cannot exceed 366 days" }, 400);
+    }
+
+    const percentiles = c.req
+      .query("percentiles")
+      ?.split(",")
+      .map(Number)
+      .filter((p) => !isNaN(p) && p >= 0 && p <= 100);
+
+    const range = {
+      start: start * 1000,
+      end: end * 1000,
+    };
+
+    // Ranges reaching past the raw retention window are served per day
+    const resolution =
+      await airQualityServiceModule.getHistoryResolution(start);
+    if (resolution === "daily") {
+      // Rolled up days only keep the default percentiles; a range reaching
+      // them can't have others without mixing percentile sets across days
+      if (percentiles?.some((p) => !DEFAULT_PERCENTILES.includes(p))) {
+        return c.json(
+          {
+            error: `Ranges starting before the raw retention window only support percentiles ${DEFAULT_PERCENTILES.join(
+              ","
+            )}`,
+          },
+          400
+        );
+      }
+      console.log(
+        `Fetching daily air quality history for coordinates: ${lat}, ${lon} (beyond raw retention)`
+      );
+      const daily = await airQualityServiceModule.getDailyAirQualityHistory(
+        lat,
+        lon,
+        start,
+        end,
+        apiKey,
+        standard.id,
+        percentiles?.length ? percentiles : undefined
+      );
+      const granularity = aggregate === "weekly" ? "weekly" : "daily";
+      return c.json({
+        periods:
+          granularity === "weekly"
+            ? combinePeriods(daily.periods, "weekly", standard.id)
+            : daily.periods,
+        standard: daily.standard,
+        location: daily.location,
+        providers: daily.providers,
+        rolledUpDays: daily.rolledUpDays,
+        aggregate: granularity,
+        resolution,
+        range,
+      });
+    }
+
+    console.log(
+      `Fetching ${aggregate} air quality history for coordinates: ${lat}, ${lon}`
+    );
+    const data = await airQualityServiceModule.getAirQualityHistory(
+      lat,
+      lon,
+      start,
+      end,
+      apiKey,
+      standard.id
+    );
+
+    if (aggregate === "hourly") {
+      return c.json({ ...data, aggregate, resolution, range });
+    }
+
+    return c.json({
+      periods: aggregateReadings(
+        data.history,
+        aggregate as AggregationGranularity,
+        {
+          standardId: standard.id,
+          percentiles: percentiles?.length ? percentiles : undefined,
+        }
+      ),
+      standard: data.standard,
+      location: data.location,
+      aggregate,
+      resolution,
+      range,
+    });
+  } catch (error) {
+    console.error("Error fetching history data:", error);
+    return c.json({ error: "Failed to fetch history data" }, 500);
+  }
+});
+
+// Compare recent readings with the WHO 2021 air quality guidelines
+app.get("/guidelines", async (c) => {
+  try {
+    const lat = c.req.query("lat") || "37.7749";
+    const lon = c.req.query("lon") || "-122.4194";
+    const apiKey = c.env.OPENWEATHER_API_KEY;
+    const longTerm = c.req.query("longTerm") === "true";
+
+    console.log(
+      `Fetching WHO guideline assessment for coordinates: ${lat}, ${lon}`
+    );
+    const cached = await cachedLocationLookup(
+      "guidelines",
+      lat,
+      lon,
+      { longTerm },
+      () =>
+        airQualityServiceModule.getWhoGuidelineAssessment(
+          lat,
+          lon,
+          apiKey,
+          longTerm
+        )
+    );
+    c.header("X-Cache", cached.hit ? "HIT" : "MISS");
+    return c.json({
+      ...cached.data,
+      location: { lat, lon },
+      cachedAt: cached.cachedAt,
+      age: cached.age,
+    });
+  } catch (error) {
+    console.error("Error fetching WHO guideline assessment:", error);
+    return c.json({ error: "Failed to assess WHO guidelines" }, 500);
+  }
+});
+
+// List the supported AQI standards with their scales and categories
+app.get("/standards", (c) => {
+  return c.json(
+    Object.values(AQI_STANDARDS).map(
+      ({ id, name, region, scale, categories }) => ({
+        id,
+        name,
+        region,
+        scale,
+        categories,
+      })
+    )
+  );
+});
+
+// Store air quality data reported by the frontend in the observation store
 app.post("/store-air-quality", async (c) => {
   try {
     const data = await c.req.json();
 
-    if (!data.aqi || !data.level || !data.components) {
+    if (!data.components || !data.location?.lat || !data.location?.lon) {
       return c.json({ error: "Missing required air quality data" }, 400);
     }
 
-    // Store this data in a global variable for use in the AI summary
-    global.lastAirQualityData = {
-      aqi: data.aqi,
-      level: data.level,
-      components: data.components,
-      location: data.location || { lat: "0", lon: "0" },
-      timestamp: Date.now(),
-    };
+    const lat = String(data.location.lat);
+    const lon = String(data.location.lon);
+    if (isNaN(parseFloat(lat)) || isNaN(parseFloat(lon))) {
+      return c.json({ error: "Invalid coordinates provided" }, 400);
+    }
+
+    const stored = await airQualityServiceModule.storeClientAirQuality(
+      lat,
+      lon,
+      data.components
+    );
 
     console.log(
-      "✓ Successfully stored air quality data from frontend:",
-      data.aqi,
-      data.level
+      stored
+        ? `✓ Stored air quality data from frontend for ${lat}, ${lon}`
+        : "Observation storage is not configured; frontend data not stored"
     );
 
-    return c.json({ success: true });
+    return c.json({ success: true, stored });
   } catch (error) {
     console.error("Error storing air quality data:", error);
     return c.json({ error: "Failed to store air quality data" }, 500);
@@ -167,12 +642,15 @@ app.get("/debug-aqi", async (c) => {
 
     // Attempt to fetch directly from OpenWeather
     try {
-      const response = await axios.get(`${BASE_URL}/air_pollution`, {
+      const response = await upstreamRequest({
+        method: "get",
+        url: `${BASE_URL}/air_pollution`,
         params: {
           lat,
           lon,
           appid: OPENWEATHER_API_KEY,
         },
+        name: "OpenWeather debug",
       });
 
       // Log the full response
@@ -185,6 +663,7 @@ app.get("/debug-aqi", async (c) => {
       return c.json({
         success: true,
         rawData: response.data,
+        circuits: getCircuitStates(),
         apiKey: OPENWEATHER_API_KEY
           ? "Configured (first 5 chars: " +
             OPENWEATHER_API_KEY.substring(0, 5) +
@@ -196,7 +675,8 @@ app.get("/debug-aqi", async (c) => {
         {
           error: "OpenWeather API Error",
           message: owError.message,
-          response: owError.response?.data,
+          response: owError.data,
+          circuits: getCircuitStates(),
           apiKey: OPENWEATHER_API_KEY
             ? "Configured (first 5 chars: " +
               OPENWEATHER_API_KEY.substring(0, 5) +
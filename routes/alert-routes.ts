@@ -0,0 +1,172 @@
+import { Hono } from "hono";
+import {
+  parseSubscription,
+  publicSubscription,
+  sendTestAlert,
+} from "../services/alerts";
+import { getAlertRepository } from "../services/storage";
+
+const app = new Hono();
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 500;
+
+// Every route needs the store; subscriptions live in it
+app.use("*", async (c, next) => {
+  if (!(await getAlertRepository())) {
+    return c.json({ error: "Alert storage is not configured" }, 503);
+  }
+  await next();
+});
+
+// All subscriptions, without their signing secrets
+app.get("/subscriptions", async (c) => {
+  try {
+    const repository = (await getAlertRepository())!;
+    const subscriptions = await repository.list();
+    return c.json({
+      count: subscriptions.length,
+      subscriptions: subscriptions.map(publicSubscription),
+    });
+  } catch (error) {
+    console.error("Error listing alert subscriptions:", error);
+    return c.json({ error: "Failed to list alert subscriptions" }, 500);
+  }
+});
+
+// Create a subscription. The response is the only one that includes the
+// secret, generated unless the body sets one.
+app.post("/subscriptions", async (c) => {
+  let subscription;
+  try {
+    subscription = parseSubscription(await c.req.json().catch(() => null));
+  } catch (error) {
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : "Invalid subscription",
+      },
+      400
+    );
+  }
+
+  try {
+    const repository = (await getAlertRepository())!;
+    await repository.create(subscription);
+    return c.json(subscription, 201);
+  } catch (error) {
+    console.error("Error creating alert subscription:", error);
+    return c.json({ error: "Failed to create alert subscription" }, 500);
+  }
+});
+
+app.get("/subscriptions/:id", async (c) => {
+  try {
+    const repository = (await getAlertRepository())!;
+    const subscription = await repository.get(c.req.param("id"));
+    if (!subscription) {
+      return c.json({ error: "Alert subscription not found" }, 404);
+    }
+    return c.json(publicSubscription(subscription));
+  } catch (error) {
+    console.error("Error reading alert subscription:", error);
+    return c.json({ error: "Failed to read alert subscription" }, 500);
+  }
+});
+
+// Update some fields of a subscription. A new secret, if given, is returned
+// once in the response.
+app.patch("/subscriptions/:id", async (c) => {
+  const repository = (await getAlertRepository())!;
+  let existing;
+  try {
+    existing = await repository.get(c.req.param("id"));
+  } catch (error) {
+    console.error("Error reading alert subscription:", error);
+    return c.json({ error: "Failed to read alert subscription" }, 500);
+  }
+  if (!existing) {
+    return c.json({ error: "Alert subscription not found" }, 404);
+  }
+
+  let subscription;
+  const body = await c.req.json().catch(() => null);
+  try {
+    subscription = parseSubscription(body, existing);
+  } catch (error) {
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : "Invalid subscription",
+      },
+      400
+    );
+  }
+
+  try {
+    await repository.update(subscription);
+    return c.json(
+      body.secret !== undefined
+        ? subscription
+        : publicSubscription(subscription)
+    );
+  } catch (error) {
+    console.error("Error updating alert subscription:", error);
+    return c.json({ error: "Failed to update alert subscription" }, 500);
+  }
+});
+
+app.delete("/subscriptions/:id", async (c) => {
+  try {
+    const repository = (await getAlertRepository())!;
+    if (!(await repository.remove(c.req.param("id")))) {
+      return c.json({ error: "Alert subscription not found" }, 404);
+    }
+    return c.body(null, 204);
+  } catch (error) {
+    console.error("Error deleting alert subscription:", error);
+    return c.json({ error: "Failed to delete alert subscription" }, 500);
+  }
+});
+
+// Send a signed alert.test event with the current value, whatever the
+// subscription's state, and return the delivery
+app.post("/subscriptions/:id/test", async (c) => {
+  try {
+    const repository = (await getAlertRepository())!;
+    const subscription = await repository.get(c.req.param("id"));
+    if (!subscription) {
+      return c.json({ error: "Alert subscription not found" }, 404);
+    }
+    const delivery = await sendTestAlert(subscription);
+    return c.json(delivery, delivery.status === "delivered" ? 200 : 502);
+  } catch (error) {
+    console.error("Error sending test alert:", error);
+    return c.json({ error: "Failed to send test alert" }, 500);
+  }
+});
+
+// Delivery log of a subscription, newest first
+app.get("/subscriptions/:id/deliveries", async (c) => {
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_DELIVERY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+    return c.json(
+      { error: `limit must be a whole number from 1 to ${MAX_DELIVERY_LIMIT}` },
+      400
+    );
+  }
+
+  try {
+    const repository = (await getAlertRepository())!;
+    const id = c.req.param("id");
+    if (!(await repository.get(id))) {
+      return c.json({ error: "Alert subscription not found" }, 404);
+    }
+    const deliveries = await repository.deliveries(id, limit);
+    return c.json({ count: deliveries.length, deliveries });
+  } catch (error) {
+    console.error("Error reading alert deliveries:", error);
+    return c.json({ error: "Failed to read alert deliveries" }, 500);
+  }
+});
+
+export const alertRoutes = app;
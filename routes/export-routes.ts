@@ -0,0 +1,139 @@
+import { Hono } from "hono";
+import { resolveLocation } from "../services/air-quality-service";
+import {
+  resolveAqiStandard,
+  unknownStandardMessage,
+} from "../services/aqi-standards";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  createExportStream,
+} from "../services/export";
+import { getWatchlist } from "../services/ingestion";
+import { getObservationRepository } from "../services/storage";
+import { parseTimestamp } from "../services/timezone";
+
+const app = new Hono();
+
+const MAX_EXPORT_LOCATIONS = 100;
+const MAX_EXPORT_RANGE = 366 * 24 * 60 * 60; // seconds
+
+// Location IDs for the requested set: locationIds=<geohash>,...,
+// points=<lat>,<lon>;<lat>,<lon> and/or watchlist=true
+function exportLocationIds(
+  locationIds: string | undefined,
+  points: string | undefined,
+  watchlist: boolean
+): string[] {
+  const ids = new Set<string>();
+  for (const locationId of locationIds?.split(",") || []) {
+    if (locationId.trim()) {
+      ids.add(resolveLocation({ locationId: locationId.trim() }).locationId);
+    }
+  }
+  for (const point of points?.split(";") || []) {
+    if (!point.trim()) continue;
+    const [lat, lon] = point.split(",").map((value) => value.trim());
+    ids.add(resolveLocation({ lat, lon: lon ?? "" }).locationId);
+  }
+  if (watchlist) {
+    for (const point of getWatchlist()) {
+      ids.add(resolveLocation(point).locationId);
+    }
+  }
+  return Array.from(ids);
+}
+
+// Stream stored observations as CSV, NDJSON or GeoJSON
+app.get("/", async (c) => {
+  try {
+    const format = (c.req.query("format") || "csv").toLowerCase();
+    if (!(format in EXPORT_FORMATS)) {
+      return c.json(
+        { error: "Invalid format. Expected: csv, ndjson or geojson" },
+        400
+      );
+    }
+
+    const standardParam = c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+    }
+
+    let locationIds: string[];
+    try {
+      locationIds = exportLocationIds(
+        c.req.query("locationIds"),
+        c.req.query("points"),
+        c.req.query("watchlist") === "true"
+      );
+    } catch (error) {
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : "Invalid location",
+        },
+        400
+      );
+    }
+    if (locationIds.length === 0) {
+      return c.json(
+        { error: "Provide locationIds, points or watchlist=true" },
+        400
+      );
+    }
+    if (locationIds.length > MAX_EXPORT_LOCATIONS) {
+      return c.json(
+        {
+          error: `Too many locations (maximum ${MAX_EXPORT_LOCATIONS})`,
+        },
+        400
+      );
+    }
+
+    const end =
+      parseTimestamp(c.req.query("end")) ?? Math.floor(Date.now() / 1000);
+    const start =
+      parseTimestamp(c.req.query("start")) ?? end - 7 * 24 * 60 * 60;
+    if (start >= end) {
+      return c.json({ error: "start must be before end" }, 400);
+    }
+    if (end - start > MAX_EXPORT_RANGE) {
+      return c.json({ error: "Export range cannot exceed 366 days" }, 400);
+    }
+
+    if (!(await getObservationRepository())) {
+      return c.json({ error: "Observation storage is not configured" }, 503);
+    }
+
+    console.log(
+      `Exporting ${format} for ${locationIds.length} locations (${new Date(
+        start * 1000
+      ).toISOString()} - ${new Date(end * 1000).toISOString()})`
+    );
+
+    const { contentType, extension } = EXPORT_FORMATS[format as ExportFormat];
+    const stream = createExportStream({
+      locationIds,
+      start: start * 1000,
+      end: end * 1000,
+      format: format as ExportFormat,
+      standardId: standard.id,
+    });
+    return c.body(stream, 200, {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="air-quality-${new Date(
+        start * 1000
+      )
+        .toISOString()
+        .slice(0, 10)}-${new Date(end * 1000)
+        .toISOString()
+        .slice(0, 10)}.${extension}"`,
+    });
+  } catch (error) {
+    console.error("Error exporting observations:", error);
+    return c.json({ error: "Failed to export observations" }, 500);
+  }
+});
+
+export const exportRoutes = app;
@@ -0,0 +1,67 @@
+import { Hono } from "hono";
+import {
+  ImportError,
+  importObservations,
+  parseImportOptions,
+} from "../services/import";
+import { getObservationRepository } from "../services/storage";
+
+const app = new Hono();
+
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+// Import a station CSV or JSON file (request body) into the observation
+// store. Options come from the query string; dryRun=true only validates.
+app.post("/", async (c) => {
+  let options;
+  try {
+    // Without an explicit format, a JSON content type means a JSON file
+    const contentType = c.req.header("Content-Type") || "";
+    options = parseImportOptions({
+      format: contentType.includes("json") ? "json" : "csv",
+      ...c.req.query(),
+    });
+  } catch (error) {
+    return c.json(
+      { error: error instanceof Error ? error.message : "Invalid options" },
+      400
+    );
+  }
+
+  const dryRun = c.req.query("dryRun") === "true";
+  if (!dryRun && !(await getObservationRepository())) {
+    return c.json({ error: "Observation storage is not configured" }, 503);
+  }
+
+  const length = Number(c.req.header("Content-Length"));
+  if (length > MAX_IMPORT_BYTES) {
+    return c.json({ error: "Import file cannot exceed 10 MB" }, 413);
+  }
+
+  try {
+    const content = await c.req.text();
+    if (content.length > MAX_IMPORT_BYTES) {
+      return c.json({ error: "Import file cannot exceed 10 MB" }, 413);
+    }
+    if (!content.trim()) {
+      return c.json({ error: "Request body is empty" }, 400);
+    }
+
+    const report = await importObservations(content, options, { dryRun });
+    console.log(
+      `Import ${dryRun ? "validated" : "stored"}: ${report.accepted} accepted, ${
+        report.rejected
+      } rejected`
+    );
+    return c.json(report);
+  } catch (error) {
+    // Problems with the file itself (no timestamp column, bad JSON) are the caller's
+    if (error instanceof ImportError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error importing observations:", error);
+    return c.json({ error: "Failed to import observations" }, 500);
+  }
+});
+
+export const importRoutes = app;
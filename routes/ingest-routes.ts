@@ -0,0 +1,16 @@
+import { Hono } from "hono";
+import { getIngestionStatus } from "../services/ingestion";
+
+const app = new Hono();
+
+// Last scheduled ingestion run, recent failures and points that are overdue
+app.get("/status", async (c) => {
+  try {
+    return c.json(await getIngestionStatus());
+  } catch (error) {
+    console.error("Error reading ingestion status:", error);
+    return c.json({ error: "Failed to read ingestion status" }, 500);
+  }
+});
+
+export const ingestRoutes = app;
@@ -1,4 +1,5 @@
 import { Hono } from "hono";
+import { LocationRef, resolveLocation } from "../services/air-quality-service";
 import { geminiService } from "../services/gemini-service";
 
 // Define the environment variables type for Cloudflare Workers
@@ -18,38 +19,41 @@ const CACHE_DURATION = 30 * 60 * 1000; // Reduced to 30 minutes to get updated d
 app.get("/air-quality", async (c) => {
   try {
     const location = c.req.query("location") || "global";
-    const aqi = c.req.query("aqi");
-    const level = c.req.query("level");
+    const lat = c.req.query("lat");
+    const lon = c.req.query("lon");
+    const locationId = c.req.query("locationId");
 
-    console.log(`Fetching news for location: ${location}`);
+    // The summary describes one place, so the caller must say which
+    let place: LocationRef;
+    if (lat && lon) {
+      place = { lat, lon };
+    } else if (locationId) {
+      place = { locationId };
+    } else {
+      return c.json(
+        { error: "Provide lat and lon, or locationId", articles: [] },
+        400
+      );
+    }
 
-    // If AQI and level are provided in the query params, update the global variable
-    if (aqi && level && global.lastAirQualityData) {
-      global.lastAirQualityData.aqi = parseInt(aqi, 10);
-      global.lastAirQualityData.level = level;
-      console.log(
-        `Updated global air quality data from query params: AQI=${aqi}, Level=${level}`
+    let resolved: ReturnType<typeof resolveLocation>;
+    try {
+      resolved = resolveLocation(place);
+    } catch (error) {
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : "Invalid location",
+          articles: [],
+        },
+        400
       );
     }
 
-    // Log air quality data availability
     console.log(
-      "Air quality data available for summary:",
-      global.lastAirQualityData ? "Yes" : "No"
+      `Fetching news for location: ${location} (${resolved.locationId})`
     );
-    if (global.lastAirQualityData) {
-      console.log(
-        `- AQI: ${global.lastAirQualityData.aqi}, Level: ${global.lastAirQualityData.level}`
-      );
-      console.log(
-        `- PM2.5: ${global.lastAirQualityData.components.pm2_5} μg/m³`
-      );
-    }
 
-    // Create cache key that includes AQI to ensure we get fresh data when AQI changes
-    const cacheKey = `news-${location}-${
-      global.lastAirQualityData?.aqi || "unknown"
-    }`;
+    const cacheKey = `news-${resolved.locationId}-${location}`;
     const cachedData = newsCache.get(cacheKey);
 
     if (cachedData && Date.now() - cachedData.timestamp < CACHE_DURATION) {
@@ -58,7 +62,7 @@ app.get("/air-quality", async (c) => {
     }
 
     // If not in cache or expired, fetch fresh data
-    const news = await geminiService.getAirQualityNews(location, c.env);
+    const news = await geminiService.getAirQualityNews(location, place, c.env);
 
     // Store in cache
     newsCache.set(cacheKey, {
@@ -1,5 +1,12 @@
 import { Hono } from "hono";
 import { predictionService } from "../services/prediction-service";
+import { resolveLocation } from "../services/air-quality-service";
+import { runBacktest } from "../services/backtest";
+import { getEnsembleForecast } from "../services/ensemble";
+import {
+  resolveAqiStandard,
+  unknownStandardMessage,
+} from "../services/aqi-standards";
 
 const app = new Hono();
 
@@ -9,11 +16,21 @@ app.get("/hourly", async (c) => {
     const lat = c.req.query("lat") || "37.7749"; // Default to San Francisco
     const lon = c.req.query("lon") || "-122.4194";
 
+    const standardParam = c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+    }
+
     console.log(
-      `API request received for hourly predictions at coordinates: ${lat}, ${lon}`
+      `API request received for hourly predictions at coordinates: ${lat}, ${lon} (${standard.id})`
     );
 
-    const predictions = await predictionService.getHourlyPredictions(lat, lon);
+    const predictions = await predictionService.getHourlyPredictions(
+      lat,
+      lon,
+      standard.id
+    );
 
     console.log(`Returning ${predictions.length} hourly predictions`);
 
@@ -30,11 +47,21 @@ app.get("/weekly", async (c) => {
     const lat = c.req.query("lat") || "37.7749";
     const lon = c.req.query("lon") || "-122.4194";
 
+    const standardParam = c.req.query("standard");
+    const standard = resolveAqiStandard(standardParam);
+    if (!standard) {
+      return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+    }
+
     console.log(
-      `API request received for weekly predictions at coordinates: ${lat}, ${lon}`
+      `API request received for weekly predictions at coordinates: ${lat}, ${lon} (${standard.id})`
     );
 
-    const predictions = await predictionService.getWeeklyPredictions(lat, lon);
+    const predictions = await predictionService.getWeeklyPredictions(
+      lat,
+      lon,
+      standard.id
+    );
 
     console.log(`Returning ${predictions.length} weekly predictions`);
 
@@ -45,4 +72,140 @@ app.get("/weekly", async (c) => {
   }
 });
 
+// Origins a single evaluation may replay; each one fits the model
+const MAX_BACKTEST_ORIGINS = 240;
+
+function integerParam(value: string | undefined, fallback: number) {
+  return value === undefined ? fallback : Number(value);
+}
+
+/**
+ * Error message for the first [name, value, min, max] whose value isn't a
+ * whole number in its range, or null when all of them are
+ */
+function integerRangeError(
+  limits: [string, number, number, number][]
+): string | null {
+  for (const [name, value, min, max] of limits) {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return `${name} must be a whole number from ${min} to ${max}`;
+    }
+  }
+  return null;
+}
+
+// Backtest the model, OpenWeather and persistence forecasts on stored history
+app.get("/evaluate", async (c) => {
+  const lat = c.req.query("lat");
+  const lon = c.req.query("lon");
+  const locationIdParam = c.req.query("locationId");
+
+  let locationId: string;
+  try {
+    if (locationIdParam) {
+      locationId = resolveLocation({ locationId: locationIdParam }).locationId;
+    } else if (lat && lon) {
+      locationId = resolveLocation({ lat, lon }).locationId;
+    } else {
+      return c.json({ error: "lat and lon, or locationId, are required" }, 400);
+    }
+  } catch (error) {
+    return c.json(
+      { error: error instanceof Error ? error.message : "Invalid location" },
+      400
+    );
+  }
+
+  const standardParam = c.req.query("standard");
+  const standard = resolveAqiStandard(standardParam);
+  if (!standard) {
+    return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+  }
+
+  const days = integerParam(c.req.query("days"), 7);
+  const horizonHours = integerParam(c.req.query("horizon"), 24);
+  const stepHours = integerParam(c.req.query("step"), 6);
+  const rangeError = integerRangeError([
+    ["days", days, 1, 30],
+    ["horizon", horizonHours, 1, 72],
+    ["step", stepHours, 1, 24],
+  ]);
+  if (rangeError) {
+    return c.json({ error: rangeError }, 400);
+  }
+  if ((days * 24) / stepHours > MAX_BACKTEST_ORIGINS) {
+    return c.json(
+      {
+        error: `Too many forecast origins; use a larger step (at most ${MAX_BACKTEST_ORIGINS} origins)`,
+      },
+      400
+    );
+  }
+
+  try {
+    const result = await runBacktest({
+      locationId,
+      days,
+      horizonHours,
+      stepHours,
+      standardId: standard.id,
+    });
+    if (!result) {
+      return c.json({ error: "Observation storage is not configured" }, 503);
+    }
+    return c.json(result);
+  } catch (error) {
+    console.error("Error evaluating forecasts:", error);
+    return c.json({ error: "Failed to evaluate forecasts" }, 500);
+  }
+});
+
+// Blend of the OpenWeather forecast and the in-house model, weighted by
+// their recent skill at the location
+app.get("/ensemble", async (c) => {
+  const lat = c.req.query("lat") || "37.7749";
+  const lon = c.req.query("lon") || "-122.4194";
+  try {
+    resolveLocation({ lat, lon });
+  } catch (error) {
+    return c.json(
+      { error: error instanceof Error ? error.message : "Invalid location" },
+      400
+    );
+  }
+
+  const standardParam = c.req.query("standard");
+  const standard = resolveAqiStandard(standardParam);
+  if (!standard) {
+    return c.json({ error: unknownStandardMessage(standardParam!) }, 400);
+  }
+
+  const hours = integerParam(c.req.query("hours"), 24);
+  const skillDays = integerParam(c.req.query("days"), 7);
+  const rangeError = integerRangeError([
+    ["hours", hours, 1, 72],
+    ["days", skillDays, 1, 30],
+  ]);
+  if (rangeError) {
+    return c.json({ error: rangeError }, 400);
+  }
+
+  console.log(
+    `API request received for ensemble forecast at coordinates: ${lat}, ${lon} (${standard.id}, ${hours}h)`
+  );
+
+  try {
+    return c.json(
+      await getEnsembleForecast(lat, lon, {
+        hours,
+        skillDays,
+        standardId: standard.id,
+      })
+    );
+  } catch (error) {
+    console.error("Error generating ensemble forecast:", error);
+    return c.json({ error: "Failed to generate ensemble forecast" }, 500);
+  }
+});
+
 export const predictionRoutes = app;
@@ -1,6 +1,6 @@
 import { Hono } from "hono";
 import * as dotenv from "dotenv";
-import axios from "axios";
+import { UpstreamError, upstreamRequest } from "../services/upstream-client";
 
 // Load environment variables for local development
 dotenv.config();
@@ -181,72 +181,70 @@ app.post("/recommendations", async (c) => {
         console.log("🔍 MAKING API REQUEST NOW...");
 
         // Use the proper Bearer authentication format
-        const response = await fetch(
-          "https://openrouter.ai/api/v1/chat/completions",
-          {
-            method: "POST",
-            headers: {
-              Authorization: authHeader,
-              "Content-Type": "application/json",
-              "HTTP-Referer": "https://uaqmp-api.hanishrishen.workers.dev",
-              "X-Title": "Urban Air Quality Management Platform",
-            },
-            body: JSON.stringify(requestBody),
-          }
-        );
+        const response = await upstreamRequest({
+          method: "post",
+          url: "https://openrouter.ai/api/v1/chat/completions",
+          headers: {
+            Authorization: authHeader,
+            "Content-Type": "application/json",
+            "HTTP-Referer": "https://uaqmp-api.hanishrishen.workers.dev",
+            "X-Title": "Urban Air Quality Management Platform",
+          },
+          data: requestBody,
+          name: "OpenRouter API",
+          maxAttempts: 2,
+          attemptTimeoutMs: 20000,
+          deadlineMs: 25000,
+        });
 
         console.log("🔍 API REQUEST COMPLETED");
-
         console.log(`OpenRouter API response status: ${response.status}`);
-        console.log(
-          `OpenRouter API response status text: ${response.statusText}`
-        );
 
-        if (response.ok) {
-          const data = await response.json();
-          console.log("✅ Successfully received response from OpenRouter");
+        const data = response.data;
+        console.log("✅ Successfully received response from OpenRouter");
+        console.log(`📄 Response choices length: ${data.choices?.length || 0}`);
+
+        if (data.choices && data.choices.length > 0) {
+          const contentLength = data.choices[0]?.message?.content?.length || 0;
           console.log(
-            `📄 Response choices length: ${data.choices?.length || 0}`
+            `📄 Response content length: ${contentLength} characters`
           );
+        }
 
-          if (data.choices && data.choices.length > 0) {
-            const contentLength =
-              data.choices[0]?.message?.content?.length || 0;
-            console.log(
-              `📄 Response content length: ${contentLength} characters`
-            );
-          }
+        return c.json({
+          recommendation:
+            data.choices[0]?.message?.content ||
+            "No recommendation could be generated.",
+          source: "openrouter",
+        });
+      } catch (apiError) {
+        // The OpenRouter API returned an error status
+        if (apiError instanceof UpstreamError && apiError.status) {
+          const errorText =
+            typeof apiError.data === "string"
+              ? apiError.data
+              : JSON.stringify(apiError.data ?? "");
+          console.error(
+            `❌ OpenRouter API error (${apiError.status}): ${errorText}`
+          );
+          console.error(
+            "❌ This indicates an issue with the OpenRouter API request or authentication"
+          );
 
-          return c.json({
-            recommendation:
-              data.choices[0]?.message?.content ||
-              "No recommendation could be generated.",
-            source: "openrouter",
-          });
+          // Return an error response instead of using fallback
+          return c.json(
+            {
+              error: `OpenRouter API error: ${apiError.status}`,
+              message:
+                errorText.substring(0, 200) +
+                (errorText.length > 200 ? "..." : ""),
+              recommendation:
+                "Unable to generate AI recommendations at this time. Please try again later.",
+            },
+            500
+          );
         }
 
-        // If we get here, the OpenRouter API returned an error
-        const errorText = await response.text();
-        console.error(
-          `❌ OpenRouter API error (${response.status}): ${errorText}`
-        );
-        console.error(
-          "❌ This indicates an issue with the OpenRouter API request or authentication"
-        );
-
-        // Return an error response instead of using fallback
-        return c.json(
-          {
-            error: `OpenRouter API error: ${response.status}`,
-            message:
-              errorText.substring(0, 200) +
-              (errorText.length > 200 ? "..." : ""),
-            recommendation:
-              "Unable to generate AI recommendations at this time. Please try again later.",
-          },
-          500
-        );
-      } catch (apiError) {
         console.error("❌ Error making request to OpenRouter:", apiError);
         return c.json(
           {
@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import {
+  ImportReport,
+  importObservations,
+  parseImportOptions,
+} from "../services/import";
+import { configureRetention } from "../services/retention";
+import { setStorageDatabase } from "../services/storage";
+import { createSqliteDatabase } from "../services/storage/sqlite-database";
+
+// Import station CSV/JSON files into the local observation store:
+//
+//   npm run import -- [options] <file...>
+//
+// Options: --preset cpcb, --format csv|json, --tz Asia/Kolkata,
+// --date-order dmy|mdy|ymd, --lat, --lon, --station, --provider,
+// --columns field:Column,..., --units pollutant:unit,...,
+// --dry-run (validate only), --report <file> (write the reports as JSON)
+
+const USAGE = `Usage: npm run import -- [--preset cpcb] [--format csv|json] [--tz zone]
+  [--date-order dmy|mdy|ymd] [--lat lat --lon lon] [--station name]
+  [--provider name] [--columns field:Column,...] [--units pollutant:unit,...]
+  [--dry-run] [--report report.json] <file...>`;
+
+// Flags taking a value, and the import option each sets
+const VALUE_FLAGS: Record<string, string> = {
+  "--preset": "preset",
+  "--format": "format",
+  "--tz": "tz",
+  "--date-order": "dateOrder",
+  "--lat": "lat",
+  "--lon": "lon",
+  "--station": "station",
+  "--provider": "provider",
+  "--columns": "columns",
+  "--units": "units",
+  "--report": "report",
+};
+
+// Rejected rows printed per file; the report file lists the first 1000
+// (MAX_REPORTED_REJECTIONS) with the counts per reason
+const PRINTED_REJECTIONS = 20;
+
+function parseArgs(args: string[]) {
+  const params: Record<string, string> = {};
+  const files: string[] = [];
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--dry-run") {
+      dryRun = true;
+    } else if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg in VALUE_FLAGS) {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      params[VALUE_FLAGS[arg]] = value;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      files.push(arg);
+    }
+  }
+  return { params, files, dryRun };
+}
+
+function printReport(file: string, report: ImportReport) {
+  console.log(`\n${file}`);
+  console.log(
+    `  ${report.totalRows} rows: ${report.accepted} accepted, ${
+      report.rejected
+    } rejected, ${report.stored} stored${report.dryRun ? " (dry run)" : ""}`
+  );
+  console.log(
+    `  Columns: ${Object.entries(report.columns)
+      .map(([field, column]) => `${field}=${column}`)
+      .join(", ")}`
+  );
+  console.log(`  Time zone: ${report.timeZone}`);
+  for (const location of report.locations) {
+    console.log(
+      `  ${location.station || location.locationId} (${location.lat}, ${
+        location.lon
+      }): ${location.rows} rows, ${location.first} to ${location.last}`
+    );
+  }
+  for (const warning of report.warnings) {
+    console.log(`  Warning: ${warning}`);
+  }
+  for (const [reason, count] of Object.entries(report.rejectionCounts)) {
+    console.log(`  Rejected ${count}: ${reason}`);
+  }
+  for (const rejection of report.rejections.slice(0, PRINTED_REJECTIONS)) {
+    console.log(`    row ${rejection.row}: ${rejection.reason}`);
+  }
+  if (report.rejections.length > PRINTED_REJECTIONS) {
+    console.log(
+      `    ... ${report.rejected - PRINTED_REJECTIONS} more rejected rows`
+    );
+  }
+}
+
+async function main() {
+  dotenv.config();
+  // The report notes rows older than the server's retention window
+  configureRetention(process.env);
+
+  const { params, files, dryRun } = parseArgs(process.argv.slice(2));
+  if (files.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  if (!dryRun) {
+    const dbPath = process.env.AIR_QUALITY_DB_PATH || "data/air-quality.db";
+    setStorageDatabase(createSqliteDatabase(dbPath));
+    console.log(`Observation store: ${dbPath}`);
+  }
+
+  const reports: Record<string, ImportReport> = {};
+  let failed = false;
+  for (const file of files) {
+    try {
+      // Without --format, the extension decides
+      const options = parseImportOptions({
+        format: path.extname(file).toLowerCase() === ".json" ? "json" : "csv",
+        ...params,
+      });
+      const content = fs.readFileSync(file, "utf8");
+      const report = await importObservations(content, options, { dryRun });
+      reports[file] = report;
+      printReport(file, report);
+      if (report.rejected > 0) failed = true;
+    } catch (error) {
+      console.error(
+        `\n${file}: ${error instanceof Error ? error.message : error}`
+      );
+      failed = true;
+    }
+  }
+
+  if (params.report) {
+    fs.writeFileSync(params.report, JSON.stringify(reports, null, 2));
+    console.log(`\nReport written to ${params.report}`);
+  }
+
+  // Non-zero when any file failed or had rejected rows
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,292 @@
+import { POLLUTANTS } from "./aqi-calculator";
+import { getAqiCategory } from "./aqi-standards";
+import {
+  DEFAULT_PERCENTILES,
+  SummaryStats,
+  combineStats,
+  mean,
+  summarize,
+} from "./statistics";
+import { DailyRollup } from "./storage/rollup-repository";
+import { ResolvedTimeZone, localMidnight, toLocalParts } from "./timezone";
+
+// Roll hourly readings up into daily or weekly periods (UTC)
+
+export type AggregationGranularity = "daily" | "weekly";
+
+export interface AggregatableReading {
+  timestamp: number;
+  aqi: number;
+  dominantPollutant?: string | null;
+  components: Record<string, number>;
+}
+
+export interface AggregatedPeriod {
+  period: string;
+  start: number;
+  end: number;
+  count: number;
+  aqi: SummaryStats;
+  level: string;
+  color: string;
+  // Pollutant that most often set the hourly AQI within the period
+  dominantPollutant: string | null;
+  components: Record<string, SummaryStats>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function periodStart(
+  timestamp: number,
+  granularity: AggregationGranularity
+): number {
+  const day = Math.floor(timestamp / DAY_MS);
+  if (granularity === "daily") {
+    return day * DAY_MS;
+  }
+  // Weeks start on Monday; 1970-01-01 was a Thursday
+  return (day - ((day + 3) % 7)) * DAY_MS;
+}
+
+function mostFrequent(values: (string | null | undefined)[]): string | null {
+  const counts = new Map<string, number>();
+  let best: string | null = null;
+  for (const value of values) {
+    if (!value) continue;
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    if (best === null || count > counts.get(best)!) {
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Group readings into daily or weekly periods with mean, min, max and
+ * percentiles for the AQI and every pollutant
+ */
+export function aggregateReadings(
+  readings: AggregatableReading[],
+  granularity: AggregationGranularity,
+  options: { standardId?: string; percentiles?: number[] } = {}
+): AggregatedPeriod[] {
+  const percentiles = options.percentiles || DEFAULT_PERCENTILES;
+  const groups = new Map<number, AggregatableReading[]>();
+
+  for (const reading of readings) {
+    const start = periodStart(reading.timestamp, granularity);
+    if (!groups.has(start)) groups.set(start, []);
+    groups.get(start)!.push(reading);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, group]) => {
+      const aqi = summarize(
+        group.map((reading) => reading.aqi),
+        percentiles
+      )!;
+      const category = getAqiCategory(Math.round(aqi.mean), options.standardId);
+
+      const components: Record<string, SummaryStats> = {};
+      for (const pollutant of POLLUTANTS) {
+        const stats = summarize(
+          group
+            .map((reading) => reading.components[pollutant])
+            .filter((value) => typeof value === "number"),
+          percentiles
+        );
+        if (stats) components[pollutant] = stats;
+      }
+
+      return {
+        period: new Date(start).toISOString().slice(0, 10),
+        start,
+        end: start + (granularity === "daily" ? DAY_MS : 7 * DAY_MS),
+        count: group.length,
+        aqi,
+        level: category.level,
+        color: category.color,
+        dominantPollutant: mostFrequent(
+          group.map((reading) => reading.dominantPollutant)
+        ),
+        components,
+      };
+    });
+}
+
+/**
+ * A stored daily rollup as a daily period under one standard, or null if
+ * the rollup has no AQI statistics for that standard. Rollups only keep the
+ * DEFAULT_PERCENTILES; `percentiles` picks among those.
+ */
+export function periodFromRollup(
+  rollup: DailyRollup,
+  standardId: string,
+  percentiles: number[] = DEFAULT_PERCENTILES
+): AggregatedPeriod | null {
+  const stored = rollup.aqi[standardId];
+  if (!stored) return null;
+  const pick = (stats: SummaryStats): SummaryStats => ({
+    ...stats,
+    percentiles: Object.fromEntries(
+      percentiles
+        .map((p) => `p${p}`)
+        .filter((key) => key in stats.percentiles)
+        .map((key) => [key, stats.percentiles[key]])
+    ),
+  });
+  const aqi = pick(stored);
+  const category = getAqiCategory(Math.round(aqi.mean), standardId);
+  return {
+    period: new Date(rollup.day).toISOString().slice(0, 10),
+    start: rollup.day,
+    end: rollup.day + DAY_MS,
+    count: rollup.count,
+    aqi,
+    level: category.level,
+    color: category.color,
+    dominantPollutant: rollup.dominantPollutant,
+    components: Object.fromEntries(
+      Object.entries(rollup.components).map(([pollutant, stats]) => [
+        pollutant,
+        pick(stats),
+      ])
+    ),
+  };
+}
+
+/**
+ * Merge daily periods into weekly ones when the hourly readings are no
+ * longer available (percentiles are approximate, see combineStats)
+ */
+export function combinePeriods(
+  periods: AggregatedPeriod[],
+  granularity: AggregationGranularity,
+  standardId?: string
+): AggregatedPeriod[] {
+  const groups = new Map<number, AggregatedPeriod[]>();
+  for (const period of periods) {
+    const start = periodStart(period.start, granularity);
+    if (!groups.has(start)) groups.set(start, []);
+    groups.get(start)!.push(period);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, group]) => {
+      const aqi = combineStats(group.map((period) => period.aqi))!;
+      const category = getAqiCategory(Math.round(aqi.mean), standardId);
+
+      const components: Record<string, SummaryStats> = {};
+      for (const pollutant of POLLUTANTS) {
+        const stats = combineStats(
+          group
+            .map((period) => period.components[pollutant])
+            .filter((value): value is SummaryStats => !!value)
+        );
+        if (stats) components[pollutant] = stats;
+      }
+
+      return {
+        period: new Date(start).toISOString().slice(0, 10),
+        start,
+        end: start + (granularity === "daily" ? DAY_MS : 7 * DAY_MS),
+        count: aqi.count,
+        aqi,
+        level: category.level,
+        color: category.color,
+        dominantPollutant: mostFrequent(
+          group.map((period) => period.dominantPollutant)
+        ),
+        components,
+      };
+    });
+}
+
+export interface DailyOutlook {
+  // Local calendar date in the location's timezone
+  date: string;
+  start: number;
+  end: number;
+  hours: number;
+  // Whether every hour of the local day is covered by the forecast
+  complete: boolean;
+  aqi: { min: number; mean: number; max: number };
+  // Category of the worst hour
+  level: string;
+  color: string;
+  dominantPollutant: string | null;
+  worstHour: {
+    timestamp: number;
+    localTime: string;
+    aqi: number;
+    dominantPollutant: string | null;
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Group hourly forecast readings into local calendar days with min, mean
+ * and max AQI, the most frequent dominant pollutant and the worst hour
+ */
+export function aggregateDailyOutlook(
+  readings: AggregatableReading[],
+  zone: ResolvedTimeZone,
+  standardId?: string
+): DailyOutlook[] {
+  const groups = new Map<string, AggregatableReading[]>();
+  for (const reading of readings) {
+    const { date } = toLocalParts(
+      reading.timestamp,
+      zone.offsetAt(reading.timestamp)
+    );
+    if (!groups.has(date)) groups.set(date, []);
+    groups.get(date)!.push(reading);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, group]) => {
+      const start = localMidnight(date, zone);
+      const nextDate = new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+      const end = localMidnight(nextDate, zone);
+
+      const worst = group.reduce((max, reading) =>
+        reading.aqi > max.aqi ? reading : max
+      );
+      const values = group.map((reading) => reading.aqi);
+      const category = getAqiCategory(worst.aqi, standardId);
+
+      return {
+        date,
+        start,
+        end,
+        hours: group.length,
+        complete: group.length >= Math.round((end - start) / HOUR_MS),
+        aqi: {
+          min: Math.min(...values),
+          mean: Math.round(mean(values) * 10) / 10,
+          max: worst.aqi,
+        },
+        level: category.level,
+        color: category.color,
+        dominantPollutant: mostFrequent(
+          group.map((reading) => reading.dominantPollutant)
+        ),
+        worstHour: {
+          timestamp: worst.timestamp,
+          localTime: toLocalParts(
+            worst.timestamp,
+            zone.offsetAt(worst.timestamp)
+          ).time,
+          aqi: worst.aqi,
+          dominantPollutant: worst.dominantPollutant ?? null,
+        },
+      };
+    });
+}
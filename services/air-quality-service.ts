@@ -1,55 +1,35 @@
-import axios from "axios";
-import * as dotenv from "dotenv";
-
-// Try to load environment variables, but this won't work in Cloudflare Workers
-// This is just for local development
-try {
-  dotenv.config();
-} catch (e) {
-  console.log(
-    "dotenv not available, running in Cloudflare Workers environment"
-  );
-}
-
-// For Cloudflare Workers, environment variables are accessible through the global variable
-// See: https://developers.cloudflare.com/workers/platform/environment-variables/
-let OPENWEATHER_API_KEY: string | undefined;
-// In Cloudflare Workers, environment variables aren't available in the global scope
-// Cloudflare Workers specific way to access environment variables
-if (typeof OPENWEATHER_API_KEY === "undefined") {
-  try {
-    // Access directly from global scope in Cloudflare Workers
-    OPENWEATHER_API_KEY =
-      OPENWEATHER_API_KEY ||
-      (typeof self !== "undefined" && (self as any).OPENWEATHER_API_KEY) ||
-      (typeof globalThis !== "undefined" &&
-        (globalThis as any).OPENWEATHER_API_KEY);
-    // Fallback to Node.js environment variables (for local development)
-    if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
-      OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
-    }
-  } catch (e) {
-    console.error("Error accessing environment variables:", e);
-  }
-}
-
-// Debug the API key (remove in production)
-console.log(
-  "API Key being used:",
-  OPENWEATHER_API_KEY
-    ? `${OPENWEATHER_API_KEY.substring(0, 5)}... (${
-        OPENWEATHER_API_KEY.length
-      } chars)`
-    : "API key is NOT SET"
-);
-
-if (!OPENWEATHER_API_KEY) {
-  console.error(
-    "⚠️ CRITICAL ERROR: OpenWeather API key is not set! Make sure to add it in the Cloudflare dashboard under Settings > Variables."
-  );
-}
-
-const BASE_URL = "https://api.openweathermap.org/data/2.5";
+import {
+  AggregatedPeriod,
+  aggregateReadings,
+  periodFromRollup,
+} from "./aggregation";
+import {
+  AnomalyFlag,
+  ScreenableReading,
+  detectAnomalies,
+  screenReading,
+} from "./anomaly-detection";
+import { AqiBreakdown, calculateNowCast } from "./aqi-calculator";
+import { AqiStandard, getAqiCategory, getAqiStandard } from "./aqi-standards";
+import { decodeGeohash } from "./geohash";
+import { setOpenWeatherApiKey } from "./providers/openweather-provider";
+import { fetchFromProviders } from "./providers/provider-registry";
+import { ProviderReading } from "./providers/types";
+import {
+  getForecastRepository,
+  getObservationRepository,
+  getRollupRepository,
+} from "./storage";
+import {
+  CLIENT_PROVIDER,
+  Observation,
+  locationIdFor,
+} from "./storage/observation-repository";
+import { getRawRetentionCutoff } from "./retention";
+import { evaluateWhoGuidelines } from "./who-guidelines";
+
+// Air quality data is fetched through the provider registry, which tries
+// OpenWeather first and falls back to the other configured sources
 
 // AQI level descriptions with standard AQI range values
 const AQI_LEVELS = [
@@ -85,548 +65,412 @@ const AQI_LEVELS = [
   },
 ];
 
-// Convert OpenWeather's AQI (1-5) to a standard AQI scale (0-500)
-// This is an approximation based on common AQI scales
-function convertToStandardAQI(openWeatherAQI: number, components: any): number {
-  // Using PM2.5, PM10, O3, NO2, SO2, CO to calculate a more accurate AQI
-  // These formulas are approximations based on US EPA standards
-
-  // Extract component values
-  const pm25 = components.pm2_5; // μg/m³
-  const pm10 = components.pm10; // μg/m³
-  const o3 = components.o3; // μg/m³
-  const no2 = components.no2; // μg/m³
-  const so2 = components.so2; // μg/m³
-  const co = components.co; // μg/m³
-
-  // Calculate individual AQI values for each pollutant
-  // PM2.5 calculation (simplified formula based on US EPA breakpoints)
-  let pm25AQI = 0;
-  if (pm25 <= 12) {
-    pm25AQI = linearScale(pm25, 0, 12, 0, 50);
-  } else if (pm25 <= 35.4) {
-    pm25AQI = linearScale(pm25, 12.1, 35.4, 51, 100);
-  } else if (pm25 <= 55.4) {
-    pm25AQI = linearScale(pm25, 35.5, 55.4, 101, 150);
-  } else if (pm25 <= 150.4) {
-    pm25AQI = linearScale(pm25, 55.5, 150.4, 151, 200);
-  } else if (pm25 <= 250.4) {
-    pm25AQI = linearScale(pm25, 150.5, 250.4, 201, 300);
-  } else if (pm25 <= 350.4) {
-    pm25AQI = linearScale(pm25, 250.5, 350.4, 301, 400);
-  } else {
-    pm25AQI = linearScale(pm25, 350.5, 500, 401, 500);
-  }
-
-  // PM10 calculation
-  let pm10AQI = 0;
-  if (pm10 <= 54) {
-    pm10AQI = linearScale(pm10, 0, 54, 0, 50);
-  } else if (pm10 <= 154) {
-    pm10AQI = linearScale(pm10, 55, 154, 51, 100);
-  } else if (pm10 <= 254) {
-    pm10AQI = linearScale(pm10, 155, 254, 101, 150);
-  } else if (pm10 <= 354) {
-    pm10AQI = linearScale(pm10, 255, 354, 151, 200);
-  } else {
-    pm10AQI = linearScale(pm10, 355, 500, 201, 300);
-  }
+// Convert OpenWeather's AQI (1-5) to a standard AQI scale (US EPA 0-500 by default)
+// Every pollutant is scored against the standard's official breakpoints
+function convertToStandardAQI(
+  openWeatherAQI: number | undefined,
+  components: any,
+  standard: AqiStandard
+): AqiBreakdown {
+  const breakdown = standard.calculate(components);
 
-  // O3 calculation (simplified)
-  let o3AQI = 0;
-  if (o3 <= 108) {
-    // ~0.054 ppm
-    o3AQI = linearScale(o3, 0, 108, 0, 50);
-  } else if (o3 <= 140) {
-    // ~0.070 ppm
-    o3AQI = linearScale(o3, 108.1, 140, 51, 100);
-  } else if (o3 <= 170) {
-    // ~0.085 ppm
-    o3AQI = linearScale(o3, 140.1, 170, 101, 150);
-  } else if (o3 <= 210) {
-    // ~0.105 ppm
-    o3AQI = linearScale(o3, 170.1, 210, 151, 200);
-  } else {
-    o3AQI = linearScale(o3, 210.1, 400, 201, 300);
-  }
-
-  // Take the highest AQI value as the overall AQI
-  const aqiValues = [pm25AQI, pm10AQI, o3AQI];
-  const calculatedAQI = Math.max(...aqiValues);
   console.log("Individual pollutant AQI values:", {
-    PM2_5: Math.round(pm25AQI),
-    PM10: Math.round(pm10AQI),
-    O3: Math.round(o3AQI),
-    combined: Math.round(calculatedAQI),
+    ...Object.fromEntries(
+      Object.entries(breakdown.subIndices).map(([pollutant, subIndex]) => [
+        pollutant,
+        subIndex?.aqi,
+      ])
+    ),
+    combined: breakdown.aqi,
+    standard: standard.id,
+    dominantPollutant: breakdown.dominantPollutant,
     openWeatherAQI,
   });
-  return Math.round(calculatedAQI);
+  return breakdown;
 }
 
-// Linear scaling function to map one range to another
-function linearScale(
-  value: number,
-  fromMin: number,
-  fromMax: number,
-  toMin: number,
-  toMax: number
-): number {
-  return ((value - fromMin) * (toMax - toMin)) / (fromMax - fromMin) + toMin;
+// Add a new function to set the API key that can be called from routes
+export function setApiKey(apiKey: string) {
+  setOpenWeatherApiKey(apiKey);
 }
 
-// Get color for AQI value
-function getAqiColor(aqi: number): string {
-  if (aqi <= 50) return "green";
-  if (aqi <= 100) return "yellow";
-  if (aqi <= 150) return "orange";
-  if (aqi <= 200) return "red";
-  if (aqi <= 300) return "purple";
-  return "maroon";
+function validateCoordinates(lat: string, lon: string) {
+  if (isNaN(parseFloat(lat)) || isNaN(parseFloat(lon))) {
+    console.error(`Invalid coordinates provided: lat=${lat}, lon=${lon}`);
+    throw new Error("Invalid coordinates provided");
+  }
 }
 
-// Get descriptive category for AQI value
-function getAqiCategory(aqi: number): { level: string; description: string } {
-  if (aqi <= 50) {
-    return {
-      level: "Good",
-      description:
-        "Air quality is satisfactory, and air pollution poses little or no risk.",
-    };
-  } else if (aqi <= 100) {
-    return {
-      level: "Moderate",
-      description:
-        "Air quality is acceptable. However, there may be a risk for some people, particularly those who are unusually sensitive to air pollution.",
-    };
-  } else if (aqi <= 150) {
-    return {
-      level: "Unhealthy for Sensitive Groups",
-      description:
-        "Members of sensitive groups may experience health effects. The general public is less likely to be affected.",
-    };
-  } else if (aqi <= 200) {
-    return {
-      level: "Unhealthy",
-      description:
-        "Some members of the general public may experience health effects; members of sensitive groups may experience more serious health effects.",
-    };
-  } else if (aqi <= 300) {
-    return {
-      level: "Very Unhealthy",
-      description:
-        "Health alert: The risk of health effects is increased for everyone.",
-    };
-  } else {
-    return {
-      level: "Hazardous",
-      description:
-        "Health warning of emergency conditions: everyone is more likely to be affected.",
-    };
+// Stored history is used instead of the provider when it covers this much of the range
+const STORED_HISTORY_MIN_COVERAGE = 0.9;
+
+// A stored reading this recent is used as a location's current air quality
+const LATEST_READING_MAX_AGE = 60 * 60 * 1000;
+
+// Stored history a current reading is screened for anomalies against
+const ANOMALY_CONTEXT_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Anomaly flags for a location's latest reading, compared with the stored
+ * week before it. Without stored history only the single-reading rules
+ * apply.
+ */
+async function flagLatestReading(
+  locationId: string,
+  reading: ScreenableReading
+): Promise<AnomalyFlag[]> {
+  let earlier: Observation[] = [];
+  try {
+    const repository = await getObservationRepository();
+    if (repository) {
+      earlier = await repository.find({
+        locationId,
+        start: reading.timestamp - ANOMALY_CONTEXT_MS,
+        end: reading.timestamp - 1,
+        excludeProviders: [CLIENT_PROVIDER],
+      });
+    }
+  } catch (error) {
+    console.error("Failed to read stored observations for screening:", error);
   }
+  const flags = screenReading(reading, earlier);
+  if (flags.length > 0) {
+    console.warn(
+      `Suspect reading for ${locationId}: ${flags
+        .map((flag) => flag.detail)
+        .join("; ")}`
+    );
+  }
+  return flags;
 }
 
-// Add a new function to set the API key that can be called from routes
-export function setApiKey(apiKey: string) {
-  if (apiKey) {
-    OPENWEATHER_API_KEY = apiKey;
+// A reading as stored, with the AQI under the default standard
+function toObservation(
+  lat: string,
+  lon: string,
+  reading: ProviderReading,
+  provider: string
+): Observation {
+  const breakdown = getAqiStandard().calculate(reading.components);
+  return {
+    locationId: locationIdFor(lat, lon),
+    lat: Number(lat),
+    lon: Number(lon),
+    timestamp: reading.timestamp,
+    provider,
+    aqi: isFinite(breakdown.aqi) ? breakdown.aqi : null,
+    dominantPollutant: breakdown.dominantPollutant,
+    openWeatherAqi: reading.openWeatherAqi ?? null,
+    components: reading.components,
+  };
+}
+
+/**
+ * Persist fetched readings in the observation store. Storage problems are
+ * logged and never fail the request that fetched the data.
+ */
+async function storeReadings(
+  lat: string,
+  lon: string,
+  readings: ProviderReading[],
+  provider: string
+) {
+  try {
+    const repository = await getObservationRepository();
+    // Readings already past the raw retention window would only be deleted again
+    const cutoff = getRawRetentionCutoff();
+    const current = readings.filter((reading) => reading.timestamp >= cutoff);
+    if (!repository || current.length === 0) return;
+
+    const stored = await repository.record(
+      current.map((reading) => toObservation(lat, lon, reading, provider))
+    );
     console.log(
-      `API key set manually: ${apiKey.substring(0, 5)}... (${
-        apiKey.length
-      } chars)`
+      `Stored ${stored} observations for ${lat}, ${lon} (${provider})`
     );
+  } catch (error) {
+    console.error("Failed to store observations:", error);
   }
 }
 
-export async function getCurrentAirQuality(
+/**
+ * Store readings imported from files, however old. Days past the raw
+ * retention window are rolled up by the next retention run.
+ */
+export async function recordImportedReadings(
   lat: string,
   lon: string,
-  apiKey?: string
+  readings: ProviderReading[],
+  provider: string
+): Promise<number> {
+  validateCoordinates(lat, lon);
+  const repository = await getObservationRepository();
+  if (!repository) throw new Error("Observation storage is not configured");
+  return repository.record(
+    readings.map((reading) => toObservation(lat, lon, reading, provider))
+  );
+}
+
+/**
+ * Persist a forecast as issued now. Like storeReadings, failures are only
+ * logged.
+ */
+async function storeForecast(
+  lat: string,
+  lon: string,
+  readings: ProviderReading[],
+  provider: string
 ) {
   try {
-    // If API key is passed directly to this function, use it
-    if (apiKey) {
-      OPENWEATHER_API_KEY = apiKey;
-    }
-
-    // For local development, try process.env as fallback
-    if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
-      OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
-    }
-
+    const repository = await getForecastRepository();
+    if (!repository || readings.length === 0) return;
+
+    const standard = getAqiStandard();
+    const issuedAt = Math.floor(Date.now() / 3600000) * 3600000;
+    const stored = await repository.record(
+      readings.map((reading) => {
+        const breakdown = standard.calculate(reading.components);
+        return {
+          locationId: locationIdFor(lat, lon),
+          lat: Number(lat),
+          lon: Number(lon),
+          issuedAt,
+          timestamp: reading.timestamp,
+          provider,
+          aqi: isFinite(breakdown.aqi) ? breakdown.aqi : null,
+          dominantPollutant: breakdown.dominantPollutant,
+          openWeatherAqi: reading.openWeatherAqi ?? null,
+          components: reading.components,
+        };
+      })
+    );
     console.log(
-      `Fetching air quality for: ${lat}, ${lon} with API key: ${
-        OPENWEATHER_API_KEY
-          ? `${OPENWEATHER_API_KEY.substring(0, 5)}... (${
-              OPENWEATHER_API_KEY.length
-            } chars)`
-          : "NOT SET"
-      }`
+      `Stored ${stored} forecast hours for ${lat}, ${lon} (${provider})`
     );
+  } catch (error) {
+    console.error("Failed to store forecast:", error);
+  }
+}
 
-    // Add explicit error handling for API key issues
-    if (!OPENWEATHER_API_KEY) {
-      console.error("⚠️ CRITICAL: Cannot make API request without API key");
-      throw new Error(
-        "OpenWeather API key is missing. Make sure it's set in Cloudflare Worker environment variables."
-      );
-    }
-
-    // Add more debugging information and validation
-    if (isNaN(parseFloat(lat)) || isNaN(parseFloat(lon))) {
-      console.error(`Invalid coordinates provided: lat=${lat}, lon=${lon}`);
-      throw new Error("Invalid coordinates provided");
-    }
-
-    // Make the API request with retry logic
-    const MAX_RETRIES = 3;
-    let retryCount = 0;
-    let lastError;
-
-    while (retryCount < MAX_RETRIES) {
-      try {
-        // Enhanced debugging for API request details
-        const fullRequestUrl = `${BASE_URL}/air_pollution?lat=${lat}&lon=${lon}&appid=${OPENWEATHER_API_KEY}`;
-        const maskedUrl = `${BASE_URL}/air_pollution?lat=${lat}&lon=${lon}&appid=${OPENWEATHER_API_KEY.substring(
-          0,
-          3
-        )}...`;
+/**
+ * Hourly readings between two unix timestamps (seconds). Served from the
+ * observation store when it covers the range, otherwise fetched from the
+ * providers and stored for next time.
+ */
+async function loadHistoryReadings(
+  lat: string,
+  lon: string,
+  start: number,
+  end: number
+): Promise<{
+  readings: ProviderReading[];
+  provider: string;
+  source: "store" | "provider";
+}> {
+  try {
+    const repository = await getObservationRepository();
+    if (repository) {
+      const observations = await repository.find({
+        locationId: locationIdFor(lat, lon),
+        start: start * 1000,
+        end: end * 1000,
+        excludeProviders: [CLIENT_PROVIDER],
+      });
+
+      // One reading per hour, whichever provider stored it first
+      const byHour = new Map<number, (typeof observations)[number]>();
+      for (const observation of observations) {
+        const hour = Math.floor(observation.timestamp / 3600000);
+        if (!byHour.has(hour)) byHour.set(hour, observation);
+      }
 
+      const expectedHours = Math.max(1, Math.floor((end - start) / 3600));
+      if (byHour.size >= expectedHours * STORED_HISTORY_MIN_COVERAGE) {
+        const readings = Array.from(byHour.values());
         console.log(
-          `⚠️ OPENWEATHER API KEY LENGTH: ${OPENWEATHER_API_KEY.length}`
+          `Serving ${readings.length} history readings from the observation store`
         );
-        console.log(
-          `⚠️ FIRST 5 CHARS OF API KEY: ${OPENWEATHER_API_KEY.substring(0, 5)}`
-        );
-        console.log(`🔄 API REQUEST ATTEMPT ${retryCount + 1}/${MAX_RETRIES}`);
-        console.log(`📡 Masked URL: ${maskedUrl}`);
-        console.log(`🕒 Timestamp: ${new Date().toISOString()}`);
-
-        // Use a simpler and more compatible API test approach for Cloudflare Workers
-        try {
-          console.log(`🔍 ATTEMPTING DIRECT API TEST...`);
-          // Use a simplified axios call that's more compatible with serverless environments
-          const testResponse = await axios({
-            method: "get",
-            url: `${BASE_URL}/air_pollution`,
-            params: {
-              lat,
-              lon,
-              appid: OPENWEATHER_API_KEY,
-            },
-            timeout: 8000, // Shorter timeout for test - reduced for Cloudflare's limits
-            headers: {
-              Accept: "application/json",
-              "User-Agent": "UAQMP/1.0 (Cloudflare Worker)",
-            },
-            decompress: true, // Handle gzip responses automatically
-            validateStatus: null, // Don't throw on any status code
-          });
-          console.log(
-            `✅ DIRECT API TEST STATUS: ${testResponse.status} ${
-              testResponse.statusText || ""
-            }`
-          );
-
-          // Safe stringification of response
-          try {
-            const responseStr = JSON.stringify(testResponse.data).substring(
-              0,
-              200
-            );
-            console.log(`📄 DIRECT API TEST RESPONSE: ${responseStr}...`);
-          } catch (error: unknown) {
-            const jsonError = error as Error;
-            console.log(
-              `📄 Could not stringify test response: ${jsonError.message}`
-            );
-          }
-        } catch (error: unknown) {
-          const directApiError = error as Error;
-          console.error(`❌ DIRECT API TEST FAILED: ${directApiError.message}`);
-        }
-
-        // Start timing the actual axios request
-        const startTime = Date.now();
-        console.log(`⏱️ Starting axios request with 30s timeout...`);
-
-        // Simplified axios config suitable for Cloudflare Workers environment
-        const axiosConfig = {
-          method: "get",
-          url: `${BASE_URL}/air_pollution`,
-          params: {
-            lat,
-            lon,
-            appid: OPENWEATHER_API_KEY,
-          },
-          timeout: 25000, // Reduce from 30s for Cloudflare's limits
-          headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            "User-Agent": "UAQMP/1.0 (Cloudflare Worker)",
-            "Cache-Control": "no-cache",
-          },
-          // Remove the Node.js specific https agent options
-          maxRedirects: 5,
-          decompress: true,
+        return {
+          readings: readings.map((observation) => ({
+            timestamp: observation.timestamp,
+            components: observation.components,
+            openWeatherAqi: observation.openWeatherAqi ?? undefined,
+          })),
+          provider: readings[readings.length - 1].provider,
+          source: "store",
         };
-        console.log(
-          `📡 Request Config:`,
-          JSON.stringify(
-            axiosConfig,
-            (key, value) => (key === "appid" ? "***masked***" : value),
-            2
-          )
-        );
-
-        // Define response variable in the outer scope so it's accessible outside the try-catch
-        let response;
-
-        // Use try-catch for the main request with more specific error handling
-        try {
-          response = await axios(axiosConfig);
-
-          // Log request duration
-          const duration = Date.now() - startTime;
-          console.log(`⏱️ Request completed in ${duration}ms`);
-          console.log(`✅ API RESPONSE RECEIVED:`);
-          console.log(`📊 Status: ${response.status} ${response.statusText}`);
-          console.log(`📦 Headers:`, JSON.stringify(response.headers, null, 2));
-
-          // Safe way to log response structure
-          try {
-            console.log(
-              `📋 Full response data:`,
-              JSON.stringify(response.data).substring(0, 500)
-            );
-          } catch (error: unknown) {
-            // Fixed: Added proper type annotation for the error
-            const jsonError = error as Error;
-            console.log(
-              `📋 Could not stringify response data:`,
-              jsonError.message
-            );
-          }
-        } catch (axiosError: any) {
-          // Handle this specific axios error separately with better diagnostics
-          console.error(`⚠️ Axios request failed with error:`, {
-            message: axiosError.message,
-            code: axiosError.code || "UNKNOWN",
-            name: axiosError.name,
-            config: axiosError.config
-              ? {
-                  url: axiosError.config.url,
-                  method: axiosError.config.method,
-                  timeout: axiosError.config.timeout,
-                }
-              : "No config available",
-            response: axiosError.response
-              ? {
-                  status: axiosError.response.status,
-                  statusText: axiosError.response.statusText,
-                  headers: axiosError.response.headers || {},
-                  data:
-                    typeof axiosError.response.data === "string"
-                      ? axiosError.response.data.substring(0, 200)
-                      : JSON.stringify(
-                          axiosError.response.data || {}
-                        ).substring(0, 200),
-                }
-              : "No response available",
-          });
-          // Re-throw to be caught by the outer try-catch
-          throw axiosError;
-        }
-
-        // Now check if we have a valid response object
-        if (!response) {
-          throw new Error("No response received from OpenWeather API");
-        }
-
-        // Add additional validation for response structure
-        if (!response.data) {
-          throw new Error("Empty response from OpenWeather API");
-        }
-
-        if (!response.data.list) {
-          console.error(
-            "API response missing 'list' property:",
-            JSON.stringify(response.data)
-          );
-          throw new Error(
-            "Invalid API response structure: missing 'list' property"
-          );
-        }
-
-        if (response.data.list.length === 0) {
-          throw new Error("OpenWeather API returned empty list");
-        }
-
-        if (response.data && response.data.list) {
-          console.log(`📈 List items count: ${response.data.list.length}`);
-          if (response.data.list.length > 0) {
-            console.log(
-              `🔍 First item structure:`,
-              Object.keys(response.data.list[0] || {})
-            );
-            console.log(
-              `🧪 Components available:`,
-              Object.keys(response.data.list[0].components || {})
-            );
-            console.log(
-              `🔢 AQI value from API: ${response.data.list[0].main?.aqi}`
-            );
-            console.log(
-              `🧩 First few component values:`,
-              `PM2.5=${response.data.list[0].components?.pm2_5 || "N/A"}`,
-              `PM10=${response.data.list[0].components?.pm10 || "N/A"}`,
-              `O3=${response.data.list[0].components?.o3 || "N/A"}`
-            );
-          }
-        }
-
-        // Verify that the response contains the expected data
-        if (
-          !response.data ||
-          !response.data.list ||
-          response.data.list.length === 0
-        ) {
-          console.error(
-            "❌ OpenWeather API returned empty or invalid data structure:",
-            JSON.stringify(response.data)
-          );
-          throw new Error("OpenWeather API returned empty or invalid data");
-        }
+      }
+    }
+  } catch (error) {
+    console.error("Failed to read stored observations:", error);
+  }
 
-        const data = response.data.list[0];
-        const openWeatherAqi = data.main.aqi;
+  const { data, provider } = await fetchFromProviders("history", (source) =>
+    source.getHistory!(lat, lon, start, end)
+  );
+  await storeReadings(lat, lon, data, provider);
+  return { readings: data, provider, source: "provider" };
+}
 
-        // Convert to standard AQI
-        const standardAqi = convertToStandardAQI(
-          openWeatherAqi,
-          data.components
-        );
-        const aqiCategory = getAqiCategory(standardAqi);
-        console.log(
-          `OpenWeather AQI: ${openWeatherAqi}, Converted to standard AQI: ${standardAqi}`
-        );
-        console.log(`AQI Category: ${aqiCategory.level}`);
+// A location given either as coordinates or as a location ID (geohash cell)
+export type LocationRef = { lat: string; lon: string } | { locationId: string };
+
+export interface AirQualitySnapshot {
+  locationId: string;
+  aqi: number;
+  level: string;
+  components: Record<string, number>;
+  location: { lat: string; lon: string };
+  timestamp: number;
+  provider: string;
+  // Anomaly flags; empty for a reading that passed screening
+  flags: AnomalyFlag[];
+}
 
-        return {
-          timestamp: data.dt * 1000, // Convert to milliseconds
-          aqi: standardAqi, // Use the converted standard AQI
-          openWeatherAqi: openWeatherAqi, // Keep original for reference
-          level: aqiCategory.level,
-          description: aqiCategory.description,
-          color: getAqiColor(standardAqi),
-          components: data.components,
-          location: { lat, lon },
-          error: false, // Explicitly mark as not an error
-        };
-      } catch (error: any) {
-        lastError = error;
-        retryCount++;
+/**
+ * Coordinates and location ID for a location reference. Location IDs
+ * resolve to the centre of their cell.
+ */
+export function resolveLocation(ref: LocationRef) {
+  if ("locationId" in ref) {
+    const centre = decodeGeohash(ref.locationId);
+    if (!ref.locationId || !centre) {
+      throw new Error(`Invalid location ID: ${ref.locationId}`);
+    }
+    const lat = centre.lat.toFixed(6);
+    const lon = centre.lon.toFixed(6);
+    return { lat, lon, locationId: locationIdFor(lat, lon) };
+  }
+  validateCoordinates(ref.lat, ref.lon);
+  return { ...ref, locationId: locationIdFor(ref.lat, ref.lon) };
+}
 
-        // Enhanced error logging
-        console.error(
-          `❌ API REQUEST FAILED (Attempt ${retryCount}/${MAX_RETRIES}):`
-        );
-        console.error(`🚨 Error name: ${error.name}`);
-        console.error(`📝 Error message: ${error.message}`);
-        console.error(`🔍 ERROR STACK: ${error.stack}`);
+/**
+ * Current air quality for one location: the latest stored provider reading
+ * for that location if it is recent, otherwise a fresh provider fetch.
+ * Never falls back to readings from other locations or from clients.
+ */
+export async function getLocationAirQuality(
+  ref: LocationRef,
+  standardId?: string
+): Promise<AirQualitySnapshot> {
+  const { lat, lon, locationId } = resolveLocation(ref);
+  const standard = getAqiStandard(standardId);
 
-        if (error.code) {
-          console.error(`🔢 Error code: ${error.code}`);
-        }
+  try {
+    const repository = await getObservationRepository();
+    const [observation] = repository
+      ? await repository.find({
+          locationId,
+          start: Date.now() - LATEST_READING_MAX_AGE,
+          excludeProviders: [CLIENT_PROVIDER],
+          order: "desc",
+          limit: 1,
+        })
+      : [];
+    if (observation) {
+      const aqi = standard.calculate(observation.components).aqi;
+      return {
+        locationId,
+        aqi,
+        level: getAqiCategory(aqi, standard.id).level,
+        components: observation.components,
+        location: { lat, lon },
+        timestamp: observation.timestamp,
+        provider: observation.provider,
+        flags: await flagLatestReading(locationId, observation),
+      };
+    }
+  } catch (error) {
+    console.error("Failed to read the latest stored observation:", error);
+  }
 
-        if (error.response) {
-          // The server responded with a status code outside of 2xx range
-          console.error(`🔴 Response status: ${error.response.status}`);
-          console.error(`🔴 Response statusText: ${error.response.statusText}`);
-          console.error(
-            `📄 Response headers:`,
-            JSON.stringify(error.response.headers || {}, null, 2)
-          );
-          // Safely log response data
-          try {
-            const responseDataStr = JSON.stringify(error.response.data);
-            console.error(`📑 Response data:`, responseDataStr);
-          } catch (jsonError) {
-            console.error(
-              `📑 Response data: [Could not stringify]`,
-              error.response.data
-            );
-          }
-        } else if (error.request) {
-          // The request was made but no response was received
-          console.error(`🟠 No response received - Network or CORS issue`);
-          console.error(`🟠 Request was made but no response`);
-          // Try to log request details
-          try {
-            console.error(
-              `📡 Request URL:`,
-              error.request.path || error.config?.url || "URL not available"
-            );
-          } catch (error: unknown) {
-            // Fixed: Added proper type annotation for the error
-            const e = error as Error;
-            console.error(`📡 Could not access request details:`, e.message);
-          }
-        } else {
-          // Something happened in setting up the request
-          console.error(`🟡 Request setup error: ${error.message}`);
-        }
+  const current = await getCurrentAirQuality(lat, lon, undefined, standard.id);
+  return {
+    locationId,
+    aqi: current.aqi,
+    level: current.level,
+    components: current.components,
+    location: { lat, lon },
+    timestamp: current.timestamp,
+    provider: current.provider,
+    flags: current.flags,
+  };
+}
 
-        // Add network utilities for diagnosis
-        try {
-          const dns = require("dns");
-          // Fixed: Added proper types for the callback parameters
-          dns.lookup(
-            "api.openweathermap.org",
-            (
-              err: NodeJS.ErrnoException | null,
-              address: string,
-              family: number
-            ) => {
-              if (err) {
-                console.error(`❌ DNS lookup failed:`, err);
-              } else {
-                console.log(
-                  `✅ DNS lookup success: api.openweathermap.org -> ${address} (IPv${family})`
-                );
-              }
-            }
-          );
-        } catch (error: unknown) {
-          // Fixed: Added proper type annotation for the error
-          const dnsError = error as Error;
-          console.error(`❌ DNS utility not available:`, dnsError.message);
-        }
+/**
+ * Store a reading reported by the frontend. Returns false when no storage
+ * is configured.
+ */
+export async function storeClientAirQuality(
+  lat: string,
+  lon: string,
+  components: Record<string, number>,
+  timestamp = Date.now()
+): Promise<boolean> {
+  validateCoordinates(lat, lon);
+  if (!(await getObservationRepository())) return false;
+  await storeReadings(lat, lon, [{ timestamp, components }], CLIENT_PROVIDER);
+  return true;
+}
 
-        // Wait a bit before retrying (increasing backoff)
-        if (retryCount < MAX_RETRIES) {
-          const delay = retryCount * 1000; // Increasing delay with each retry
-          console.log(`⏳ Retrying in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-      }
+export async function getCurrentAirQuality(
+  lat: string,
+  lon: string,
+  apiKey?: string,
+  standardId?: string
+) {
+  const standard = getAqiStandard(standardId);
+  try {
+    // If API key is passed directly to this function, use it
+    if (apiKey) {
+      setOpenWeatherApiKey(apiKey);
     }
 
-    // If we got here, all retries failed
-    console.error("❌ ALL RETRY ATTEMPTS FAILED");
-    console.error(
-      "📊 Final error details:",
-      lastError?.message || "Unknown error"
+    validateCoordinates(lat, lon);
+    console.log(`Fetching air quality for: ${lat}, ${lon}`);
+
+    const { data, provider } = await fetchFromProviders("current", (source) =>
+      source.getCurrent(lat, lon)
+    );
+    await storeReadings(lat, lon, [data], provider);
+    const flags = await flagLatestReading(locationIdFor(lat, lon), data);
+
+    // Convert to standard AQI
+    const breakdown = convertToStandardAQI(
+      data.openWeatherAqi,
+      data.components,
+      standard
     );
-    throw lastError || new Error("All API retry attempts failed");
+    const standardAqi = breakdown.aqi;
+    const aqiCategory = getAqiCategory(standardAqi, standard.id);
+    console.log(
+      `Converted to standard AQI: ${standardAqi} (provider: ${provider})`
+    );
+    console.log(`AQI Category: ${aqiCategory.level}`);
+
+    return {
+      timestamp: data.timestamp,
+      aqi: standardAqi, // Use the converted standard AQI
+      openWeatherAqi: data.openWeatherAqi ?? null, // Keep original for reference
+      level: aqiCategory.level,
+      description: aqiCategory.description,
+      color: aqiCategory.color,
+      standard: standard.id,
+      dominantPollutant: breakdown.dominantPollutant,
+      subIndices: breakdown.subIndices,
+      components: data.components,
+      location: { lat, lon },
+      provider,
+      flags,
+      error: false, // Explicitly mark as not an error
+    };
   } catch (error: any) {
     // Propagate the error to be handled by the route handler
     console.error(
-      "❌ FATAL ERROR: Failed to fetch air quality data after multiple attempts:",
+      "❌ FATAL ERROR: Failed to fetch air quality data:",
       error.message
     );
-    // Log stack trace for debugging
-    console.error("📚 Error stack trace:", error.stack);
-
     throw error;
   }
 }
@@ -639,211 +483,468 @@ export async function getAirQualityComponents(
   try {
     // If API key is passed directly to this function, use it
     if (apiKey) {
-      OPENWEATHER_API_KEY = apiKey;
+      setOpenWeatherApiKey(apiKey);
     }
 
-    // For local development, try process.env as fallback
-    if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
-      OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
-    }
+    validateCoordinates(lat, lon);
     console.log(`Fetching air quality components for: ${lat}, ${lon}`);
 
-    if (!OPENWEATHER_API_KEY) {
-      console.error("Cannot make components API request without API key");
-      throw new Error(
-        "OpenWeather API key is missing. Check your environment variables."
-      );
+    const { data, provider } = await fetchFromProviders("current", (source) =>
+      source.getCurrent(lat, lon)
+    );
+    await storeReadings(lat, lon, [data], provider);
+    const components = data.components;
+
+    return {
+      co: {
+        value: components.co,
+        unit: "μg/m³",
+        name: "Carbon Monoxide",
+      },
+      no: {
+        value: components.no,
+        unit: "μg/m³",
+        name: "Nitrogen Monoxide",
+      },
+      no2: {
+        value: components.no2,
+        unit: "μg/m³",
+        name: "Nitrogen Dioxide",
+      },
+      o3: { value: components.o3, unit: "μg/m³", name: "Ozone" },
+      so2: {
+        value: components.so2,
+        unit: "μg/m³",
+        name: "Sulphur Dioxide",
+      },
+      pm2_5: {
+        value: components.pm2_5,
+        unit: "μg/m³",
+        name: "Fine Particles",
+      },
+      pm10: {
+        value: components.pm10,
+        unit: "μg/m³",
+        name: "Coarse Particles",
+      },
+      nh3: { value: components.nh3, unit: "μg/m³", name: "Ammonia" },
+      provider,
+    };
+  } catch (error) {
+    console.error("Error in getAirQualityComponents:", error);
+    throw error; // Propagate the error to be handled by the route handler
+  }
+}
+
+// Forecast data from the first provider that offers forecasts. OpenWeather
+// returns about 96 hours; `hours` limits how many are converted and returned.
+export async function getAirQualityForecast(
+  lat: string,
+  lon: string,
+  apiKey?: string,
+  standardId?: string,
+  hours = 24
+) {
+  const standard = getAqiStandard(standardId);
+  try {
+    // If API key is passed directly to this function, use it
+    if (apiKey) {
+      setOpenWeatherApiKey(apiKey);
     }
 
-    // Add retry logic for reliability
-    const MAX_RETRIES = 3;
-    let retryCount = 0;
-    let lastError;
+    validateCoordinates(lat, lon);
+    console.log(`Fetching air quality forecast for: ${lat}, ${lon}`);
 
-    while (retryCount < MAX_RETRIES) {
-      try {
-        console.log(
-          `Making components API request (Attempt ${
-            retryCount + 1
-          }/${MAX_RETRIES})`
-        );
+    const { data, provider } = await fetchFromProviders("forecast", (source) =>
+      source.getForecast!(lat, lon)
+    );
 
-        const response = await axios.get(`${BASE_URL}/air_pollution`, {
-          params: {
-            lat,
-            lon,
-            appid: OPENWEATHER_API_KEY,
-          },
-          timeout: 30000, // 30 second timeout
-        });
-
-        // Basic validation
-        if (!response.data || !response.data.list || !response.data.list[0]) {
-          console.error("Invalid data structure returned from OpenWeather API");
-          throw new Error("Invalid response structure from OpenWeather API");
-        }
+    if (data.length === 0) {
+      throw new Error("Invalid forecast data received from provider");
+    }
+    await storeForecast(lat, lon, data, provider);
+
+    // Extract the requested hours (1 data point per hour)
+    const forecast = data.slice(0, hours).map((item) => {
+      // Convert each forecast item to the standard AQI
+      const breakdown = convertToStandardAQI(
+        item.openWeatherAqi,
+        item.components,
+        standard
+      );
+      const standardAqi = breakdown.aqi;
+      const aqiCategory = getAqiCategory(standardAqi, standard.id);
+      return {
+        timestamp: item.timestamp,
+        airQuality: standardAqi, // Use the converted standard AQI
+        openWeatherAqi: item.openWeatherAqi ?? null, // Keep original for reference
+        level: aqiCategory.level,
+        color: aqiCategory.color,
+        dominantPollutant: breakdown.dominantPollutant,
+        subIndices: breakdown.subIndices,
+        components: item.components,
+      };
+    });
 
-        const components = response.data.list[0].components;
+    return {
+      forecast,
+      // Hours the provider offered, which may be more than were returned
+      availableHours: data.length,
+      standard: standard.id,
+      location: { lat, lon },
+      provider,
+    };
+  } catch (error) {
+    console.error("Error in getAirQualityForecast:", error);
+    throw error; // Propagate the error to be handled by the route handler
+  }
+}
+
+/**
+ * Get hourly readings between two unix timestamps (seconds), converted
+ * through the same AQI pipeline as current and forecast data
+ */
+export async function getAirQualityHistory(
+  lat: string,
+  lon: string,
+  start: number,
+  end: number,
+  apiKey?: string,
+  standardId?: string
+) {
+  const standard = getAqiStandard(standardId);
+  try {
+    // If API key is passed directly to this function, use it
+    if (apiKey) {
+      setOpenWeatherApiKey(apiKey);
+    }
+
+    validateCoordinates(lat, lon);
+    console.log(
+      `Fetching air quality history for: ${lat}, ${lon} (${new Date(
+        start * 1000
+      ).toISOString()} - ${new Date(end * 1000).toISOString()})`
+    );
 
+    const {
+      readings: data,
+      provider,
+      source,
+    } = await loadHistoryReadings(lat, lon, start, end);
+
+    const flags = detectAnomalies(data);
+    const history = data
+      .map((item, index) => {
+        const breakdown = standard.calculate(item.components);
+        const aqiCategory = getAqiCategory(breakdown.aqi, standard.id);
         return {
-          co: {
-            value: components.co,
-            unit: "μg/m³",
-            name: "Carbon Monoxide",
-          },
-          no: {
-            value: components.no,
-            unit: "μg/m³",
-            name: "Nitrogen Monoxide",
-          },
-          no2: {
-            value: components.no2,
-            unit: "μg/m³",
-            name: "Nitrogen Dioxide",
-          },
-          o3: { value: components.o3, unit: "μg/m³", name: "Ozone" },
-          so2: {
-            value: components.so2,
-            unit: "μg/m³",
-            name: "Sulphur Dioxide",
-          },
-          pm2_5: {
-            value: components.pm2_5,
-            unit: "μg/m³",
-            name: "Fine Particles",
-          },
-          pm10: {
-            value: components.pm10,
-            unit: "μg/m³",
-            name: "Coarse Particles",
-          },
-          nh3: { value: components.nh3, unit: "μg/m³", name: "Ammonia" },
+          timestamp: item.timestamp,
+          aqi: breakdown.aqi,
+          openWeatherAqi: item.openWeatherAqi ?? null,
+          level: aqiCategory.level,
+          color: aqiCategory.color,
+          dominantPollutant: breakdown.dominantPollutant,
+          subIndices: breakdown.subIndices,
+          components: item.components,
+          flags: flags[index],
         };
-      } catch (error) {
-        lastError = error;
-        retryCount++;
-        console.error(
-          `Components API request failed (Attempt ${retryCount}/${MAX_RETRIES}):`,
-          error
-        );
+      })
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const flagged = history.filter((item) => item.flags.length > 0).length;
+
+    console.log(
+      `Received ${history.length} hourly history readings (${flagged} flagged)`
+    );
+
+    return {
+      history,
+      flagged,
+      standard: standard.id,
+      location: { lat, lon },
+      provider,
+      source,
+    };
+  } catch (error) {
+    console.error("Error in getAirQualityHistory:", error);
+    throw error; // Propagate the error to be handled by the route handler
+  }
+}
+
+/**
+ * Resolution history is served at for a range starting at `start` (unix
+ * seconds): daily once the range reaches past the raw retention window
+ */
+export async function getHistoryResolution(
+  start: number
+): Promise<"hourly" | "daily"> {
+  try {
+    if (!(await getRollupRepository())) return "hourly";
+  } catch (error) {
+    console.error("Failed to open the observation store:", error);
+    return "hourly";
+  }
+  return start * 1000 < getRawRetentionCutoff() ? "daily" : "hourly";
+}
 
-        // Wait before retrying with increasing backoff
-        if (retryCount < MAX_RETRIES) {
-          const delay = retryCount * 1000;
-          console.log(`Retrying in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
+/**
+ * Daily history between two unix timestamps (seconds). Days past the raw
+ * retention window come from stored rollups, falling back to the
+ * providers when the rollups don't cover them; recent days are aggregated
+ * from hourly readings.
+ */
+export async function getDailyAirQualityHistory(
+  lat: string,
+  lon: string,
+  start: number,
+  end: number,
+  apiKey?: string,
+  standardId?: string,
+  percentiles?: number[]
+) {
+  const standard = getAqiStandard(standardId);
+  try {
+    if (apiKey) {
+      setOpenWeatherApiKey(apiKey);
+    }
+    validateCoordinates(lat, lon);
+
+    const cutoff = Math.floor(getRawRetentionCutoff() / 1000);
+    const periods = new Map<number, AggregatedPeriod>();
+    const providers = new Set<string>();
+    let rolledUpDays = 0;
+
+    const aggregateDaily = (readings: ProviderReading[]) =>
+      aggregateReadings(
+        readings.map((reading) => {
+          const breakdown = standard.calculate(reading.components);
+          return {
+            timestamp: reading.timestamp,
+            aqi: breakdown.aqi,
+            dominantPollutant: breakdown.dominantPollutant,
+            components: reading.components,
+          };
+        }),
+        "daily",
+        { standardId: standard.id, percentiles }
+      );
+
+    // Days that have aged out of the raw store
+    if (start < cutoff) {
+      const oldEnd = Math.min(end, cutoff);
+      const repository = await getRollupRepository();
+      const rollups = repository
+        ? await repository.find({
+            locationId: locationIdFor(lat, lon),
+            start: Math.floor(start / 86400) * 86400 * 1000,
+            end: oldEnd * 1000 - 1,
+          })
+        : [];
+      for (const rollup of rollups) {
+        const period = periodFromRollup(rollup, standard.id, percentiles);
+        if (period) periods.set(period.start, period);
+      }
+      rolledUpDays = periods.size;
+
+      const expectedDays = Math.max(1, Math.ceil((oldEnd - start) / 86400));
+      if (rolledUpDays < expectedDays * STORED_HISTORY_MIN_COVERAGE) {
+        const { readings, provider } = await loadHistoryReadings(
+          lat,
+          lon,
+          start,
+          oldEnd
+        );
+        providers.add(provider);
+        for (const period of aggregateDaily(readings)) {
+          if (!periods.has(period.start)) periods.set(period.start, period);
         }
       }
     }
 
-    // If we got here, all retries failed
-    throw lastError || new Error("All API retry attempts failed");
+    // Days still held at hourly resolution
+    if (end > cutoff) {
+      const { readings, provider } = await loadHistoryReadings(
+        lat,
+        lon,
+        Math.max(start, cutoff),
+        end
+      );
+      providers.add(provider);
+      for (const period of aggregateDaily(readings)) {
+        periods.set(period.start, period);
+      }
+    }
+
+    return {
+      periods: Array.from(periods.values()).sort((a, b) => a.start - b.start),
+      standard: standard.id,
+      location: { lat, lon },
+      providers: Array.from(providers),
+      rolledUpDays,
+    };
   } catch (error) {
-    console.error("Error in getAirQualityComponents:", error);
+    console.error("Error in getDailyAirQualityHistory:", error);
     throw error; // Propagate the error to be handled by the route handler
   }
 }
 
-// Add the missing forecast method with retry logic and no fallbacks
-export async function getAirQualityForecast(
+// Particulate pollutants reported with the NowCast weighted average
+const NOWCAST_POLLUTANTS = ["pm2_5", "pm10"] as const;
+
+/**
+ * Calculate the NowCast-based AQI from the last 12 hours of readings.
+ * PM2.5 and PM10 use the EPA NowCast weighted average; the other pollutants
+ * keep their latest hourly value. Pass the current reading to include the
+ * hour that the history endpoint may not have published yet.
+ */
+export async function getNowCastAirQuality(
   lat: string,
   lon: string,
-  apiKey?: string
+  apiKey?: string,
+  standardId?: string,
+  current?: { timestamp: number; components: Record<string, number> }
 ) {
+  const standard = getAqiStandard(standardId);
   try {
     // If API key is passed directly to this function, use it
     if (apiKey) {
-      OPENWEATHER_API_KEY = apiKey;
+      setOpenWeatherApiKey(apiKey);
     }
 
-    // For local development, try process.env as fallback
-    if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
-      OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
-    }
+    console.log(`Fetching NowCast history for: ${lat}, ${lon}`);
 
-    console.log(`Fetching air quality forecast for: ${lat}, ${lon}`);
+    const end = Math.floor((current?.timestamp ?? Date.now()) / 1000);
+    const start = end - 12 * 3600;
+    const { readings: history, provider } = await loadHistoryReadings(
+      lat,
+      lon,
+      start,
+      end
+    );
 
-    if (!OPENWEATHER_API_KEY) {
-      throw new Error(
-        "OpenWeather API key is missing. Check your environment variables."
+    // Index readings by the hour they belong to
+    const readingsByHour = new Map<number, Record<string, number>>();
+    for (const reading of history) {
+      readingsByHour.set(
+        Math.floor(reading.timestamp / 3600000),
+        reading.components
+      );
+    }
+    if (current) {
+      readingsByHour.set(
+        Math.floor(current.timestamp / 3600000),
+        current.components
       );
     }
 
-    // Add retry logic
-    const MAX_RETRIES = 3;
-    let retryCount = 0;
-    let lastError;
+    if (readingsByHour.size === 0) {
+      throw new Error("No recent readings available for NowCast");
+    }
+
+    const latestHour = Math.max(...readingsByHour.keys());
+    const latestComponents = readingsByHour.get(latestHour)!;
+    const hourlyComponents = Array.from(
+      { length: 12 },
+      (_, hoursAgo) => readingsByHour.get(latestHour - hoursAgo) || null
+    );
 
-    while (retryCount < MAX_RETRIES) {
-      try {
-        console.log(
-          `Making forecast API request (Attempt ${
-            retryCount + 1
-          }/${MAX_RETRIES})`
+    const concentrations: Record<string, number> = {};
+    for (const pollutant of NOWCAST_POLLUTANTS) {
+      const nowCast = calculateNowCast(
+        hourlyComponents.map((components) => components?.[pollutant])
+      );
+      if (nowCast === null) {
+        throw new Error(
+          `Not enough recent ${pollutant} readings to calculate NowCast`
         );
+      }
+      concentrations[pollutant] = Math.round(nowCast * 100) / 100;
+    }
 
-        const response = await axios.get(`${BASE_URL}/air_pollution/forecast`, {
-          params: {
-            lat,
-            lon,
-            appid: OPENWEATHER_API_KEY,
-          },
-          timeout: 30000, // 30 second timeout
-        });
-
-        if (
-          !response.data ||
-          !response.data.list ||
-          response.data.list.length === 0
-        ) {
-          throw new Error(
-            "Invalid forecast data received from OpenWeather API"
-          );
-        }
+    const breakdown = standard.calculate({
+      ...latestComponents,
+      ...concentrations,
+    });
+    const aqiCategory = getAqiCategory(breakdown.aqi, standard.id);
 
-        // Extract the next 24 hours (usually 24 data points, 1 per hour)
-        const next24Hours = response.data.list.slice(0, 24).map((item: any) => {
-          // Convert OpenWeather AQI to standard AQI for each forecast item
-          const openWeatherAqi = item.main.aqi;
-          const standardAqi = convertToStandardAQI(
-            openWeatherAqi,
-            item.components
-          );
-          return {
-            timestamp: item.dt * 1000, // Convert to milliseconds
-            airQuality: standardAqi, // Use the converted standard AQI
-            openWeatherAqi: openWeatherAqi, // Keep original for reference
-            level: getAqiCategory(standardAqi).level,
-            color: getAqiColor(standardAqi),
-            components: item.components,
-          };
-        });
+    console.log(
+      `NowCast AQI: ${breakdown.aqi} (PM2.5=${concentrations.pm2_5}, PM10=${concentrations.pm10})`
+    );
 
-        return {
-          forecast: next24Hours,
-          location: { lat, lon },
-        };
-      } catch (error) {
-        lastError = error;
-        retryCount++;
-        console.error(
-          `Forecast API request failed (Attempt ${retryCount}/${MAX_RETRIES}):`,
-          error
-        );
+    return {
+      timestamp: latestHour * 3600000,
+      aqi: breakdown.aqi,
+      level: aqiCategory.level,
+      description: aqiCategory.description,
+      color: aqiCategory.color,
+      standard: standard.id,
+      dominantPollutant: breakdown.dominantPollutant,
+      subIndices: breakdown.subIndices,
+      concentrations,
+      hoursUsed: hourlyComponents.filter(Boolean).length,
+      provider,
+    };
+  } catch (error) {
+    console.error("Error in getNowCastAirQuality:", error);
+    throw error; // Propagate the error to be handled by the route handler
+  }
+}
 
-        // Wait before retrying with increasing backoff
-        if (retryCount < MAX_RETRIES) {
-          const delay = retryCount * 1000;
-          console.log(`Retrying in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-      }
+/**
+ * Compare the last 24 hours of readings (and, with `longTerm`, the past
+ * year) against the WHO 2021 air quality guidelines
+ */
+export async function getWhoGuidelineAssessment(
+  lat: string,
+  lon: string,
+  apiKey?: string,
+  longTerm = false
+) {
+  try {
+    // If API key is passed directly to this function, use it
+    if (apiKey) {
+      setOpenWeatherApiKey(apiKey);
     }
 
-    // If we got here, all retries failed
-    throw lastError || new Error("All API retry attempts failed");
+    validateCoordinates(lat, lon);
+    console.log(
+      `Assessing WHO guidelines for: ${lat}, ${lon}${
+        longTerm ? " (including annual)" : ""
+      }`
+    );
+
+    const end = Math.floor(Date.now() / 1000);
+    const start = end - (longTerm ? 365 * 24 : 24) * 3600;
+    const { readings: data, provider } = await loadHistoryReadings(
+      lat,
+      lon,
+      start,
+      end
+    );
+
+    const assessments = evaluateWhoGuidelines(data, {
+      end: end * 1000,
+      longTerm,
+    });
+
+    return {
+      guidelines: assessments,
+      // Averaging periods where the measured level is above the guideline
+      exceeded: assessments
+        .filter((assessment) => assessment.meetsGuideline === false)
+        .map((assessment) => ({
+          pollutant: assessment.pollutant,
+          averaging: assessment.averaging,
+          exceedanceRatio: assessment.exceedanceRatio,
+          targetMet: assessment.targetMet,
+        })),
+      window: { start: start * 1000, end: end * 1000 },
+      longTerm,
+      source: "WHO global air quality guidelines (2021)",
+      location: { lat, lon },
+      provider,
+    };
   } catch (error) {
-    console.error("Error in getAirQualityForecast:", error);
+    console.error("Error in getWhoGuidelineAssessment:", error);
     throw error; // Propagate the error to be handled by the route handler
   }
 }
@@ -854,4 +955,8 @@ export const airQualityService = {
   getCurrentAirQuality,
   getAirQualityComponents,
   getAirQualityForecast,
+  getNowCastAirQuality,
+  getAirQualityHistory,
+  getDailyAirQualityHistory,
+  getWhoGuidelineAssessment,
 };
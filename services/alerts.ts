@@ -0,0 +1,811 @@
+import axios from "axios";
+import { POLLUTANTS } from "./aqi-calculator";
+import {
+  getAirQualityForecast,
+  getLocationAirQuality,
+  resolveLocation,
+} from "./air-quality-service";
+import {
+  getAqiCategory,
+  resolveAqiStandard,
+  unknownStandardMessage,
+} from "./aqi-standards";
+import { mapWithConcurrency } from "./concurrency";
+import { getAlertRepository } from "./storage";
+import {
+  AlertDelivery,
+  AlertEvent,
+  AlertSource,
+  AlertSubscription,
+} from "./storage/alert-repository";
+import { locationTimeZone, toLocalIso } from "./timezone";
+import { UpstreamError, callUpstream } from "./upstream-client";
+
+// Threshold alerts. Subscribers name a location, a metric (the AQI under a
+// standard, or one pollutant's concentration) and a threshold; each
+// scheduled run compares the current reading, or the peak of the coming
+// forecast hours, with it and posts a signed webhook when the value crosses
+// the threshold and again when it falls back below threshold - hysteresis.
+// A cooldown limits how often one subscription can fire.
+
+export const ALERT_METRICS = ["aqi", ...POLLUTANTS] as const;
+
+// The value a subscription was evaluated against
+export interface AlertReading {
+  value: number;
+  // Reading time, or the forecast hour that crossed (or peaked)
+  observedAt: number; // milliseconds
+  // AQI category of the value, null for pollutant metrics
+  level: string | null;
+}
+
+export type AlertOutcome =
+  | "triggered"
+  | "resolved"
+  | "suppressed" // crossed, but within the cooldown
+  | "unchanged"
+  | "skipped" // the reading was flagged as a sensor fault
+  | "unavailable" // no reading could be fetched
+  | "failed"; // the webhook couldn't be delivered
+
+export interface AlertRun {
+  trigger: string;
+  startedAt: number; // milliseconds
+  finishedAt: number; // milliseconds
+  subscriptions: number;
+  outcomes: Partial<Record<AlertOutcome, number>>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DEFAULT_COOLDOWN_MINUTES = 60;
+// Default hysteresis as a share of the threshold
+const DEFAULT_HYSTERESIS_RATIO = 0.1;
+const DEFAULT_FORECAST_HOURS = 24;
+// About what OpenWeather forecasts
+const MAX_FORECAST_HOURS = 96;
+// Subscriptions evaluated in parallel; each may make an upstream call
+const ALERT_CONCURRENCY = 3;
+const MAX_NAME_LENGTH = 200;
+
+// Webhooks get a few quick retries; a delivery that still fails leaves the
+// subscription's state unchanged, so the next run sends it again
+const WEBHOOK_POLICY = {
+  maxAttempts: 4,
+  deadlineMs: 20000,
+  attemptTimeoutMs: 8000,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+};
+export const SIGNATURE_HEADER = "X-UAQMP-Signature";
+export const TIMESTAMP_HEADER = "X-UAQMP-Timestamp";
+
+let intervalMinutes = DEFAULT_INTERVAL_MINUTES;
+// Hosts (and their subdomains) webhooks may point to; empty allows any public host
+let allowedWebhookHosts: string[] = [];
+let inFlight: Promise<AlertRun> | null = null;
+
+/**
+ * Read the Node server's evaluation interval (ALERT_INTERVAL_MINUTES) and
+ * the webhook host allowlist (ALERT_WEBHOOK_ALLOWED_HOSTS, comma separated)
+ */
+export function configureAlerts(env?: Record<string, unknown>) {
+  if (!env) return;
+  if (typeof env.ALERT_WEBHOOK_ALLOWED_HOSTS === "string") {
+    allowedWebhookHosts = env.ALERT_WEBHOOK_ALLOWED_HOSTS.split(",")
+      .map((host) =>
+        host
+          .trim()
+          .toLowerCase()
+          .replace(/^\*?\./, "")
+      )
+      .filter(Boolean);
+  }
+  const interval = Number(env.ALERT_INTERVAL_MINUTES);
+  if (isFinite(interval) && interval > 0) {
+    intervalMinutes = interval;
+  }
+}
+
+export function getAlertIntervalMs(): number {
+  return intervalMinutes * 60 * 1000;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+function optionalNumber(
+  input: Record<string, unknown>,
+  field: string
+): number | undefined {
+  const value = input[field];
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = Number(value);
+  if (!isFinite(number)) throw new Error(`${field} must be a number`);
+  return number;
+}
+
+// Host names that only resolve inside a network
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".lan"];
+
+/**
+ * Whether an IP literal is loopback, private, link-local, unique-local,
+ * carrier-grade NAT, multicast or unspecified
+ */
+function isPrivateAddress(address: string): boolean {
+  const v4 = address.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  const v6 = address.replace(/^\[|\]$/g, "").toLowerCase();
+  if (!v6.includes(":")) return false;
+  // IPv4-mapped addresses, dotted or as the URL parser writes them (::ffff:7f00:1)
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = v6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateAddress(
+      [high >> 8, high & 255, low >> 8, low & 255].join(".")
+    );
+  }
+  return (
+    v6 === "::" ||
+    v6 === "::1" ||
+    /^f[cd]/.test(v6) ||
+    /^fe[89ab]/.test(v6) ||
+    v6.startsWith("ff")
+  );
+}
+
+function isAllowedHost(hostname: string): boolean {
+  return (
+    allowedWebhookHosts.length === 0 ||
+    allowedWebhookHosts.some(
+      (allowed) => hostname === allowed || hostname.endsWith(`.${allowed}`)
+    )
+  );
+}
+
+/**
+ * Reject webhook URLs that could reach the server's own network: plain
+ * http, IP literals in private ranges, localhost and single-label or
+ * internal host names, and hosts outside ALERT_WEBHOOK_ALLOWED_HOSTS when
+ * it is set
+ */
+function checkWebhookUrl(url: URL) {
+  if (url.protocol !== "https:") {
+    throw new Error("webhookUrl must use https");
+  }
+  if (url.username || url.password) {
+    throw new Error("webhookUrl must not contain credentials");
+  }
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (
+    isPrivateAddress(hostname) ||
+    hostname === "localhost" ||
+    INTERNAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix)) ||
+    (!hostname.includes(".") && !hostname.includes(":"))
+  ) {
+    throw new Error("webhookUrl must point to a public host");
+  }
+  if (!isAllowedHost(hostname)) {
+    throw new Error("webhookUrl host is not in the allowed webhook hosts");
+  }
+}
+
+function parseWebhookUrl(value: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new Error("webhookUrl must be an absolute URL");
+  }
+  checkWebhookUrl(url);
+  return url.toString();
+}
+
+/**
+ * Agent for a webhook delivery. The URL is checked again (it may predate the
+ * current rules), and the agent checks every address the host resolves to
+ * as it connects, so a public name pointing at a private address is refused,
+ * even one that changes between two lookups (DNS rebinding). Workers have no
+ * resolver to ask and can't reach private networks anyway; there only the
+ * URL is checked and no agent is used.
+ */
+async function webhookAgent(webhookUrl: string) {
+  checkWebhookUrl(new URL(webhookUrl));
+
+  let https: typeof import("node:https");
+  let dns: typeof import("node:dns");
+  try {
+    [https, dns] = await Promise.all([
+      import("node:https"),
+      import("node:dns"),
+    ]);
+  } catch {
+    return undefined;
+  }
+  return new https.Agent({
+    lookup: (hostname, options, callback) => {
+      dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, []);
+        if (addresses.some(({ address }) => isPrivateAddress(address))) {
+          return callback(
+            new Error(`${hostname} resolves to a private address`),
+            []
+          );
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+      });
+    },
+  });
+}
+
+/**
+ * Threshold as a number, or for the AQI the name of a category of the
+ * standard ("Unhealthy"), which stands for the category's lower bound
+ */
+function parseThreshold(
+  value: unknown,
+  metric: string,
+  standardId: string
+): number {
+  if (typeof value === "string" && isNaN(Number(value))) {
+    if (metric !== "aqi") {
+      throw new Error("Category thresholds only apply to the aqi metric");
+    }
+    const category = resolveAqiStandard(standardId)!.categories.find(
+      (candidate) =>
+        candidate.level.toLowerCase() === value.trim().toLowerCase()
+    );
+    if (!category) {
+      throw new Error(`Unknown ${standardId} category: ${value}`);
+    }
+    return category.min;
+  }
+  const threshold = Number(value);
+  if (value === null || value === "" || !isFinite(threshold)) {
+    throw new Error("threshold must be a number or an AQI category name");
+  }
+  if (threshold <= 0) throw new Error("threshold must be positive");
+  return threshold;
+}
+
+/**
+ * Validate a subscription body (JSON) into a subscription, applying it on
+ * top of `existing` for updates. Throws with a message for the caller.
+ * Changing what is watched resets the alert's state.
+ */
+export function parseSubscription(
+  input: Record<string, unknown>,
+  existing?: AlertSubscription,
+  now = Date.now()
+): AlertSubscription {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("Request body must be a JSON object");
+  }
+  const has = (field: string) =>
+    input[field] !== undefined && input[field] !== null;
+
+  let location = existing && {
+    lat: String(existing.lat),
+    lon: String(existing.lon),
+    locationId: existing.locationId,
+  };
+  if (has("locationId") || has("lat") || has("lon")) {
+    if (has("locationId")) {
+      location = resolveLocation({ locationId: String(input.locationId) });
+    } else {
+      const lat = optionalNumber(input, "lat");
+      const lon = optionalNumber(input, "lon");
+      if (
+        lat === undefined ||
+        lon === undefined ||
+        Math.abs(lat) > 90 ||
+        Math.abs(lon) > 180
+      ) {
+        throw new Error("lat and lon must be valid coordinates");
+      }
+      location = resolveLocation({ lat: String(lat), lon: String(lon) });
+    }
+  }
+  if (!location) throw new Error("lat and lon (or locationId) are required");
+
+  const metric = has("metric")
+    ? String(input.metric).toLowerCase()
+    : (existing?.metric ?? "aqi");
+  if (!(ALERT_METRICS as readonly string[]).includes(metric)) {
+    throw new Error(
+      `Unknown metric: ${metric}. Supported metrics: ${ALERT_METRICS.join(
+        ", "
+      )}`
+    );
+  }
+
+  const standard = has("standard")
+    ? resolveAqiStandard(String(input.standard))
+    : resolveAqiStandard(existing?.standard);
+  if (!standard) {
+    throw new Error(unknownStandardMessage(String(input.standard)));
+  }
+
+  if (!has("threshold") && !existing) throw new Error("threshold is required");
+  const threshold = has("threshold")
+    ? parseThreshold(input.threshold, metric, standard.id)
+    : existing!.threshold;
+
+  const hysteresis =
+    optionalNumber(input, "hysteresis") ??
+    (existing && !has("threshold")
+      ? existing.hysteresis
+      : Math.round(threshold * DEFAULT_HYSTERESIS_RATIO * 10) / 10);
+  if (hysteresis < 0 || hysteresis >= threshold) {
+    throw new Error("hysteresis must be at least 0 and below the threshold");
+  }
+
+  const cooldownMinutes =
+    optionalNumber(input, "cooldownMinutes") ??
+    existing?.cooldownMinutes ??
+    DEFAULT_COOLDOWN_MINUTES;
+  if (cooldownMinutes < 0) {
+    throw new Error("cooldownMinutes must be at least 0");
+  }
+
+  const source = (
+    has("source") ? String(input.source) : (existing?.source ?? "current")
+  ) as AlertSource;
+  if (source !== "current" && source !== "forecast") {
+    throw new Error("source must be current or forecast");
+  }
+  const forecastHours =
+    optionalNumber(input, "forecastHours") ??
+    existing?.forecastHours ??
+    DEFAULT_FORECAST_HOURS;
+  if (
+    !Number.isInteger(forecastHours) ||
+    forecastHours < 1 ||
+    forecastHours > MAX_FORECAST_HOURS
+  ) {
+    throw new Error(
+      `forecastHours must be a whole number from 1 to ${MAX_FORECAST_HOURS}`
+    );
+  }
+
+  if (!has("webhookUrl") && !existing)
+    throw new Error("webhookUrl is required");
+  const webhookUrl = has("webhookUrl")
+    ? parseWebhookUrl(input.webhookUrl)
+    : existing!.webhookUrl;
+
+  let secret = existing?.secret ?? randomHex(32);
+  if (has("secret")) {
+    secret = String(input.secret);
+    if (secret.length < 16) {
+      throw new Error("secret must be at least 16 characters");
+    }
+  }
+
+  const defaultName = `${metric} ≥ ${threshold} at ${location.lat}, ${location.lon}`;
+  const name = has("name")
+    ? String(input.name).trim()
+    : (existing?.name ?? defaultName);
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`name must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const enabled = has("enabled")
+    ? input.enabled === true || input.enabled === "true"
+    : (existing?.enabled ?? true);
+
+  const watched = {
+    locationId: location.locationId,
+    metric,
+    standard: standard.id,
+    threshold,
+    source,
+    forecastHours,
+  };
+  const changed =
+    !existing ||
+    Object.entries(watched).some(
+      ([field, value]) => existing[field as keyof typeof watched] !== value
+    );
+
+  return {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    lat: Number(location.lat),
+    lon: Number(location.lon),
+    ...watched,
+    hysteresis,
+    cooldownMinutes,
+    webhookUrl,
+    secret,
+    enabled,
+    state: changed ? "clear" : existing!.state,
+    lastValue: changed ? null : existing!.lastValue,
+    lastEvaluatedAt: changed ? null : existing!.lastEvaluatedAt,
+    lastNotifiedAt: existing?.lastNotifiedAt ?? null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * A subscription as returned by the API, without its signing secret
+ */
+export function publicSubscription(subscription: AlertSubscription) {
+  const { secret, ...rest } = subscription;
+  return rest;
+}
+
+function levelOf(subscription: AlertSubscription, value: number) {
+  return subscription.metric === "aqi"
+    ? getAqiCategory(value, subscription.standard).level
+    : null;
+}
+
+// Upstream reads shared by the subscriptions of one run, per location and
+// standard
+interface ReadingCache {
+  current: Map<string, ReturnType<typeof getLocationAirQuality>>;
+  forecast: Map<string, ReturnType<typeof getAirQualityForecast>>;
+}
+
+function createReadingCache(): ReadingCache {
+  return { current: new Map(), forecast: new Map() };
+}
+
+/**
+ * Read a subscription's metric. Null when the reading was flagged as a
+ * sensor fault for that metric. `cache` shares upstream calls between
+ * subscriptions of one run.
+ */
+async function readMetric(
+  subscription: AlertSubscription,
+  cache: ReadingCache,
+  now: number
+): Promise<AlertReading | null> {
+  const lat = String(subscription.lat);
+  const lon = String(subscription.lon);
+  const key = `${subscription.locationId}:${subscription.standard}`;
+  const valueOf = (item: {
+    aqi: number;
+    components: Record<string, number>;
+  }) =>
+    subscription.metric === "aqi"
+      ? item.aqi
+      : item.components[subscription.metric];
+
+  if (subscription.source === "current") {
+    if (!cache.current.has(key)) {
+      cache.current.set(
+        key,
+        getLocationAirQuality({ lat, lon }, subscription.standard)
+      );
+    }
+    const snapshot = await cache.current.get(key)!;
+    const faulty = snapshot.flags.some(
+      (flag) =>
+        flag.severity === "fault" &&
+        (subscription.metric === "aqi" ||
+          flag.pollutants.includes(subscription.metric))
+    );
+    const value = valueOf(snapshot);
+    if (faulty || typeof value !== "number") return null;
+    return {
+      value,
+      observedAt: snapshot.timestamp,
+      level: levelOf(subscription, value),
+    };
+  }
+
+  if (!cache.forecast.has(key)) {
+    cache.forecast.set(
+      key,
+      getAirQualityForecast(
+        lat,
+        lon,
+        undefined,
+        subscription.standard,
+        MAX_FORECAST_HOURS
+      )
+    );
+  }
+  const { forecast } = await cache.forecast.get(key)!;
+  const until = now + subscription.forecastHours * HOUR_MS;
+  const hours = forecast
+    .filter((item) => item.timestamp >= now - HOUR_MS && item.timestamp < until)
+    .map((item) => ({
+      timestamp: item.timestamp,
+      value: valueOf({ aqi: item.airQuality, components: item.components }),
+    }))
+    .filter((item) => typeof item.value === "number");
+  if (hours.length === 0) return null;
+
+  // The first hour at or above the threshold, otherwise the peak
+  const crossing =
+    hours.find((item) => item.value >= subscription.threshold) ??
+    hours.reduce((peak, item) => (item.value > peak.value ? item : peak));
+  const value = Math.max(...hours.map((item) => item.value));
+  return {
+    value,
+    observedAt: crossing.timestamp,
+    level: levelOf(subscription, value),
+  };
+}
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}` with the subscription's secret, hex
+ * encoded. Receivers recompute it to check the payload came from us.
+ */
+export async function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`)
+  );
+  return Array.from(new Uint8Array(signature), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Post a signed event to the subscription's webhook with retries, and log
+ * the delivery. Never throws; the returned delivery says how it went.
+ */
+async function deliver(
+  subscription: AlertSubscription,
+  event: AlertEvent,
+  reading: AlertReading | null,
+  now: number
+): Promise<AlertDelivery> {
+  const deliveryId = crypto.randomUUID();
+  const zone = locationTimeZone(subscription.lat, subscription.lon);
+  const payload = {
+    id: deliveryId,
+    event,
+    timestamp: now,
+    subscription: { id: subscription.id, name: subscription.name },
+    location: {
+      lat: subscription.lat,
+      lon: subscription.lon,
+      locationId: subscription.locationId,
+    },
+    metric: subscription.metric,
+    standard: subscription.standard,
+    threshold: subscription.threshold,
+    hysteresis: subscription.hysteresis,
+    source: subscription.source,
+    forecastHours:
+      subscription.source === "forecast" ? subscription.forecastHours : null,
+    value: reading?.value ?? null,
+    level: reading?.level ?? null,
+    observedAt: reading?.observedAt ?? null,
+    localTime: reading ? toLocalIso(reading.observedAt, zone) : null,
+  };
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(now / 1000);
+  const signature = await signPayload(subscription.secret, timestamp, body);
+
+  let attempts = 0;
+  const delivery: AlertDelivery = {
+    deliveryId,
+    subscriptionId: subscription.id,
+    event,
+    status: "delivered",
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    payload,
+    createdAt: now,
+  };
+  try {
+    const httpsAgent = await webhookAgent(subscription.webhookUrl);
+    const response = await callUpstream(
+      new URL(subscription.webhookUrl).host,
+      (timeoutMs) => {
+        attempts++;
+        return axios.post(subscription.webhookUrl, body, {
+          timeout: timeoutMs,
+          responseType: "text",
+          // A redirect could lead anywhere, including the private network
+          maxRedirects: 0,
+          // Connect through the checking agent, never a proxy from the env
+          httpsAgent,
+          proxy: false,
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "UAQMP-Alerts/1.0",
+            "X-UAQMP-Event": event,
+            "X-UAQMP-Delivery": deliveryId,
+            [TIMESTAMP_HEADER]: String(timestamp),
+            [SIGNATURE_HEADER]: `sha256=${signature}`,
+          },
+        });
+      },
+      { ...WEBHOOK_POLICY, name: `Webhook for alert ${subscription.id}` }
+    );
+    delivery.responseStatus = response.status;
+  } catch (error) {
+    delivery.status = "failed";
+    delivery.responseStatus =
+      error instanceof UpstreamError ? (error.status ?? null) : null;
+    delivery.error = error instanceof Error ? error.message : String(error);
+  }
+  delivery.attempts = attempts;
+
+  try {
+    const repository = await getAlertRepository();
+    await repository?.recordDelivery(delivery);
+  } catch (error) {
+    console.error("Failed to record alert delivery:", error);
+  }
+  return delivery;
+}
+
+async function evaluateSubscription(
+  subscription: AlertSubscription,
+  cache: ReadingCache,
+  now: number
+): Promise<AlertOutcome> {
+  let reading: AlertReading | null;
+  try {
+    reading = await readMetric(subscription, cache, now);
+  } catch (error) {
+    console.error(
+      `Alert ${subscription.id}: no ${subscription.source} reading:`,
+      error instanceof Error ? error.message : error
+    );
+    return "unavailable";
+  }
+  if (!reading) return "skipped";
+
+  let outcome: AlertOutcome = "unchanged";
+  let { state, lastNotifiedAt } = subscription;
+  const cooldownMs = subscription.cooldownMinutes * 60 * 1000;
+
+  let event: AlertEvent | null = null;
+  if (state === "clear" && reading.value >= subscription.threshold) {
+    // Stays clear in the cooldown, so it fires once the cooldown is over
+    if (lastNotifiedAt !== null && now - lastNotifiedAt < cooldownMs) {
+      outcome = "suppressed";
+    } else {
+      event = "alert.triggered";
+    }
+  } else if (
+    state === "triggered" &&
+    reading.value < subscription.threshold - subscription.hysteresis
+  ) {
+    event = "alert.resolved";
+  }
+
+  if (event) {
+    const delivery = await deliver(subscription, event, reading, now);
+    if (delivery.status === "delivered") {
+      outcome = event === "alert.triggered" ? "triggered" : "resolved";
+      state = event === "alert.triggered" ? "triggered" : "clear";
+      if (event === "alert.triggered") lastNotifiedAt = now;
+    } else {
+      outcome = "failed";
+    }
+  }
+
+  // A webhook already sent is still reported as sent; the failure is logged
+  // because the next run may notify again without the saved state
+  try {
+    const repository = await getAlertRepository();
+    await repository?.updateState(subscription.id, {
+      state,
+      lastValue: reading.value,
+      lastEvaluatedAt: now,
+      lastNotifiedAt,
+    });
+  } catch (error) {
+    console.error(
+      `Alert ${subscription.id}: failed to save state after ${outcome}:`,
+      error
+    );
+  }
+  return outcome;
+}
+
+/**
+ * Evaluate every enabled subscription once. A run that starts while another
+ * is in progress in this process joins it instead of notifying twice.
+ */
+export function runAlertEvaluation(trigger: string): Promise<AlertRun> {
+  if (inFlight) return inFlight;
+
+  inFlight = (async () => {
+    const startedAt = Date.now();
+    const repository = await getAlertRepository();
+    const subscriptions = repository
+      ? await repository.list({ enabled: true })
+      : [];
+
+    const cache = createReadingCache();
+    const results = await mapWithConcurrency(
+      subscriptions,
+      ALERT_CONCURRENCY,
+      (subscription) => evaluateSubscription(subscription, cache, startedAt)
+    );
+
+    const outcomes: Partial<Record<AlertOutcome, number>> = {};
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error(
+          `Alert ${subscriptions[index].id} evaluation failed:`,
+          result.reason
+        );
+      }
+      const outcome = result.status === "fulfilled" ? result.value : "failed";
+      outcomes[outcome] = (outcomes[outcome] ?? 0) + 1;
+    });
+
+    const run: AlertRun = {
+      trigger,
+      startedAt,
+      finishedAt: Date.now(),
+      subscriptions: subscriptions.length,
+      outcomes,
+    };
+    if (subscriptions.length > 0) {
+      console.log(
+        `Alert run (${trigger}) for ${subscriptions.length} subscriptions:`,
+        JSON.stringify(outcomes)
+      );
+    }
+    return run;
+  })().finally(() => {
+    inFlight = null;
+  });
+
+  return inFlight;
+}
+
+/**
+ * Send an `alert.test` event with the current value of the subscription's
+ * metric (null if it can't be read), without changing its state
+ */
+export async function sendTestAlert(
+  subscription: AlertSubscription,
+  now = Date.now()
+): Promise<AlertDelivery> {
+  let reading: AlertReading | null = null;
+  try {
+    reading = await readMetric(subscription, createReadingCache(), now);
+  } catch (error) {
+    console.error(`Alert ${subscription.id}: no reading for the test:`, error);
+  }
+  return deliver(subscription, "alert.test", reading, now);
+}
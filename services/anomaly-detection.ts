@@ -0,0 +1,282 @@
+import { median } from "./statistics";
+
+// Screening of observation streams for sensor faults and suspect readings.
+// Rules catch readings that can't be physically right on their own (PM10
+// below PM2.5, negative or impossible concentrations); the series checks
+// catch readings that are implausible for the location at that time: a
+// tenfold jump or drop against the neighbouring hours, or a robust z-score
+// far out on what's left after the usual daily cycle. Flags are advisory:
+// readings are still returned, but kept out of model training.
+
+export type AnomalyCheck = "range" | "consistency" | "spike" | "outlier";
+
+export interface AnomalyFlag {
+  check: AnomalyCheck;
+  // "fault" for readings that can't be right, "suspect" for unlikely ones
+  severity: "fault" | "suspect";
+  pollutants: string[];
+  detail: string;
+}
+
+export interface ScreenableReading {
+  timestamp: number; // milliseconds
+  components: Record<string, number>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Highest concentrations (μg/m³) a working monitor plausibly reports
+const PHYSICAL_LIMITS: Record<string, number> = {
+  pm2_5: 2000,
+  pm10: 5000,
+  o3: 1000,
+  no2: 2000,
+  no: 5000,
+  so2: 5000,
+  co: 100000,
+  nh3: 5000,
+};
+// PM2.5 is part of PM10; allow for the two being measured separately
+const PM_TOLERANCE_RATIO = 1.1;
+const PM_TOLERANCE_ABSOLUTE = 2;
+
+// Ratio to the neighbouring hours' median that counts as a spike or drop
+const SPIKE_RATIO = 10;
+const SPIKE_WINDOW_MS = 3 * HOUR_MS;
+const MIN_SPIKE_NEIGHBOURS = 2;
+// Added to both sides of the ratio so noise around zero isn't a spike
+const NOISE_FLOOR: Record<string, number> = { co: 100 };
+const DEFAULT_NOISE_FLOOR = 5;
+
+// Robust z-score (on the log scale, after the daily cycle) beyond which a
+// reading is an outlier, and the readings needed to estimate it
+const OUTLIER_Z = 5;
+const MIN_OUTLIER_READINGS = 48;
+// Readings per hour of day needed to take out the daily cycle
+const MIN_READINGS_PER_HOUR = 3;
+
+function round(value: number, decimals = 1): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Rules a single reading must satisfy regardless of its history
+ */
+export function checkReading(
+  components: Record<string, number>
+): AnomalyFlag[] {
+  const flags: AnomalyFlag[] = [];
+  const entries = Object.entries(components).filter(([, value]) =>
+    isNumber(value)
+  );
+
+  for (const [pollutant, value] of entries) {
+    if (value < 0) {
+      flags.push({
+        check: "range",
+        severity: "fault",
+        pollutants: [pollutant],
+        detail: `${pollutant} is negative (${value} μg/m³)`,
+      });
+    } else if (
+      PHYSICAL_LIMITS[pollutant] !== undefined &&
+      value > PHYSICAL_LIMITS[pollutant]
+    ) {
+      flags.push({
+        check: "range",
+        severity: "fault",
+        pollutants: [pollutant],
+        detail: `${pollutant} is above ${PHYSICAL_LIMITS[pollutant]} μg/m³ (${value} μg/m³)`,
+      });
+    }
+  }
+
+  if (entries.length > 1 && entries.every(([, value]) => value === 0)) {
+    flags.push({
+      check: "range",
+      severity: "fault",
+      pollutants: entries.map(([pollutant]) => pollutant),
+      detail: "every component is zero",
+    });
+  }
+
+  const { pm2_5: fine, pm10: coarse } = components;
+  if (
+    isNumber(fine) &&
+    isNumber(coarse) &&
+    fine > coarse * PM_TOLERANCE_RATIO + PM_TOLERANCE_ABSOLUTE
+  ) {
+    flags.push({
+      check: "consistency",
+      severity: "fault",
+      pollutants: ["pm2_5", "pm10"],
+      detail: `PM10 (${round(coarse)} μg/m³) is below PM2.5 (${round(
+        fine
+      )} μg/m³)`,
+    });
+  }
+  return flags;
+}
+
+/**
+ * Tenfold jumps or drops against the median of the hours on either side
+ */
+function spikeFlags(readings: ScreenableReading[]): AnomalyFlag[][] {
+  return readings.map((reading, index) => {
+    const neighbours: ScreenableReading[] = [];
+    for (const step of [-1, 1]) {
+      for (
+        let other = index + step;
+        other >= 0 &&
+        other < readings.length &&
+        Math.abs(readings[other].timestamp - reading.timestamp) <=
+          SPIKE_WINDOW_MS;
+        other += step
+      ) {
+        neighbours.push(readings[other]);
+      }
+    }
+    if (neighbours.length < MIN_SPIKE_NEIGHBOURS) return [];
+
+    const flags: AnomalyFlag[] = [];
+    for (const [pollutant, value] of Object.entries(reading.components)) {
+      if (!isNumber(value)) continue;
+      const around = neighbours
+        .map((neighbour) => neighbour.components[pollutant])
+        .filter(isNumber);
+      if (around.length < MIN_SPIKE_NEIGHBOURS) continue;
+
+      const baseline = median(around);
+      const floor = NOISE_FLOOR[pollutant] ?? DEFAULT_NOISE_FLOOR;
+      const ratio = (value + floor) / (Math.max(0, baseline) + floor);
+      if (ratio >= SPIKE_RATIO || ratio <= 1 / SPIKE_RATIO) {
+        flags.push({
+          check: "spike",
+          severity: "suspect",
+          pollutants: [pollutant],
+          detail: `${pollutant} ${ratio > 1 ? "jumped" : "dropped"} to ${round(
+            value
+          )} μg/m³ from around ${round(baseline)} μg/m³`,
+        });
+      }
+    }
+    return flags;
+  });
+}
+
+/**
+ * Robust z-scores of each pollutant on the log scale after removing the
+ * median for the hour of day. UTC hours group readings the same way local
+ * hours would.
+ */
+function outlierFlags(readings: ScreenableReading[]): AnomalyFlag[][] {
+  const flags: AnomalyFlag[][] = readings.map(() => []);
+  if (readings.length < MIN_OUTLIER_READINGS) return flags;
+
+  const pollutants = new Set(
+    readings.flatMap((reading) => Object.keys(reading.components))
+  );
+  for (const pollutant of pollutants) {
+    const points = readings.flatMap((reading, index) => {
+      const value = reading.components[pollutant];
+      return isNumber(value) && value >= 0
+        ? [
+            {
+              index,
+              hour: new Date(reading.timestamp).getUTCHours(),
+              log: Math.log1p(value),
+              value,
+            },
+          ]
+        : [];
+    });
+    if (points.length < MIN_OUTLIER_READINGS) continue;
+
+    const byHour = new Map<number, number[]>();
+    for (const point of points) {
+      if (!byHour.has(point.hour)) byHour.set(point.hour, []);
+      byHour.get(point.hour)!.push(point.log);
+    }
+    const overall = median(points.map((point) => point.log));
+    const hourly = new Map<number, number>();
+    for (const [hour, logs] of byHour) {
+      hourly.set(
+        hour,
+        logs.length >= MIN_READINGS_PER_HOUR ? median(logs) : overall
+      );
+    }
+
+    const residuals = points.map(
+      (point) => point.log - hourly.get(point.hour)!
+    );
+    const centre = median(residuals);
+    const mad = median(
+      residuals.map((residual) => Math.abs(residual - centre))
+    );
+    if (mad === 0) continue;
+
+    points.forEach((point, i) => {
+      const z = (0.6745 * (residuals[i] - centre)) / mad;
+      if (Math.abs(z) > OUTLIER_Z) {
+        flags[point.index].push({
+          check: "outlier",
+          severity: "suspect",
+          pollutants: [pollutant],
+          detail: `${pollutant} of ${round(point.value)} μg/m³ is unusually ${
+            z > 0 ? "high" : "low"
+          } for the hour (robust z-score ${round(z)})`,
+        });
+      }
+    });
+  }
+  return flags;
+}
+
+/**
+ * Flags for each reading of a series, in the order given. Readings are
+ * compared with the others in the series, so pass enough history around
+ * the readings of interest.
+ */
+export function detectAnomalies(
+  readings: ScreenableReading[]
+): AnomalyFlag[][] {
+  const order = readings
+    .map((reading, index) => ({ reading, index }))
+    .sort((a, b) => a.reading.timestamp - b.reading.timestamp);
+  const sorted = order.map(({ reading }) => reading);
+  const spikes = spikeFlags(sorted);
+  const outliers = outlierFlags(sorted);
+
+  const flags: AnomalyFlag[][] = readings.map(() => []);
+  order.forEach(({ reading, index }, position) => {
+    flags[index] = [
+      ...checkReading(reading.components),
+      ...spikes[position],
+      ...outliers[position],
+    ];
+  });
+  return flags;
+}
+
+/**
+ * Flags for one reading given the readings before it. The earlier readings
+ * are reduced to one per hour, and the reading's own hour is left out.
+ */
+export function screenReading(
+  reading: ScreenableReading,
+  earlier: ScreenableReading[]
+): AnomalyFlag[] {
+  const ownHour = Math.floor(reading.timestamp / HOUR_MS);
+  const byHour = new Map<number, ScreenableReading>();
+  for (const other of earlier) {
+    const hour = Math.floor(other.timestamp / HOUR_MS);
+    if (hour < ownHour && !byHour.has(hour)) byHour.set(hour, other);
+  }
+  const series = [...byHour.values(), reading];
+  return detectAnomalies(series)[series.length - 1];
+}
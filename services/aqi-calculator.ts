@@ -0,0 +1,424 @@
+// Breakpoint-based AQI calculation shared by every air quality endpoint.
+//
+// OpenWeather reports all pollutant concentrations in μg/m³ as hourly values.
+// The official AQI tables use different units (ppb/ppm for gases) and
+// averaging periods, so each pollutant is converted and scored against the
+// table for its averaging basis. Hourly values are used as the best available
+// surrogate for the longer averaging periods.
+
+export type Pollutant = "pm2_5" | "pm10" | "o3" | "no2" | "so2" | "co" | "nh3";
+
+export type ConcentrationUnit = "μg/m³" | "mg/m³" | "ppb" | "ppm";
+
+export interface Breakpoint {
+  cLow: number;
+  cHigh: number;
+  iLow: number;
+  iHigh: number;
+}
+
+export interface BreakpointTable {
+  averaging: string;
+  unit: ConcentrationUnit;
+  // Number of decimals the concentration is truncated to before lookup
+  decimals: number;
+  // Lowest concentration for which this table is used (defaults to the first breakpoint)
+  appliesFrom?: number;
+  // Continue the last band's slope instead of capping (open-ended scales)
+  extrapolate?: boolean;
+  breakpoints: Breakpoint[];
+}
+
+export interface PollutantSubIndex {
+  aqi: number;
+  concentration: number;
+  unit: ConcentrationUnit;
+  averaging: string;
+}
+
+export interface AqiBreakdown {
+  aqi: number;
+  dominantPollutant: Pollutant | null;
+  subIndices: Partial<Record<Pollutant, PollutantSubIndex>>;
+}
+
+export const POLLUTANTS: Pollutant[] = [
+  "pm2_5",
+  "pm10",
+  "o3",
+  "no2",
+  "so2",
+  "co",
+  "nh3",
+];
+
+// Pollutants that can be converted between units. NO has no AQI table but
+// is reported (and imported) in volumetric units too.
+export type ConvertiblePollutant = Pollutant | "no";
+
+// Molecular weights (g/mol) used to convert μg/m³ to volumetric units
+const MOLECULAR_WEIGHTS: Partial<Record<ConvertiblePollutant, number>> = {
+  no: 30.01,
+  o3: 48.0,
+  no2: 46.01,
+  so2: 64.07,
+  co: 28.01,
+  nh3: 17.03,
+};
+
+// Molar volume of an ideal gas at 25°C and 1 atm (litres)
+const MOLAR_VOLUME = 24.45;
+
+/**
+ * Convert a concentration reported in μg/m³ to the unit used by a breakpoint table
+ */
+export function convertConcentration(
+  valueUgm3: number,
+  pollutant: ConvertiblePollutant,
+  unit: ConcentrationUnit
+): number {
+  switch (unit) {
+    case "μg/m³":
+      return valueUgm3;
+    case "mg/m³":
+      return valueUgm3 / 1000;
+    case "ppb":
+    case "ppm": {
+      const weight = MOLECULAR_WEIGHTS[pollutant];
+      if (!weight) {
+        throw new Error(`Cannot convert ${pollutant} to ${unit}`);
+      }
+      const ppb = (valueUgm3 * MOLAR_VOLUME) / weight;
+      return unit === "ppb" ? ppb : ppb / 1000;
+    }
+  }
+}
+
+/**
+ * Convert a concentration in the given unit back to μg/m³
+ */
+export function toMicrogramsPerCubicMetre(
+  value: number,
+  pollutant: ConvertiblePollutant,
+  unit: ConcentrationUnit
+): number {
+  return value / convertConcentration(1, pollutant, unit);
+}
+
+function truncate(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  // Guard against floating point noise such as 9.0999999 -> 9.0
+  return Math.floor(value * factor + 1e-9) / factor;
+}
+
+// Linear interpolation inside a breakpoint band (EPA equation 1)
+function interpolate(value: number, band: Breakpoint): number {
+  return (
+    ((band.iHigh - band.iLow) / (band.cHigh - band.cLow)) *
+      (value - band.cLow) +
+    band.iLow
+  );
+}
+
+/**
+ * Score a concentration against a single breakpoint table.
+ * Values above the last breakpoint are capped at the top of the scale
+ * unless the table is open-ended.
+ */
+export function computeSubIndex(table: BreakpointTable, value: number): number {
+  const concentration = truncate(value, table.decimals);
+  const bands = table.breakpoints;
+
+  for (const band of bands) {
+    if (concentration <= band.cHigh) {
+      return interpolate(Math.max(concentration, band.cLow), band);
+    }
+  }
+
+  const lastBand = bands[bands.length - 1];
+  return table.extrapolate
+    ? interpolate(concentration, lastBand)
+    : lastBand.iHigh;
+}
+
+/**
+ * Pick the table(s) that apply to a concentration and return the highest
+ * resulting sub-index. Concentrations beyond every table use the one with the
+ * widest range, which caps them at the top of the scale.
+ */
+export function scorePollutant(
+  tables: BreakpointTable[],
+  pollutant: Pollutant,
+  valueUgm3: number
+): PollutantSubIndex | null {
+  let best: PollutantSubIndex | null = null;
+  if (tables.length === 0) return best;
+
+  const candidates = tables.filter((table) => {
+    const value = convertConcentration(valueUgm3, pollutant, table.unit);
+    const from = table.appliesFrom ?? table.breakpoints[0].cLow;
+    const to = table.breakpoints[table.breakpoints.length - 1].cHigh;
+    return (
+      value >= from &&
+      (table.extrapolate || truncate(value, table.decimals) <= to)
+    );
+  });
+
+  if (candidates.length === 0) {
+    const topOf = (table: BreakpointTable) =>
+      toMicrogramsPerCubicMetre(
+        table.breakpoints[table.breakpoints.length - 1].cHigh,
+        pollutant,
+        table.unit
+      );
+    candidates.push(
+      tables.reduce((widest, table) =>
+        topOf(table) > topOf(widest) ? table : widest
+      )
+    );
+  }
+
+  for (const table of candidates) {
+    const concentration = convertConcentration(
+      valueUgm3,
+      pollutant,
+      table.unit
+    );
+    const aqi = computeSubIndex(table, concentration);
+    if (!best || aqi > best.aqi) {
+      best = {
+        aqi,
+        concentration: truncate(concentration, table.decimals),
+        unit: table.unit,
+        averaging: table.averaging,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score every available pollutant and combine them into a single index.
+ * The overall index is the highest sub-index (the dominant pollutant).
+ */
+export function calculateBreakpointAqi(
+  tables: Partial<Record<Pollutant, BreakpointTable[]>>,
+  components: Record<string, number | undefined>
+): AqiBreakdown {
+  const subIndices: Partial<Record<Pollutant, PollutantSubIndex>> = {};
+  let dominantPollutant: Pollutant | null = null;
+  let maxAqi = 0;
+
+  for (const pollutant of POLLUTANTS) {
+    const pollutantTables = tables[pollutant];
+    const value = components[pollutant];
+    if (!pollutantTables || typeof value !== "number" || isNaN(value)) {
+      continue;
+    }
+
+    const subIndex = scorePollutant(
+      pollutantTables,
+      pollutant,
+      Math.max(0, value)
+    );
+    if (!subIndex) continue;
+
+    subIndex.aqi = Math.round(subIndex.aqi);
+    subIndices[pollutant] = subIndex;
+
+    if (dominantPollutant === null || subIndex.aqi > maxAqi) {
+      maxAqi = subIndex.aqi;
+      dominantPollutant = pollutant;
+    }
+  }
+
+  return { aqi: maxAqi, dominantPollutant, subIndices };
+}
+
+// US EPA AQI breakpoints (40 CFR Part 58 Appendix G, PM2.5 revised May 2024)
+export const US_EPA_BREAKPOINTS: Partial<Record<Pollutant, BreakpointTable[]>> =
+  {
+    pm2_5: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 1,
+        breakpoints: [
+          { cLow: 0.0, cHigh: 9.0, iLow: 0, iHigh: 50 },
+          { cLow: 9.1, cHigh: 35.4, iLow: 51, iHigh: 100 },
+          { cLow: 35.5, cHigh: 55.4, iLow: 101, iHigh: 150 },
+          { cLow: 55.5, cHigh: 125.4, iLow: 151, iHigh: 200 },
+          { cLow: 125.5, cHigh: 225.4, iLow: 201, iHigh: 300 },
+          { cLow: 225.5, cHigh: 325.4, iLow: 301, iHigh: 500 },
+        ],
+      },
+    ],
+    pm10: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: [
+          { cLow: 0, cHigh: 54, iLow: 0, iHigh: 50 },
+          { cLow: 55, cHigh: 154, iLow: 51, iHigh: 100 },
+          { cLow: 155, cHigh: 254, iLow: 101, iHigh: 150 },
+          { cLow: 255, cHigh: 354, iLow: 151, iHigh: 200 },
+          { cLow: 355, cHigh: 424, iLow: 201, iHigh: 300 },
+          { cLow: 425, cHigh: 604, iLow: 301, iHigh: 500 },
+        ],
+      },
+    ],
+    o3: [
+      {
+        averaging: "8-hour",
+        unit: "ppm",
+        decimals: 3,
+        breakpoints: [
+          { cLow: 0.0, cHigh: 0.054, iLow: 0, iHigh: 50 },
+          { cLow: 0.055, cHigh: 0.07, iLow: 51, iHigh: 100 },
+          { cLow: 0.071, cHigh: 0.085, iLow: 101, iHigh: 150 },
+          { cLow: 0.086, cHigh: 0.105, iLow: 151, iHigh: 200 },
+          { cLow: 0.106, cHigh: 0.2, iLow: 201, iHigh: 300 },
+        ],
+      },
+      {
+        // 1-hour ozone values are only used at 0.125 ppm and above
+        averaging: "1-hour",
+        unit: "ppm",
+        decimals: 3,
+        appliesFrom: 0.125,
+        breakpoints: [
+          { cLow: 0.125, cHigh: 0.164, iLow: 101, iHigh: 150 },
+          { cLow: 0.165, cHigh: 0.204, iLow: 151, iHigh: 200 },
+          { cLow: 0.205, cHigh: 0.404, iLow: 201, iHigh: 300 },
+          { cLow: 0.405, cHigh: 0.604, iLow: 301, iHigh: 500 },
+        ],
+      },
+    ],
+    no2: [
+      {
+        averaging: "1-hour",
+        unit: "ppb",
+        decimals: 0,
+        breakpoints: [
+          { cLow: 0, cHigh: 53, iLow: 0, iHigh: 50 },
+          { cLow: 54, cHigh: 100, iLow: 51, iHigh: 100 },
+          { cLow: 101, cHigh: 360, iLow: 101, iHigh: 150 },
+          { cLow: 361, cHigh: 649, iLow: 151, iHigh: 200 },
+          { cLow: 650, cHigh: 1249, iLow: 201, iHigh: 300 },
+          { cLow: 1250, cHigh: 2049, iLow: 301, iHigh: 500 },
+        ],
+      },
+    ],
+    so2: [
+      {
+        averaging: "1-hour",
+        unit: "ppb",
+        decimals: 0,
+        breakpoints: [
+          { cLow: 0, cHigh: 35, iLow: 0, iHigh: 50 },
+          { cLow: 36, cHigh: 75, iLow: 51, iHigh: 100 },
+          { cLow: 76, cHigh: 185, iLow: 101, iHigh: 150 },
+          { cLow: 186, cHigh: 304, iLow: 151, iHigh: 200 },
+        ],
+      },
+      {
+        // Above 304 ppb the AQI is based on 24-hour SO2 averages
+        averaging: "24-hour",
+        unit: "ppb",
+        decimals: 0,
+        appliesFrom: 305,
+        breakpoints: [
+          { cLow: 305, cHigh: 604, iLow: 201, iHigh: 300 },
+          { cLow: 605, cHigh: 1004, iLow: 301, iHigh: 500 },
+        ],
+      },
+    ],
+    co: [
+      {
+        averaging: "8-hour",
+        unit: "ppm",
+        decimals: 1,
+        breakpoints: [
+          { cLow: 0.0, cHigh: 4.4, iLow: 0, iHigh: 50 },
+          { cLow: 4.5, cHigh: 9.4, iLow: 51, iHigh: 100 },
+          { cLow: 9.5, cHigh: 12.4, iLow: 101, iHigh: 150 },
+          { cLow: 12.5, cHigh: 15.4, iLow: 151, iHigh: 200 },
+          { cLow: 15.5, cHigh: 30.4, iLow: 201, iHigh: 300 },
+          { cLow: 30.5, cHigh: 50.4, iLow: 301, iHigh: 500 },
+        ],
+      },
+    ],
+  };
+
+/**
+ * Calculate the US EPA AQI (0-500) from OpenWeather component values (μg/m³)
+ */
+export function calculateUsAqi(
+  components: Record<string, number | undefined>
+): AqiBreakdown {
+  return calculateBreakpointAqi(US_EPA_BREAKPOINTS, components);
+}
+
+/**
+ * EPA NowCast weighted average for particulates.
+ * `hourly` holds up to 12 hourly concentrations, most recent first, with
+ * null for missing hours. Returns null when fewer than two of the three most
+ * recent hours are available, as the EPA procedure requires.
+ */
+export function calculateNowCast(
+  hourly: (number | null | undefined)[]
+): number | null {
+  const window = hourly.slice(0, 12);
+  const isValid = (value: number | null | undefined): value is number =>
+    typeof value === "number" && !isNaN(value);
+
+  if (window.slice(0, 3).filter(isValid).length < 2) {
+    return null;
+  }
+
+  const valid = window.filter(isValid);
+  const cMin = Math.min(...valid);
+  const cMax = Math.max(...valid);
+  // The weight factor reflects how much concentrations changed over the window
+  const weight = cMax > 0 ? Math.max(cMin / cMax, 0.5) : 1;
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+  window.forEach((value, hoursAgo) => {
+    if (!isValid(value)) return;
+    const w = Math.pow(weight, hoursAgo);
+    weightedSum += w * value;
+    weightTotal += w;
+  });
+
+  return weightedSum / weightTotal;
+}
+
+/**
+ * Invert a sub-index back to a concentration in μg/m³ using the first
+ * (primary averaging) table for the pollutant. Used for feeds that publish
+ * sub-indices instead of concentrations.
+ */
+export function concentrationFromSubIndex(
+  tables: BreakpointTable[],
+  pollutant: Pollutant,
+  subIndex: number
+): number {
+  const table = tables[0];
+  const bands = table.breakpoints;
+  const band =
+    bands.find((candidate) => subIndex <= candidate.iHigh) ||
+    bands[bands.length - 1];
+  const aqi = Math.min(Math.max(subIndex, band.iLow), band.iHigh);
+
+  const concentration =
+    band.iHigh === band.iLow
+      ? band.cLow
+      : band.cLow +
+        ((aqi - band.iLow) * (band.cHigh - band.cLow)) /
+          (band.iHigh - band.iLow);
+
+  return toMicrogramsPerCubicMetre(concentration, pollutant, table.unit);
+}
@@ -0,0 +1,794 @@
+import {
+  AqiBreakdown,
+  Breakpoint,
+  BreakpointTable,
+  Pollutant,
+  PollutantSubIndex,
+  calculateBreakpointAqi,
+  convertConcentration,
+  US_EPA_BREAKPOINTS,
+} from "./aqi-calculator";
+
+// Registry of national AQI standards. Every standard scores the same
+// OpenWeather component values (μg/m³) so measurements can be shown in the
+// scale used by local authorities.
+
+export type AqiStandardId =
+  "us-epa" | "in-naqi" | "eu-caqi" | "uk-daqi" | "cn-aqi" | "ca-aqhi";
+
+export interface AqiCategory {
+  level: string;
+  description: string;
+  color: string;
+  // Inclusive lower bound of the category on the standard's scale
+  min: number;
+}
+
+export interface AqiStandard {
+  id: AqiStandardId;
+  name: string;
+  region: string;
+  scale: { min: number; max: number };
+  // Ordered from the lowest to the highest category
+  categories: AqiCategory[];
+  calculate(components: Record<string, number | undefined>): AqiBreakdown;
+}
+
+export const DEFAULT_AQI_STANDARD: AqiStandardId = "us-epa";
+
+// Bands whose edges are shared (the upper bound of one band is the lower bound of the next)
+function contiguousBands(
+  concentrations: number[],
+  indices: number[]
+): Breakpoint[] {
+  return concentrations.slice(1).map((cHigh, i) => ({
+    cLow: concentrations[i],
+    cHigh,
+    iLow: indices[i],
+    iHigh: indices[i + 1],
+  }));
+}
+
+// Bands with explicit [low, high] concentration and index ranges
+function steppedBands(
+  concentrations: [number, number][],
+  indices: [number, number][]
+): Breakpoint[] {
+  return concentrations.map(([cLow, cHigh], i) => ({
+    cLow,
+    cHigh,
+    iLow: indices[i][0],
+    iHigh: indices[i][1],
+  }));
+}
+
+// Banded indices without interpolation: band n covers up to upperBounds[n - 1]
+function indexBands(upperBounds: number[]): Breakpoint[] {
+  return upperBounds.map((cHigh, i) => ({
+    cLow: i === 0 ? 0 : upperBounds[i - 1] + 1,
+    cHigh,
+    iLow: i + 1,
+    iHigh: i + 1,
+  }));
+}
+
+function breakpointStandard(
+  definition: Omit<AqiStandard, "calculate">,
+  tables: Partial<Record<Pollutant, BreakpointTable[]>>
+): AqiStandard {
+  return {
+    ...definition,
+    calculate: (components) => calculateBreakpointAqi(tables, components),
+  };
+}
+
+const US_EPA: AqiStandard = breakpointStandard(
+  {
+    id: "us-epa",
+    name: "US EPA Air Quality Index",
+    region: "United States",
+    scale: { min: 0, max: 500 },
+    categories: [
+      {
+        level: "Good",
+        description:
+          "Air quality is satisfactory, and air pollution poses little or no risk.",
+        color: "green",
+        min: 0,
+      },
+      {
+        level: "Moderate",
+        description:
+          "Air quality is acceptable. However, there may be a risk for some people, particularly those who are unusually sensitive to air pollution.",
+        color: "yellow",
+        min: 51,
+      },
+      {
+        level: "Unhealthy for Sensitive Groups",
+        description:
+          "Members of sensitive groups may experience health effects. The general public is less likely to be affected.",
+        color: "orange",
+        min: 101,
+      },
+      {
+        level: "Unhealthy",
+        description:
+          "Some members of the general public may experience health effects; members of sensitive groups may experience more serious health effects.",
+        color: "red",
+        min: 151,
+      },
+      {
+        level: "Very Unhealthy",
+        description:
+          "Health alert: The risk of health effects is increased for everyone.",
+        color: "purple",
+        min: 201,
+      },
+      {
+        level: "Hazardous",
+        description:
+          "Health warning of emergency conditions: everyone is more likely to be affected.",
+        color: "maroon",
+        min: 301,
+      },
+    ],
+  },
+  US_EPA_BREAKPOINTS
+);
+
+// India National Air Quality Index (CPCB, 2014). The open-ended top band of
+// each pollutant is capped at a concentration that maps to an index of 500.
+const NAQI_INDICES: [number, number][] = [
+  [0, 50],
+  [51, 100],
+  [101, 200],
+  [201, 300],
+  [301, 400],
+  [401, 500],
+];
+
+const IN_NAQI: AqiStandard = breakpointStandard(
+  {
+    id: "in-naqi",
+    name: "National Air Quality Index",
+    region: "India",
+    scale: { min: 0, max: 500 },
+    categories: [
+      {
+        level: "Good",
+        description: "Minimal impact.",
+        color: "#00B050",
+        min: 0,
+      },
+      {
+        level: "Satisfactory",
+        description: "Minor breathing discomfort to sensitive people.",
+        color: "#92D050",
+        min: 51,
+      },
+      {
+        level: "Moderate",
+        description:
+          "Breathing discomfort to people with lung disease such as asthma, and discomfort to people with heart disease, children and older adults.",
+        color: "#FFFF00",
+        min: 101,
+      },
+      {
+        level: "Poor",
+        description:
+          "Breathing discomfort to most people on prolonged exposure, and discomfort to people with heart disease.",
+        color: "#FF9900",
+        min: 201,
+      },
+      {
+        level: "Very Poor",
+        description:
+          "Respiratory illness on prolonged exposure. Effect may be more pronounced in people with lung and heart diseases.",
+        color: "#FF0000",
+        min: 301,
+      },
+      {
+        level: "Severe",
+        description:
+          "Affects healthy people and seriously impacts those with existing diseases.",
+        color: "#C00000",
+        min: 401,
+      },
+    ],
+  },
+  {
+    pm10: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: steppedBands(
+          [
+            [0, 50],
+            [51, 100],
+            [101, 250],
+            [251, 350],
+            [351, 430],
+            [431, 600],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+    pm2_5: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: steppedBands(
+          [
+            [0, 30],
+            [31, 60],
+            [61, 90],
+            [91, 120],
+            [121, 250],
+            [251, 380],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+    no2: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: steppedBands(
+          [
+            [0, 40],
+            [41, 80],
+            [81, 180],
+            [181, 280],
+            [281, 400],
+            [401, 520],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+    o3: [
+      {
+        averaging: "8-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: steppedBands(
+          [
+            [0, 50],
+            [51, 100],
+            [101, 168],
+            [169, 208],
+            [209, 748],
+            [749, 1000],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+    co: [
+      {
+        averaging: "8-hour",
+        unit: "mg/m³",
+        decimals: 1,
+        breakpoints: steppedBands(
+          [
+            [0, 1.0],
+            [1.1, 2.0],
+            [2.1, 10],
+            [10.1, 17],
+            [17.1, 34],
+            [34.1, 50],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+    so2: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: steppedBands(
+          [
+            [0, 40],
+            [41, 80],
+            [81, 380],
+            [381, 800],
+            [801, 1600],
+            [1601, 2100],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+    nh3: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: steppedBands(
+          [
+            [0, 200],
+            [201, 400],
+            [401, 800],
+            [801, 1200],
+            [1201, 1800],
+            [1801, 2400],
+          ],
+          NAQI_INDICES
+        ),
+      },
+    ],
+  }
+);
+
+// European Common Air Quality Index (CAQI), hourly background grid.
+// Values above 100 are open-ended and continue the slope of the top band.
+const CAQI_INDICES = [0, 25, 50, 75, 100];
+
+const EU_CAQI: AqiStandard = breakpointStandard(
+  {
+    id: "eu-caqi",
+    name: "Common Air Quality Index",
+    region: "European Union",
+    scale: { min: 0, max: 100 },
+    categories: [
+      {
+        level: "Very Low",
+        description:
+          "Air quality is very good; enjoy your usual outdoor activities.",
+        color: "#79BC6A",
+        min: 0,
+      },
+      {
+        level: "Low",
+        description:
+          "Air quality is good; no action is needed for the general population.",
+        color: "#BBCF4C",
+        min: 25,
+      },
+      {
+        level: "Medium",
+        description:
+          "Sensitive people should consider reducing intense outdoor activities if they experience symptoms.",
+        color: "#EEC20B",
+        min: 50,
+      },
+      {
+        level: "High",
+        description:
+          "Sensitive groups should reduce outdoor exertion; others should consider reducing intense outdoor activities.",
+        color: "#F29305",
+        min: 75,
+      },
+      {
+        level: "Very High",
+        description:
+          "Everyone should reduce outdoor activities; sensitive groups should avoid them.",
+        color: "#E8416F",
+        // The CAQI grid closes High at 100; Very High is above it
+        min: 101,
+      },
+    ],
+  },
+  {
+    no2: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 1,
+        extrapolate: true,
+        breakpoints: contiguousBands([0, 50, 100, 200, 400], CAQI_INDICES),
+      },
+    ],
+    pm10: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 1,
+        extrapolate: true,
+        breakpoints: contiguousBands([0, 25, 50, 90, 180], CAQI_INDICES),
+      },
+    ],
+    pm2_5: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 1,
+        extrapolate: true,
+        breakpoints: contiguousBands([0, 15, 30, 55, 110], CAQI_INDICES),
+      },
+    ],
+    o3: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 1,
+        extrapolate: true,
+        breakpoints: contiguousBands([0, 60, 120, 180, 240], CAQI_INDICES),
+      },
+    ],
+    co: [
+      {
+        averaging: "8-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        extrapolate: true,
+        breakpoints: contiguousBands(
+          [0, 5000, 7500, 10000, 20000],
+          CAQI_INDICES
+        ),
+      },
+    ],
+    so2: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 1,
+        extrapolate: true,
+        breakpoints: contiguousBands([0, 50, 100, 350, 500], CAQI_INDICES),
+      },
+    ],
+  }
+);
+
+// UK Daily Air Quality Index (COMEAP, 2011). Banded 1-10 with no interpolation.
+const UK_DAQI: AqiStandard = breakpointStandard(
+  {
+    id: "uk-daqi",
+    name: "Daily Air Quality Index",
+    region: "United Kingdom",
+    scale: { min: 1, max: 10 },
+    categories: [
+      ["Low", "#9CFF9C"],
+      ["Low", "#31FF00"],
+      ["Low", "#31CF00"],
+      ["Moderate", "#FFFF00"],
+      ["Moderate", "#FFCF00"],
+      ["Moderate", "#FF9A00"],
+      ["High", "#FF6464"],
+      ["High", "#FF0000"],
+      ["High", "#990000"],
+      ["Very High", "#CE30FF"],
+    ].map(([level, color], i) => ({
+      level,
+      color,
+      min: i + 1,
+      description: {
+        Low: "Enjoy your usual outdoor activities.",
+        Moderate:
+          "Adults and children with lung problems, and adults with heart problems, who experience symptoms should consider reducing strenuous physical activity, particularly outdoors.",
+        High: "Anyone experiencing discomfort such as sore eyes, cough or sore throat should consider reducing activity, particularly outdoors. At-risk individuals should reduce strenuous physical exertion.",
+        "Very High":
+          "Reduce physical exertion, particularly outdoors, especially if you experience symptoms such as cough or sore throat. At-risk individuals should avoid strenuous physical activity.",
+      }[level] as string,
+    })),
+  },
+  {
+    o3: [
+      {
+        averaging: "8-hour running mean",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: indexBands([
+          33, 66, 100, 120, 140, 160, 187, 213, 240, 100000,
+        ]),
+      },
+    ],
+    no2: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: indexBands([
+          67, 134, 200, 267, 334, 400, 467, 534, 600, 100000,
+        ]),
+      },
+    ],
+    so2: [
+      {
+        averaging: "15-minute",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: indexBands([
+          88, 177, 266, 354, 443, 532, 710, 887, 1064, 100000,
+        ]),
+      },
+    ],
+    pm2_5: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: indexBands([11, 23, 35, 41, 47, 53, 58, 64, 70, 100000]),
+      },
+    ],
+    pm10: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: indexBands([16, 33, 50, 58, 66, 75, 83, 91, 100, 100000]),
+      },
+    ],
+  }
+);
+
+// China Ambient Air Quality Index (HJ 633-2012), real-time (hourly) tables.
+// SO2 above 800 μg/m³ switches to the 24-hour table as the standard requires.
+const CN_IAQI = [0, 50, 100, 150, 200, 300, 400, 500];
+
+const CN_AQI: AqiStandard = breakpointStandard(
+  {
+    id: "cn-aqi",
+    name: "Ambient Air Quality Index",
+    region: "China",
+    scale: { min: 0, max: 500 },
+    categories: [
+      {
+        level: "Excellent",
+        description:
+          "Air quality is satisfactory with little or no air pollution.",
+        color: "#00E400",
+        min: 0,
+      },
+      {
+        level: "Good",
+        description:
+          "Air quality is acceptable, but a very small number of unusually sensitive people may experience mild effects.",
+        color: "#FFFF00",
+        min: 51,
+      },
+      {
+        level: "Lightly Polluted",
+        description:
+          "Sensitive people may experience mild aggravation of symptoms and should reduce prolonged or heavy outdoor exertion.",
+        color: "#FF7E00",
+        min: 101,
+      },
+      {
+        level: "Moderately Polluted",
+        description:
+          "Symptoms may worsen for sensitive people and the general public may be affected. Sensitive groups should avoid prolonged outdoor exertion.",
+        color: "#FF0000",
+        min: 151,
+      },
+      {
+        level: "Heavily Polluted",
+        description:
+          "People with heart or lung disease show significantly aggravated symptoms and reduced exercise tolerance; the general public commonly shows symptoms. Everyone should reduce outdoor activity.",
+        color: "#99004C",
+        min: 201,
+      },
+      {
+        level: "Severely Polluted",
+        description:
+          "Healthy people experience reduced exercise tolerance and strong symptoms. Everyone should avoid outdoor activity.",
+        color: "#7E0023",
+        min: 301,
+      },
+    ],
+  },
+  {
+    so2: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: contiguousBands([0, 150, 500, 650, 800], CN_IAQI),
+      },
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        appliesFrom: 801,
+        breakpoints: contiguousBands(
+          [800, 1600, 2100, 2620],
+          [200, 300, 400, 500]
+        ),
+      },
+    ],
+    no2: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: contiguousBands(
+          [0, 100, 200, 700, 1200, 2340, 3090, 3840],
+          CN_IAQI
+        ),
+      },
+    ],
+    co: [
+      {
+        averaging: "1-hour",
+        unit: "mg/m³",
+        decimals: 1,
+        breakpoints: contiguousBands([0, 5, 10, 35, 60, 90, 120, 150], CN_IAQI),
+      },
+    ],
+    o3: [
+      {
+        averaging: "1-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: contiguousBands(
+          [0, 160, 200, 300, 400, 800, 1000, 1200],
+          CN_IAQI
+        ),
+      },
+    ],
+    pm10: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: contiguousBands(
+          [0, 50, 150, 250, 350, 420, 500, 600],
+          CN_IAQI
+        ),
+      },
+    ],
+    pm2_5: [
+      {
+        averaging: "24-hour",
+        unit: "μg/m³",
+        decimals: 0,
+        breakpoints: contiguousBands(
+          [0, 35, 75, 115, 150, 250, 350, 500],
+          CN_IAQI
+        ),
+      },
+    ],
+  }
+);
+
+// Canada Air Quality Health Index (Stieb et al., 2008). Unlike the other
+// standards it adds the excess risk of NO2, O3 and PM2.5 instead of taking the
+// highest pollutant, so each sub-index is that pollutant's contribution.
+const AQHI_COEFFICIENTS: {
+  pollutant: Pollutant;
+  unit: "ppb" | "μg/m³";
+  beta: number;
+}[] = [
+  { pollutant: "no2", unit: "ppb", beta: 0.000871 },
+  { pollutant: "o3", unit: "ppb", beta: 0.000537 },
+  { pollutant: "pm2_5", unit: "μg/m³", beta: 0.000487 },
+];
+
+const CA_AQHI: AqiStandard = {
+  id: "ca-aqhi",
+  name: "Air Quality Health Index",
+  region: "Canada",
+  // 11 is reported as "10+"
+  scale: { min: 1, max: 11 },
+  categories: [
+    {
+      level: "Low Risk",
+      description:
+        "Ideal air quality for outdoor activities. At-risk individuals can enjoy their usual outdoor activities.",
+      color: "#00CCFF",
+      min: 1,
+    },
+    {
+      level: "Moderate Risk",
+      description:
+        "No need to modify usual outdoor activities unless you experience symptoms. At-risk individuals should consider reducing strenuous outdoor activity if symptoms occur.",
+      color: "#FFFF00",
+      min: 4,
+    },
+    {
+      level: "High Risk",
+      description:
+        "Consider reducing or rescheduling strenuous outdoor activities if you experience symptoms. At-risk individuals, children and the elderly should reduce strenuous activity outdoors.",
+      color: "#FF6666",
+      min: 7,
+    },
+    {
+      level: "Very High Risk",
+      description:
+        "Reduce or reschedule strenuous outdoor activities, especially if you experience symptoms. At-risk individuals, children and the elderly should avoid strenuous activity outdoors.",
+      color: "#990000",
+      min: 11,
+    },
+  ],
+  calculate(components) {
+    const subIndices: Partial<Record<Pollutant, PollutantSubIndex>> = {};
+    let dominantPollutant: Pollutant | null = null;
+    let total = 0;
+
+    for (const { pollutant, unit, beta } of AQHI_COEFFICIENTS) {
+      const value = components[pollutant];
+      if (typeof value !== "number" || isNaN(value)) continue;
+
+      const concentration = convertConcentration(
+        Math.max(0, value),
+        pollutant,
+        unit
+      );
+      const contribution = (1000 / 10.4) * (Math.exp(beta * concentration) - 1);
+      total += contribution;
+
+      subIndices[pollutant] = {
+        aqi: Math.round(contribution * 10) / 10,
+        concentration: Math.round(concentration * 10) / 10,
+        unit,
+        averaging: "3-hour",
+      };
+      if (
+        dominantPollutant === null ||
+        contribution > (subIndices[dominantPollutant]?.aqi ?? 0)
+      ) {
+        dominantPollutant = pollutant;
+      }
+    }
+
+    return {
+      aqi: Math.min(11, Math.max(1, Math.round(total))),
+      dominantPollutant,
+      subIndices,
+    };
+  },
+};
+
+export const AQI_STANDARDS: Record<AqiStandardId, AqiStandard> = {
+  "us-epa": US_EPA,
+  "in-naqi": IN_NAQI,
+  "eu-caqi": EU_CAQI,
+  "uk-daqi": UK_DAQI,
+  "cn-aqi": CN_AQI,
+  "ca-aqhi": CA_AQHI,
+};
+
+/**
+ * Look up a standard by id. Returns null for unknown ids so routes can
+ * answer with a 400 instead of silently falling back to the US scale.
+ */
+export function resolveAqiStandard(id?: string | null): AqiStandard | null {
+  if (!id) return AQI_STANDARDS[DEFAULT_AQI_STANDARD];
+  const key = id.toLowerCase();
+  // Own keys only: "constructor" or "toString" are not standards
+  return Object.hasOwn(AQI_STANDARDS, key)
+    ? AQI_STANDARDS[key as AqiStandardId]
+    : null;
+}
+
+/**
+ * Get the standard for an id, defaulting to the US EPA scale
+ */
+export function getAqiStandard(id?: string | null): AqiStandard {
+  return resolveAqiStandard(id) || AQI_STANDARDS[DEFAULT_AQI_STANDARD];
+}
+
+// Get descriptive category for AQI value
+export function getAqiCategory(
+  aqi: number,
+  standardId?: string | null
+): AqiCategory {
+  const { categories } = getAqiStandard(standardId);
+  let category = categories[0];
+  for (const candidate of categories) {
+    if (aqi >= candidate.min) {
+      category = candidate;
+    }
+  }
+  return category;
+}
+
+// Get color for AQI value
+export function getAqiColor(aqi: number, standardId?: string | null): string {
+  return getAqiCategory(aqi, standardId).color;
+}
+
+/**
+ * Error message listing the supported standards, for invalid `standard=` params
+ */
+export function unknownStandardMessage(id: string): string {
+  return `Unknown AQI standard "${id}". Supported standards: ${Object.keys(
+    AQI_STANDARDS
+  ).join(", ")}`;
+}
@@ -0,0 +1,377 @@
+import { detectAnomalies } from "./anomaly-detection";
+import { getAqiCategory, getAqiStandard } from "./aqi-standards";
+import { mean } from "./statistics";
+import {
+  ComponentModels,
+  HISTORY_DAYS,
+  HistoricalData,
+  predictionService,
+} from "./prediction-service";
+import { resolveLocation } from "./air-quality-service";
+import { openWeatherProvider } from "./providers/openweather-provider";
+import { getForecastRepository, getObservationRepository } from "./storage";
+import { ForecastPoint } from "./storage/forecast-repository";
+import { CLIENT_PROVIDER } from "./storage/observation-repository";
+import { locationTimeZone } from "./timezone";
+
+// Forecast backtesting. Stored history is replayed: at each past origin
+// hour every source forecasts from what was known before that hour, and
+// the forecasts are scored against the readings that followed.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Observed hours needed before an origin for it to be scored
+const MIN_TRAINING_HOURS = 24;
+// Origins whose latest reading (or OpenWeather forecast) is older are skipped
+const MAX_STALENESS_MS = 6 * HOUR_MS;
+// Smoothing parameters are searched for at most this often; origins in
+// between reuse them and only rerun the smoothing. The search is most of
+// the cost of a fit, and the parameters of a location change slowly.
+const RETUNE_INTERVAL_MS = DAY_MS;
+
+// Parts of the served /predict forecast the "model" score leaves out. The
+// weather-driver adjustment needs the weather forecast known at each origin,
+// and past weather forecasts aren't stored; the observed weather would hand
+// the model what actually happened.
+export const MODEL_EXCLUDES = ["weatherDrivers"];
+
+export const FORECAST_SOURCES = [
+  "model",
+  "openweather",
+  "persistence",
+] as const;
+export type ForecastSource = (typeof FORECAST_SOURCES)[number];
+
+export interface BacktestOptions {
+  locationId: string;
+  days: number; // origins over this many days before now
+  horizonHours: number; // hours forecast from each origin
+  stepHours: number; // hours between origins
+  standardId?: string;
+}
+
+export interface ForecastScore {
+  origins: number;
+  pairs: number; // forecast hours with a reading to score against
+  mae: number | null;
+  rmse: number | null;
+  bias: number | null; // mean of forecast - observed
+  categoryHitRate: number | null; // share of hours with the right category
+}
+
+export interface BacktestResult {
+  locationId: string;
+  standard: string;
+  start: number;
+  end: number;
+  horizonHours: number;
+  stepHours: number;
+  origins: number;
+  // Each source over the hours it forecast
+  scores: Record<ForecastSource, ForecastScore>;
+  // Every source over the same hours, those all of them forecast, so the
+  // scores can be compared with each other
+  sharedScores: Record<ForecastSource, ForecastScore>;
+  // What the "model" score leaves out of the served forecast
+  modelExcludes: string[];
+}
+
+interface Pair {
+  forecast: number;
+  observed: number;
+  observedLevel: string;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function score(pairs: Pair[], origins: number, standardId: string) {
+  if (pairs.length === 0) {
+    return {
+      origins,
+      pairs: 0,
+      mae: null,
+      rmse: null,
+      bias: null,
+      categoryHitRate: null,
+    };
+  }
+  const errors = pairs.map((pair) => pair.forecast - pair.observed);
+  return {
+    origins,
+    pairs: pairs.length,
+    mae: round(mean(errors.map(Math.abs))),
+    rmse: round(Math.sqrt(mean(errors.map((error) => error * error)))),
+    bias: round(mean(errors)),
+    categoryHitRate: round(
+      pairs.filter(
+        (pair) =>
+          getAqiCategory(pair.forecast, standardId).level === pair.observedLevel
+      ).length / pairs.length,
+      3
+    ),
+  };
+}
+
+/**
+ * The latest OpenWeather forecast issued in the hours before an origin
+ */
+function issuedBefore(
+  issues: Map<number, ForecastPoint[]>,
+  origin: number
+): ForecastPoint[] {
+  let latest: number | null = null;
+  for (const issuedAt of issues.keys()) {
+    if (
+      issuedAt < origin &&
+      origin - issuedAt <= MAX_STALENESS_MS &&
+      (latest === null || issuedAt > latest)
+    ) {
+      latest = issuedAt;
+    }
+  }
+  return latest === null ? [] : issues.get(latest)!;
+}
+
+// Models that can reuse another fit's parameters: the same components,
+// each with the same daily and weekly cycles
+function sameStructure(a: ComponentModels, b: ComponentModels): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        b[key] &&
+        a[key].seasonality === b[key].seasonality &&
+        (a[key].weekly === null) === (b[key].weekly === null)
+    )
+  );
+}
+
+/**
+ * Score the in-house model, stored OpenWeather forecasts and a persistence
+ * baseline (the last reading carried forward) over the same origins.
+ * Returns null when no observation store is configured.
+ */
+export async function runBacktest(
+  options: BacktestOptions,
+  now = Date.now()
+): Promise<BacktestResult | null> {
+  const observations = await getObservationRepository();
+  if (!observations) return null;
+
+  const standard = getAqiStandard(options.standardId);
+  const { lat, lon } = resolveLocation({ locationId: options.locationId });
+  const zone = locationTimeZone(lat, lon);
+  const usEpa = getAqiStandard();
+  const end = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const start = end - options.days * DAY_MS;
+
+  const stored = await observations.find({
+    locationId: options.locationId,
+    start: start - HISTORY_DAYS * DAY_MS,
+    end,
+    excludeProviders: [CLIENT_PROVIDER],
+  });
+
+  // One reading per hour, as history does
+  const hourly = new Map<number, (typeof stored)[number]>();
+  for (const observation of stored) {
+    const hour = Math.floor(observation.timestamp / HOUR_MS) * HOUR_MS;
+    if (!hourly.has(hour)) hourly.set(hour, observation);
+  }
+
+  // Flagged readings aren't scored against. Training readings are screened
+  // at each origin against the window before it instead, as /predict does,
+  // so the check can't use readings from after the origin.
+  const series = Array.from(hourly.values());
+  const flags = detectAnomalies(series);
+  const observed = new Map<number, { aqi: number; level: string }>();
+  // Training form of each reading the standard gives an AQI
+  const readings = new Map<(typeof series)[number], HistoricalData>();
+  series.forEach((observation, index) => {
+    const aqi = standard.calculate(observation.components).aqi;
+    if (!isFinite(aqi)) return;
+    readings.set(observation, {
+      timestamp: observation.timestamp,
+      aqi: usEpa.calculate(observation.components).aqi,
+      components: observation.components,
+    });
+    if (flags[index].length > 0) return;
+    const hour = Math.floor(observation.timestamp / HOUR_MS) * HOUR_MS;
+    observed.set(hour, { aqi, level: getAqiCategory(aqi, standard.id).level });
+  });
+
+  const issues = new Map<number, ForecastPoint[]>();
+  const forecasts = await getForecastRepository();
+  if (forecasts) {
+    const points = await forecasts.find({
+      locationId: options.locationId,
+      start,
+      issuedAfter: start - MAX_STALENESS_MS,
+      provider: openWeatherProvider.name,
+    });
+    for (const point of points) {
+      if (!issues.has(point.issuedAt)) issues.set(point.issuedAt, []);
+      issues.get(point.issuedAt)!.push(point);
+    }
+  }
+
+  const pairs: Record<ForecastSource, Pair[]> = {
+    model: [],
+    openweather: [],
+    persistence: [],
+  };
+  const origins: Record<ForecastSource, number> = {
+    model: 0,
+    openweather: 0,
+    persistence: 0,
+  };
+  const sharedPairs: Record<ForecastSource, Pair[]> = {
+    model: [],
+    openweather: [],
+    persistence: [],
+  };
+  let sharedOrigins = 0;
+  let scoredOrigins = 0;
+  // The last fit that searched for its parameters, and when
+  let tuned: { origin: number; models: ComponentModels } | null = null;
+
+  for (
+    let origin = start;
+    origin < end;
+    origin += options.stepHours * HOUR_MS
+  ) {
+    const window = series.filter(
+      (observation) =>
+        observation.timestamp < origin &&
+        observation.timestamp >= origin - HISTORY_DAYS * DAY_MS
+    );
+    const windowFlags = detectAnomalies(window);
+    const training = window
+      .filter((observation, index) => windowFlags[index].length === 0)
+      .map((observation) => readings.get(observation))
+      .filter((reading): reading is HistoricalData => reading !== undefined);
+    const latest = training[training.length - 1];
+    if (
+      training.length < MIN_TRAINING_HOURS ||
+      origin - latest.timestamp > MAX_STALENESS_MS
+    ) {
+      continue;
+    }
+
+    const targets: number[] = [];
+    for (let hour = 0; hour < options.horizonHours; hour++) {
+      const timestamp = origin + hour * HOUR_MS;
+      if (observed.has(timestamp)) targets.push(timestamp);
+    }
+    if (targets.length === 0) continue;
+    scoredOrigins++;
+
+    const predictions: Record<ForecastSource, Map<number, number>> = {
+      model: new Map(),
+      openweather: new Map(),
+      persistence: new Map(),
+    };
+
+    let models: ComponentModels | null = null;
+    if (tuned && origin - tuned.origin < RETUNE_INTERVAL_MS) {
+      const reused = tuned.models;
+      models = predictionService.fitReadings(
+        training,
+        zone,
+        Object.fromEntries(
+          Object.entries(reused).map(([key, model]) => [key, model.parameters])
+        )
+      );
+      // A cycle that became estimable since needs its own parameters
+      if (models && !sameStructure(models, reused)) models = null;
+    }
+    if (!models) {
+      models = predictionService.fitReadings(training, zone);
+      if (models) tuned = { origin, models };
+    }
+    if (models) {
+      const forecast = predictionService.forecastUntil(
+        models,
+        targets[targets.length - 1]
+      );
+      for (const hour of forecast) {
+        const components = Object.fromEntries(
+          Object.entries(hour.components).map(([key, point]) => [
+            key,
+            point.value,
+          ])
+        );
+        predictions.model.set(
+          hour.timestamp,
+          standard.calculate(components).aqi
+        );
+      }
+    }
+
+    for (const point of issuedBefore(issues, origin)) {
+      const aqi = standard.calculate(point.components).aqi;
+      if (isFinite(aqi)) predictions.openweather.set(point.timestamp, aqi);
+    }
+
+    const persisted = standard.calculate(latest.components).aqi;
+    for (const timestamp of targets) {
+      predictions.persistence.set(timestamp, persisted);
+    }
+
+    for (const source of FORECAST_SOURCES) {
+      let paired = false;
+      for (const timestamp of targets) {
+        const forecast = predictions[source].get(timestamp);
+        if (forecast === undefined) continue;
+        const actual = observed.get(timestamp)!;
+        pairs[source].push({
+          forecast,
+          observed: actual.aqi,
+          observedLevel: actual.level,
+        });
+        paired = true;
+      }
+      if (paired) origins[source]++;
+    }
+
+    const shared = targets.filter((timestamp) =>
+      FORECAST_SOURCES.every((source) => predictions[source].has(timestamp))
+    );
+    for (const source of FORECAST_SOURCES) {
+      for (const timestamp of shared) {
+        const actual = observed.get(timestamp)!;
+        sharedPairs[source].push({
+          forecast: predictions[source].get(timestamp)!,
+          observed: actual.aqi,
+          observedLevel: actual.level,
+        });
+      }
+    }
+    if (shared.length > 0) sharedOrigins++;
+  }
+
+  return {
+    locationId: options.locationId,
+    standard: standard.id,
+    start,
+    end,
+    horizonHours: options.horizonHours,
+    stepHours: options.stepHours,
+    origins: scoredOrigins,
+    scores: {
+      model: score(pairs.model, origins.model, standard.id),
+      openweather: score(pairs.openweather, origins.openweather, standard.id),
+      persistence: score(pairs.persistence, origins.persistence, standard.id),
+    },
+    sharedScores: {
+      model: score(sharedPairs.model, sharedOrigins, standard.id),
+      openweather: score(sharedPairs.openweather, sharedOrigins, standard.id),
+      persistence: score(sharedPairs.persistence, sharedOrigins, standard.id),
+    },
+    modelExcludes: MODEL_EXCLUDES,
+  };
+}
@@ -0,0 +1,39 @@
+// Helpers for running many upstream calls without firing them all at once
+
+export type Settled<T> =
+  | { status: "fulfilled"; value: T }
+  | { status: "rejected"; reason: unknown };
+
+/**
+ * Run `task` over every item with at most `limit` calls in flight.
+ * Results keep the input order and failures are returned, not thrown.
+ */
+export async function mapWithConcurrency<I, O>(
+  items: I[],
+  limit: number,
+  task: (item: I, index: number) => Promise<O>
+): Promise<Settled<O>[]> {
+  const results: Settled<O>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await task(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    () => worker()
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,288 @@
+import { getAirQualityForecast, resolveLocation } from "./air-quality-service";
+import { getAqiCategory, getAqiStandard } from "./aqi-standards";
+import { ForecastScore, runBacktest } from "./backtest";
+import { predictionService } from "./prediction-service";
+import { openWeatherProvider } from "./providers/openweather-provider";
+import { locationTimeZone, toLocalIso } from "./timezone";
+
+// Ensemble of the provider forecast and the in-house model. Each member is
+// weighted by its inverse mean squared error in a backtest over the
+// location's recent history, and the OpenWeather forecast is first shifted
+// by its mean error there, so the weights reflect the corrected forecast.
+
+export const ENSEMBLE_MEMBERS = ["model", "openweather"] as const;
+export type EnsembleMember = (typeof ENSEMBLE_MEMBERS)[number];
+
+export interface EnsembleOptions {
+  hours: number;
+  standardId?: string;
+  skillDays: number; // days of history the skill is measured over
+}
+
+export interface MemberSkill {
+  pairs: number;
+  rmse: number | null;
+  bias: number | null;
+  // RMSE after removing the bias, what the weight is based on
+  correctedRmse: number | null;
+}
+
+export interface EnsembleHour {
+  timestamp: number;
+  localTime: string;
+  aqi: number;
+  level: string;
+  color: string;
+  // Member forecasts for the hour; OpenWeather's after bias correction
+  members: Partial<Record<EnsembleMember, number>>;
+  // Weights used for the hour, renormalised over the members that cover it
+  weights: Partial<Record<EnsembleMember, number>>;
+}
+
+export interface EnsembleForecast {
+  location: { lat: string; lon: string; locationId: string };
+  standard: string;
+  timeZone: string;
+  // Provider that answered for the OpenWeather member, if any
+  provider: string | null;
+  // Subtracted from the provider forecast, 0 without enough skill data
+  biasCorrection: number;
+  weights: Record<EnsembleMember, number>;
+  // Null when there is no observation store to measure skill against
+  skill: {
+    days: number;
+    members: Record<EnsembleMember, MemberSkill>;
+    // What the model member's skill leaves out of its served forecast
+    modelExcludes: string[];
+  } | null;
+  hours: number;
+  forecast: EnsembleHour[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// Scored hours a member needs before its skill is trusted
+const MIN_SKILL_PAIRS = 24;
+// Hours between backtest origins when measuring skill
+const SKILL_STEP_HOURS = 6;
+// Floor on the error variance, so a lucky backtest can't take all the weight
+const MIN_ERROR_VARIANCE = 1;
+
+// Skill changes slowly; backtests refit the model at every origin
+const skillCache = new Map<
+  string,
+  { measuredAt: number; skill: EnsembleForecast["skill"] }
+>();
+const SKILL_CACHE_LIFETIME = 6 * HOUR_MS;
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function memberSkill(score: ForecastScore, corrected: boolean): MemberSkill {
+  const correctedRmse =
+    score.rmse === null
+      ? null
+      : corrected && score.bias !== null
+        ? Math.sqrt(Math.max(0, score.rmse ** 2 - score.bias ** 2))
+        : score.rmse;
+  return {
+    pairs: score.pairs,
+    rmse: score.rmse,
+    bias: score.bias,
+    correctedRmse: correctedRmse === null ? null : round(correctedRmse),
+  };
+}
+
+/**
+ * Backtest skill of both members at a location, cached for a few hours.
+ * Null without an observation store.
+ */
+async function measureSkill(
+  locationId: string,
+  options: EnsembleOptions,
+  now: number
+): Promise<EnsembleForecast["skill"]> {
+  const key = `${locationId}:${options.standardId}:${options.hours}:${options.skillDays}`;
+  const cached = skillCache.get(key);
+  if (cached && now - cached.measuredAt < SKILL_CACHE_LIFETIME) {
+    return cached.skill;
+  }
+
+  const result = await runBacktest(
+    {
+      locationId,
+      days: options.skillDays,
+      horizonHours: options.hours,
+      stepHours: SKILL_STEP_HOURS,
+      standardId: options.standardId,
+    },
+    now
+  );
+  const skill = result && {
+    days: options.skillDays,
+    members: {
+      model: memberSkill(result.scores.model, false),
+      openweather: memberSkill(result.scores.openweather, true),
+    },
+    modelExcludes: result.modelExcludes,
+  };
+  skillCache.set(key, { measuredAt: now, skill });
+  return skill;
+}
+
+/**
+ * Inverse error variance weights, equal for members without enough
+ * scored hours, as long as no member has any
+ */
+function memberWeights(
+  skill: EnsembleForecast["skill"]
+): Record<EnsembleMember, number> {
+  const scored = ENSEMBLE_MEMBERS.filter((member) => {
+    const measured = skill?.members[member];
+    return (
+      measured &&
+      measured.pairs >= MIN_SKILL_PAIRS &&
+      measured.correctedRmse !== null
+    );
+  });
+
+  const raw = Object.fromEntries(
+    ENSEMBLE_MEMBERS.map((member) => {
+      if (scored.length === 0) return [member, 1];
+      if (!scored.includes(member)) return [member, 0];
+      const rmse = skill!.members[member].correctedRmse!;
+      return [member, 1 / Math.max(MIN_ERROR_VARIANCE, rmse * rmse)];
+    })
+  ) as Record<EnsembleMember, number>;
+  const total = ENSEMBLE_MEMBERS.reduce((sum, member) => sum + raw[member], 0);
+  return Object.fromEntries(
+    ENSEMBLE_MEMBERS.map((member) => [member, round(raw[member] / total, 3)])
+  ) as Record<EnsembleMember, number>;
+}
+
+/**
+ * Blend the in-house model with the provider forecast for the hours after
+ * the current one. Throws when neither member can forecast.
+ */
+export async function getEnsembleForecast(
+  lat: string,
+  lon: string,
+  options: EnsembleOptions,
+  now = Date.now()
+): Promise<EnsembleForecast> {
+  const location = resolveLocation({ lat, lon });
+  const standard = getAqiStandard(options.standardId);
+  const zone = locationTimeZone(lat, lon);
+
+  const [skill, model, provider] = await Promise.all([
+    measureSkill(
+      location.locationId,
+      { ...options, standardId: standard.id },
+      now
+    ).catch((error) => {
+      console.error("Error measuring forecast skill:", error);
+      return null;
+    }),
+    predictionService
+      .getHourlyPredictions(lat, lon, standard.id, options.hours)
+      .catch((error) => {
+        console.error("Ensemble model member failed:", error);
+        return [];
+      }),
+    getAirQualityForecast(
+      lat,
+      lon,
+      undefined,
+      standard.id,
+      // The provider's first hour is the current one
+      options.hours + 1
+    ).catch((error) => {
+      console.error("Ensemble provider member failed:", error);
+      return null;
+    }),
+  ]);
+
+  // Skill was measured on stored OpenWeather forecasts, so it only applies
+  // when OpenWeather answered rather than a fallback provider
+  const isOpenWeather = provider?.provider === openWeatherProvider.name;
+  const weights = memberWeights(isOpenWeather ? skill : null);
+  const openWeatherSkill = skill?.members.openweather;
+  const biasCorrection =
+    isOpenWeather &&
+    openWeatherSkill &&
+    openWeatherSkill.pairs >= MIN_SKILL_PAIRS &&
+    openWeatherSkill.bias !== null
+      ? openWeatherSkill.bias
+      : 0;
+
+  const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const members = new Map<number, Partial<Record<EnsembleMember, number>>>();
+  const add = (timestamp: number, member: EnsembleMember, aqi: number) => {
+    const hour = Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+    if (hour <= currentHour || hour > currentHour + options.hours * HOUR_MS) {
+      return;
+    }
+    if (!members.has(hour)) members.set(hour, {});
+    members.get(hour)![member] = aqi;
+  };
+  for (const prediction of model) {
+    add(prediction.timestamp, "model", prediction.aqi);
+  }
+  for (const item of provider?.forecast ?? []) {
+    add(
+      item.timestamp,
+      "openweather",
+      round(Math.max(0, item.airQuality - biasCorrection), 1)
+    );
+  }
+  if (members.size === 0) {
+    throw new Error(`No forecast available for ${lat}, ${lon}`);
+  }
+
+  const forecast: EnsembleHour[] = Array.from(members.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, values]) => {
+      const present = ENSEMBLE_MEMBERS.filter(
+        (member) => values[member] !== undefined
+      );
+      const total = present.reduce((sum, member) => sum + weights[member], 0);
+      // A member with no weight is still better than no forecast
+      const hourWeights = Object.fromEntries(
+        present.map((member) => [
+          member,
+          total > 0 ? weights[member] / total : 1 / present.length,
+        ])
+      ) as Partial<Record<EnsembleMember, number>>;
+      const aqi = Math.round(
+        present.reduce(
+          (sum, member) => sum + hourWeights[member]! * values[member]!,
+          0
+        )
+      );
+      const category = getAqiCategory(aqi, standard.id);
+      return {
+        timestamp,
+        localTime: toLocalIso(timestamp, zone),
+        aqi,
+        level: category.level,
+        color: category.color,
+        members: values,
+        weights: Object.fromEntries(
+          present.map((member) => [member, round(hourWeights[member]!, 3)])
+        ),
+      };
+    });
+
+  return {
+    location,
+    standard: standard.id,
+    timeZone: zone.id,
+    provider: provider?.provider ?? null,
+    biasCorrection,
+    weights,
+    skill,
+    hours: forecast.length,
+    forecast,
+  };
+}
@@ -0,0 +1,210 @@
+import { getAqiCategory, getAqiStandard } from "./aqi-standards";
+import { getObservationRepository } from "./storage";
+import {
+  CLIENT_PROVIDER,
+  OBSERVATION_COMPONENTS,
+  Observation,
+} from "./storage/observation-repository";
+
+// Bulk export of stored observations. Rows are read from the store a page
+// at a time per location and written to a stream as they are formatted,
+// so large exports never sit in memory in the Worker.
+
+export type ExportFormat = "csv" | "ndjson" | "geojson";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { contentType: string; extension: string }
+> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ndjson: { contentType: "application/x-ndjson", extension: "ndjson" },
+  geojson: { contentType: "application/geo+json", extension: "geojson" },
+};
+
+export interface ExportOptions {
+  locationIds: string[];
+  start: number; // milliseconds, inclusive
+  end: number; // milliseconds, inclusive
+  format: ExportFormat;
+  standardId?: string;
+}
+
+interface ExportRow {
+  locationId: string;
+  lat: number;
+  lon: number;
+  timestamp: string;
+  provider: string;
+  aqi: number | null;
+  level: string | null;
+  dominantPollutant: string | null;
+  components: Record<string, number | null>;
+}
+
+// Rows read from the store per query. A location's range is paged through
+// by timestamp, so empty stretches cost nothing and a year of hourly rows
+// from a couple of providers is a handful of queries.
+const EXPORT_PAGE_SIZE = 5000;
+
+const CSV_COLUMNS = [
+  "location_id",
+  "lat",
+  "lon",
+  "timestamp",
+  "provider",
+  "aqi",
+  "level",
+  "dominant_pollutant",
+  ...OBSERVATION_COMPONENTS,
+];
+
+function csvValue(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toExportRow(observation: Observation, standardId?: string): ExportRow {
+  const standard = getAqiStandard(standardId);
+  const breakdown = standard.calculate(observation.components);
+  const aqi = isFinite(breakdown.aqi) ? breakdown.aqi : null;
+  return {
+    locationId: observation.locationId,
+    lat: observation.lat,
+    lon: observation.lon,
+    timestamp: new Date(observation.timestamp).toISOString(),
+    provider: observation.provider,
+    aqi,
+    level: aqi === null ? null : getAqiCategory(aqi, standard.id).level,
+    dominantPollutant: breakdown.dominantPollutant,
+    components: Object.fromEntries(
+      OBSERVATION_COMPONENTS.map((component) => [
+        component,
+        observation.components[component] ?? null,
+      ])
+    ),
+  };
+}
+
+function formatRow(row: ExportRow, format: ExportFormat, first: boolean) {
+  if (format === "csv") {
+    return (
+      [
+        row.locationId,
+        row.lat,
+        row.lon,
+        row.timestamp,
+        row.provider,
+        row.aqi,
+        row.level,
+        row.dominantPollutant,
+        ...OBSERVATION_COMPONENTS.map((component) => row.components[component]),
+      ]
+        .map(csvValue)
+        .join(",") + "\n"
+    );
+  }
+
+  if (format === "ndjson") {
+    return JSON.stringify(row) + "\n";
+  }
+
+  const { lat, lon, ...properties } = row;
+  const feature = JSON.stringify({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [lon, lat] },
+    properties,
+  });
+  return (first ? "\n" : ",\n") + feature;
+}
+
+const HEADERS: Record<ExportFormat, string> = {
+  csv: CSV_COLUMNS.join(",") + "\n",
+  ndjson: "",
+  geojson: '{"type":"FeatureCollection","features":[',
+};
+
+const FOOTERS: Record<ExportFormat, string> = {
+  csv: "",
+  ndjson: "",
+  geojson: "\n]}\n",
+};
+
+async function* exportChunks(options: ExportOptions): AsyncGenerator<string> {
+  const repository = await getObservationRepository();
+  if (!repository) throw new Error("Observation storage is not configured");
+
+  yield HEADERS[options.format];
+  let first = true;
+  for (const locationId of options.locationIds) {
+    let pageStart = options.start;
+    for (;;) {
+      const page = await repository.find({
+        locationId,
+        start: pageStart,
+        end: options.end,
+        excludeProviders: [CLIENT_PROVIDER],
+        limit: EXPORT_PAGE_SIZE,
+      });
+      const full = page.length === EXPORT_PAGE_SIZE;
+      // Rows sharing the last timestamp may continue past a full page, so
+      // they are left for the next one, which starts at that timestamp
+      let observations = page;
+      if (full) {
+        const last = page[page.length - 1].timestamp;
+        observations = page.filter((row) => row.timestamp < last);
+        pageStart = observations.length > 0 ? last : last + 1;
+        if (observations.length === 0) observations = page;
+      }
+
+      let text = "";
+      for (const observation of observations) {
+        text += formatRow(
+          toExportRow(observation, options.standardId),
+          options.format,
+          first
+        );
+        first = false;
+      }
+      yield text;
+      if (!full) break;
+    }
+  }
+  yield FOOTERS[options.format];
+}
+
+/**
+ * Stream stored observations for a set of locations in the given format.
+ * Each chunk is only read from the store once the consumer asks for it.
+ */
+export function createExportStream(
+  options: ExportOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks = exportChunks(options);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Skip empty chunks: a pull that enqueues nothing is not repeated
+        for (;;) {
+          const { value, done } = await chunks.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          if (value) {
+            controller.enqueue(encoder.encode(value));
+            return;
+          }
+        }
+      } catch (error) {
+        console.error("Export stream failed:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,396 @@
+import { normalCdf } from "./statistics";
+
+// Double seasonal Holt-Winters (Taylor, 2003) for hourly series: a damped
+// trend with a daily (24 hour) and, given two weeks of data, a weekly
+// (168 hour) cycle. Values are modelled as log(1 + value), so the seasonal
+// effects are multiplicative and forecasts never go negative. Smoothing
+// parameters come from a fixed grid, so the same series always gives the
+// same model and the same forecast. Forecast errors are taken as normal on
+// the log scale, with the spread of the one-step residuals.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_HOURS = 24;
+const WEEK_HOURS = 7 * DAY_HOURS;
+
+// Hours of data needed before a seasonal cycle is estimated from the series
+const MIN_DAILY_HOURS = 2 * DAY_HOURS;
+const MIN_WEEKLY_HOURS = 2 * WEEK_HOURS;
+// Damping of the trend, so long horizons level off instead of running away
+const TREND_DAMPING = 0.9;
+
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+const BETAS = [0, 0.01, 0.05];
+const GAMMAS = [0.05, 0.1, 0.2];
+const DELTAS = [0.05, 0.1, 0.2];
+
+export interface SeriesPoint {
+  timestamp: number; // milliseconds
+  value: number;
+}
+
+export interface HourForecast extends SeriesPoint {
+  logMean: number;
+  logSd: number | null;
+}
+
+// Central prediction intervals reported with forecasts, and their normal quantiles
+export const INTERVAL_COVERAGES = ["50", "80", "95"] as const;
+export type IntervalCoverage = (typeof INTERVAL_COVERAGES)[number];
+const INTERVAL_Z: Record<IntervalCoverage, number> = {
+  "50": 0.6745,
+  "80": 1.2816,
+  "95": 1.96,
+};
+
+export interface HoltWintersParameters {
+  alpha: number; // level
+  beta: number; // trend
+  gamma: number; // daily cycle
+  delta: number; // weekly cycle
+  phi: number; // trend damping
+}
+
+export interface HoltWintersModel {
+  parameters: HoltWintersParameters;
+  // Start of the last hour in the series (milliseconds)
+  lastTimestamp: number;
+  level: number;
+  trend: number;
+  // Daily and weekly effects for the hours following lastTimestamp
+  daily: number[];
+  weekly: number[] | null;
+  // Whether the daily cycle was estimated or taken from the prior profile
+  seasonality: "estimated" | "prior";
+  // Hours with an observation, and one-step-ahead errors on the log scale
+  observedHours: number;
+  residuals: SeriesPoint[];
+}
+
+export interface ForecastModelOptions {
+  // Multiplicative effect for the hour starting at a timestamp, used as the
+  // daily cycle when the series is too short to estimate one. Taking the
+  // timestamp lets callers apply the profile in the location's local time.
+  priorDailyProfile?: (timestamp: number) => number;
+  // Smoothing parameters to use instead of searching the grid, e.g. those
+  // of an earlier fit to the same location. Parameters for cycles the
+  // series can't estimate are ignored.
+  parameters?: HoltWintersParameters;
+}
+
+export const toLog = (value: number) => Math.log1p(Math.max(0, value));
+export const fromLog = (value: number) => Math.max(0, Math.expm1(value));
+
+function mean(values: number[]): number {
+  const finite = values.filter((value) => !isNaN(value));
+  return finite.length === 0
+    ? NaN
+    : finite.reduce((sum, value) => sum + value, 0) / finite.length;
+}
+
+/**
+ * Average readings into one value per hour, from the first to the last
+ * reading. Hours without a reading are NaN; the model carries its state
+ * across them instead of filling them in.
+ */
+export function toHourlySeries(points: SeriesPoint[]): {
+  start: number;
+  values: number[];
+} {
+  const hours = new Map<number, number[]>();
+  for (const point of points) {
+    if (!isFinite(point.value)) continue;
+    const hour = Math.floor(point.timestamp / HOUR_MS) * HOUR_MS;
+    if (!hours.has(hour)) hours.set(hour, []);
+    hours.get(hour)!.push(point.value);
+  }
+  if (hours.size === 0) return { start: 0, values: [] };
+
+  const keys = Array.from(hours.keys());
+  const start = keys.reduce((a, b) => Math.min(a, b));
+  const end = keys.reduce((a, b) => Math.max(a, b));
+  const values: number[] = [];
+  for (let hour = start; hour <= end; hour += HOUR_MS) {
+    values.push(hours.has(hour) ? mean(hours.get(hour)!) : NaN);
+  }
+  return { start, values };
+}
+
+interface InitialState {
+  level: number;
+  daily: number[];
+  weekly: number[] | null;
+  seasonality: HoltWintersModel["seasonality"];
+}
+
+/**
+ * Starting level and seasonal effects from the first days (or weeks) of
+ * the series. Effects are indexed by position in the series.
+ */
+function initialState(
+  series: number[],
+  start: number,
+  options: ForecastModelOptions
+): InitialState {
+  const observed = series.filter((value) => !isNaN(value)).length;
+  const level = mean(series.slice(0, Math.min(series.length, WEEK_HOURS)));
+
+  let daily: number[];
+  let seasonality: InitialState["seasonality"] = "estimated";
+  if (observed >= MIN_DAILY_HOURS) {
+    // Average deviation of each hour from its day's mean
+    const days = Math.floor(
+      Math.min(series.length, MIN_WEEKLY_HOURS) / DAY_HOURS
+    );
+    const window = series.slice(0, days * DAY_HOURS);
+    const deviations: number[][] = Array.from({ length: DAY_HOURS }, () => []);
+    for (let day = 0; day < window.length; day += DAY_HOURS) {
+      const dayMean = mean(window.slice(day, day + DAY_HOURS));
+      if (isNaN(dayMean)) continue;
+      for (let hour = 0; hour < DAY_HOURS; hour++) {
+        const value = window[day + hour];
+        if (!isNaN(value)) deviations[hour].push(value - dayMean);
+      }
+    }
+    daily = deviations.map((values) => mean(values) || 0);
+  } else {
+    // Too little data: use the prior profile for the hour of day
+    seasonality = "prior";
+    const profile = Array.from({ length: DAY_HOURS }, (_, index) =>
+      Math.log(options.priorDailyProfile?.(start + index * HOUR_MS) ?? 1)
+    );
+    const profileMean = mean(profile);
+    daily = profile.map((value) => value - profileMean);
+  }
+
+  let weekly: number[] | null = null;
+  if (observed >= MIN_WEEKLY_HOURS && series.length >= MIN_WEEKLY_HOURS) {
+    // What's left of each hour of the week after the daily cycle
+    const window = series.slice(0, MIN_WEEKLY_HOURS);
+    const weekMeans = [0, WEEK_HOURS].map((offset) =>
+      mean(window.slice(offset, offset + WEEK_HOURS))
+    );
+    weekly = Array.from({ length: WEEK_HOURS }, (_, index) =>
+      mean(
+        [0, 1].map(
+          (week) =>
+            window[week * WEEK_HOURS + index] -
+            weekMeans[week] -
+            daily[index % DAY_HOURS]
+        )
+      )
+    ).map((value) => value || 0);
+  }
+
+  return { level: isNaN(level) ? 0 : level, daily, weekly, seasonality };
+}
+
+/**
+ * Run the smoothing equations over the series. Returns the final state
+ * and the one-step-ahead errors at observed hours.
+ */
+function smooth(
+  series: number[],
+  start: number,
+  initial: InitialState,
+  parameters: HoltWintersParameters
+) {
+  const { alpha, beta, gamma, delta, phi } = parameters;
+  const daily = [...initial.daily];
+  const weekly = initial.weekly ? [...initial.weekly] : null;
+  let level = initial.level;
+  let trend = 0;
+  const residuals: SeriesPoint[] = [];
+  let squaredError = 0;
+
+  for (let t = 0; t < series.length; t++) {
+    const d = t % DAY_HOURS;
+    const w = t % WEEK_HOURS;
+    const seasonal = daily[d] + (weekly ? weekly[w] : 0);
+    const predicted = level + phi * trend + seasonal;
+    const value = series[t];
+
+    if (isNaN(value)) {
+      // No reading: carry the state forward unchanged
+      level += phi * trend;
+      trend *= phi;
+      continue;
+    }
+
+    const error = value - predicted;
+    // The first day only sets up the state, so it isn't scored
+    if (t >= DAY_HOURS) {
+      residuals.push({ timestamp: start + t * HOUR_MS, value: error });
+      squaredError += error * error;
+    }
+
+    const previousLevel = level;
+    const previousDaily = daily[d];
+    level =
+      alpha * (value - seasonal) + (1 - alpha) * (previousLevel + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    if (initial.seasonality === "estimated") {
+      daily[d] =
+        gamma * (value - level - (weekly ? weekly[w] : 0)) +
+        (1 - gamma) * daily[d];
+    }
+    if (weekly) {
+      weekly[w] =
+        delta * (value - level - previousDaily) + (1 - delta) * weekly[w];
+    }
+  }
+
+  return { level, trend, daily, weekly, residuals, squaredError };
+}
+
+function rotate(values: number[], offset: number): number[] {
+  const shift = offset % values.length;
+  return [...values.slice(shift), ...values.slice(0, shift)];
+}
+
+/**
+ * Fit the model to readings, choosing the smoothing parameters with the
+ * smallest one-step-ahead squared error. Returns null without readings.
+ */
+export function fitHoltWinters(
+  points: SeriesPoint[],
+  options: ForecastModelOptions = {}
+): HoltWintersModel | null {
+  const { start, values } = toHourlySeries(points);
+  if (values.length === 0) return null;
+
+  const series = values.map((value) => (isNaN(value) ? NaN : toLog(value)));
+  const initial = initialState(series, start, options);
+
+  const grid: HoltWintersParameters[] = [];
+  if (options.parameters) {
+    const estimated = initial.seasonality === "estimated";
+    grid.push({
+      ...options.parameters,
+      beta: estimated ? options.parameters.beta : 0,
+      gamma: estimated ? options.parameters.gamma : 0,
+      delta: initial.weekly ? options.parameters.delta : 0,
+    });
+  }
+  for (const alpha of options.parameters ? [] : ALPHAS) {
+    // Under two days a trend can't be told apart from the daily cycle
+    for (const beta of initial.seasonality === "estimated" ? BETAS : [0]) {
+      for (const gamma of initial.seasonality === "estimated" ? GAMMAS : [0]) {
+        for (const delta of initial.weekly ? DELTAS : [0]) {
+          grid.push({ alpha, beta, gamma, delta, phi: TREND_DAMPING });
+        }
+      }
+    }
+  }
+
+  let best: { parameters: HoltWintersParameters; error: number } | null =
+    grid.length === 1 ? { parameters: grid[0], error: 0 } : null;
+  for (const parameters of grid.length > 1 ? grid : []) {
+    const { squaredError } = smooth(series, start, initial, parameters);
+    if (!best || squaredError < best.error) {
+      best = { parameters, error: squaredError };
+    }
+  }
+
+  const state = smooth(series, start, initial, best!.parameters);
+  // Effects are stored so that index 0 is the hour after the series ends
+  return {
+    parameters: best!.parameters,
+    lastTimestamp: start + (series.length - 1) * HOUR_MS,
+    level: state.level,
+    trend: state.trend,
+    daily: rotate(state.daily, series.length),
+    weekly: state.weekly ? rotate(state.weekly, series.length) : null,
+    seasonality: initial.seasonality,
+    observedHours: series.filter((value) => !isNaN(value)).length,
+    residuals: state.residuals,
+  };
+}
+
+/**
+ * Variance multiplier of the h-step-ahead error relative to the one-step
+ * error, 1 + sum of c_j^2 for j < h, with c_j the effect of one error on
+ * the forecast j hours later (Hyndman et al., 2008, class 1 models)
+ */
+function varianceMultipliers(model: HoltWintersModel, hours: number) {
+  const { alpha, beta, gamma, delta, phi } = model.parameters;
+  const multipliers: number[] = [];
+  let total = 1;
+  let dampedSum = 0;
+  for (let step = 1; step <= hours; step++) {
+    multipliers.push(total);
+    dampedSum += Math.pow(phi, step);
+    const effect =
+      alpha * (1 + beta * dampedSum) +
+      (1 - alpha) *
+        ((step % DAY_HOURS === 0 ? gamma : 0) +
+          (step % WEEK_HOURS === 0 ? delta : 0));
+    total += effect * effect;
+  }
+  return multipliers;
+}
+
+/**
+ * Forecast the hours after the end of the series. Each hour comes with
+ * its mean and standard deviation on the log scale (null when the series
+ * is too short to have residuals); value is the median.
+ */
+export function forecastHoltWinters(
+  model: HoltWintersModel,
+  hours: number
+): HourForecast[] {
+  const { phi } = model.parameters;
+  const variance =
+    model.residuals.length >= 2
+      ? model.residuals.reduce((sum, error) => sum + error.value ** 2, 0) /
+        model.residuals.length
+      : NaN;
+  const multipliers = varianceMultipliers(model, hours);
+
+  const forecast: HourForecast[] = [];
+  let dampedTrend = 0;
+  for (let step = 1; step <= hours; step++) {
+    dampedTrend += Math.pow(phi, step) * model.trend;
+    const index = step - 1;
+    const logMean =
+      model.level +
+      dampedTrend +
+      model.daily[index % DAY_HOURS] +
+      (model.weekly ? model.weekly[index % WEEK_HOURS] : 0);
+    forecast.push({
+      timestamp: model.lastTimestamp + step * HOUR_MS,
+      value: fromLog(logMean),
+      logMean,
+      logSd: isNaN(variance) ? null : Math.sqrt(variance * multipliers[index]),
+    });
+  }
+  return forecast;
+}
+
+/**
+ * Central prediction interval for a forecast hour, null without an error
+ * estimate
+ */
+export function forecastInterval(
+  point: HourForecast,
+  coverage: IntervalCoverage
+): { lower: number; upper: number } | null {
+  if (point.logSd === null) return null;
+  const z = INTERVAL_Z[coverage] * point.logSd;
+  return {
+    lower: fromLog(point.logMean - z),
+    upper: fromLog(point.logMean + z),
+  };
+}
+
+/**
+ * Probability that the value for a forecast hour is at least a threshold,
+ * null without an error estimate
+ */
+export function exceedanceProbability(
+  point: HourForecast,
+  threshold: number
+): number | null {
+  if (point.logSd === null) return null;
+  if (point.logSd === 0) return point.value >= threshold ? 1 : 0;
+  return 1 - normalCdf((toLog(threshold) - point.logMean) / point.logSd);
+}
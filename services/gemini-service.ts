@@ -1,6 +1,7 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { serperService, setSerperApiKey } from "./serper-service";
 import * as airQualityServiceModule from "./air-quality-service";
+import { callUpstream } from "./upstream-client";
 
 // Initialize Gemini API
 let GEMINI_API_KEY: string | undefined = process.env.GEMINI_API_KEY || "";
@@ -50,10 +51,12 @@ export const geminiService = {
   // Fetch articles and generate AI summary
   async getAirQualityNews(
     location: string,
+    place: airQualityServiceModule.LocationRef,
     env?: any
   ): Promise<AirQualityNewsResponse> {
     try {
       console.log(`Fetching news for location: ${location}`);
+      const { locationId } = airQualityServiceModule.resolveLocation(place);
 
       // Debug the environment being passed
       if (env) {
@@ -63,8 +66,8 @@ export const geminiService = {
         console.warn("No environment object was passed to getAirQualityNews");
       }
 
-      // Check cache first
-      const cacheKey = location.toLowerCase();
+      // Check cache first - summaries are per place, not just per name
+      const cacheKey = `${locationId}:${location.toLowerCase()}`;
       const cachedData = newsCache[cacheKey];
       const now = Date.now();
 
@@ -117,75 +120,26 @@ export const geminiService = {
         return cachedData.data;
       }
 
-      // 2. Ensure we have air quality data - if not in global var, try to get it
-      let airQualityData = global.lastAirQualityData;
-
-      console.log(
-        "Air quality data available for summary:",
-        airQualityData ? "Yes" : "No"
-      );
-
-      if (airQualityData) {
+      // 2. Air quality for this location only - stored if recent, otherwise fetched
+      let airQualityData: airQualityServiceModule.AirQualitySnapshot | null =
+        null;
+      try {
+        airQualityData =
+          await airQualityServiceModule.getLocationAirQuality(place);
         console.log(
-          `- AQI: ${airQualityData.aqi}, Level: ${airQualityData.level}`
+          `Air quality for ${airQualityData.locationId} (${airQualityData.provider}): AQI ${airQualityData.aqi}, Level: ${airQualityData.level}`
         );
         console.log(`- PM2.5: ${airQualityData.components.pm2_5} μg/m³`);
-      }
-
-      // If no data is available in global var, try to get the latest data
-      if (!airQualityData) {
-        console.log(
-          "No OpenWeather data available in global var. Getting current data."
-        );
-        try {
-          // Get the current air quality data directly from OpenWeather API
-          // Instead of using hardcoded values
-          const lat = "13.039835226912825"; // Default coords for Ambattur
-          const lon = "80.17812278961485";
-
-          // Use the existing airQualityService to get real-time data
-          const currentData =
-            await airQualityServiceModule.getCurrentAirQuality(lat, lon);
-
-          airQualityData = {
-            aqi: currentData.aqi,
-            level: currentData.level,
-            components: currentData.components,
-            location: currentData.location,
-            timestamp: currentData.timestamp,
-          };
-
-          console.log(
-            "Retrieved real-time air quality data with AQI:",
-            airQualityData.aqi
+        // Don't let a faulty sensor's numbers into the summary
+        if (airQualityData.flags.length > 0) {
+          console.warn(
+            `Leaving flagged reading for ${airQualityData.locationId} out of the summary`
           );
-          console.log("Real-time pollutant levels:", {
-            "PM2.5": airQualityData.components.pm2_5,
-            PM10: airQualityData.components.pm10,
-            CO: airQualityData.components.co,
-            O3: airQualityData.components.o3,
-          });
-        } catch (fetchError) {
-          console.error("Error fetching current air quality:", fetchError);
-          // Fall back to default data only if API call fails
-          airQualityData = {
-            aqi: 50,
-            level: "Moderate",
-            components: {
-              co: 200,
-              no: 0.5,
-              no2: 10,
-              o3: 50,
-              so2: 5,
-              pm2_5: 25,
-              pm10: 30,
-              nh3: 1.0,
-            },
-            location: { lat: "0", lon: "0" },
-            timestamp: Date.now(),
-          };
-          console.log("Using fallback data due to API error");
+          airQualityData = null;
         }
+      } catch (fetchError) {
+        // Summarise the articles alone rather than with another location's numbers
+        console.error("Error fetching current air quality:", fetchError);
       }
 
       // 3. Generate AI summary from both data sources - let errors propagate
@@ -220,8 +174,13 @@ export const geminiService = {
       console.error("Error in getAirQualityNews:", error);
 
       // Check if we have cached data to fall back to
-      const cacheKey = location.toLowerCase();
-      const cachedData = newsCache[cacheKey];
+      let cachedData: (typeof newsCache)[string] | undefined;
+      try {
+        const { locationId } = airQualityServiceModule.resolveLocation(place);
+        cachedData = newsCache[`${locationId}:${location.toLowerCase()}`];
+      } catch {
+        cachedData = undefined;
+      }
 
       if (cachedData) {
         console.log(`API error, falling back to cached data for ${location}`);
@@ -242,7 +201,7 @@ export const geminiService = {
 // Generate AI summary using Gemini
 async function generateAirQualitySummary(
   location: string,
-  airQualityData: any,
+  airQualityData: airQualityServiceModule.AirQualitySnapshot | null,
   searchResults: any[]
 ): Promise<string> {
   // Check if Gemini API is available
@@ -262,7 +221,8 @@ async function generateAirQualitySummary(
   }
 
   // Create air quality context using the passed data
-  const openWeatherContext = `
+  const openWeatherContext = airQualityData
+    ? `
     Current Air Quality Index (AQI): ${airQualityData.aqi}
     Quality Level: ${airQualityData.level}
     Pollutant Components:
@@ -272,7 +232,8 @@ async function generateAirQualitySummary(
     - NO2 (Nitrogen Dioxide): ${airQualityData.components.no2} μg/m³
     - SO2 (Sulfur Dioxide): ${airQualityData.components.so2} μg/m³
     - CO (Carbon Monoxide): ${airQualityData.components.co} μg/m³
-  `;
+  `
+    : "No current readings are available for this location.";
 
   // Create context from search results
   const articleContext =
@@ -284,9 +245,10 @@ async function generateAirQualitySummary(
           .join("\n\n")
       : "No recent news articles available for this location.";
 
-  console.log("Creating AI summary with OpenWeather data available");
   console.log(
-    `Air quality in ${location}: AQI ${airQualityData.aqi}, Level: ${airQualityData.level}`
+    airQualityData
+      ? `Air quality in ${location}: AQI ${airQualityData.aqi}, Level: ${airQualityData.level}`
+      : `No air quality readings for ${location}, summarising articles only`
   );
   console.log(
     "Number of articles for summary:",
@@ -299,15 +261,13 @@ async function generateAirQualitySummary(
     
     Your summary MUST be structured in exactly TWO paragraphs:
     
-    PARAGRAPH 1: Analyze the OpenWeather data provided. You MUST mention the specific AQI value of ${
-      airQualityData.aqi
-    } 
-    and the air quality level "${
-      airQualityData.level
-    }". Explain what this means for residents and which pollutants 
-    (like PM2.5 at ${
-      airQualityData.components.pm2_5
-    } μg/m³) are most significant.
+    PARAGRAPH 1: ${
+      airQualityData
+        ? `Analyze the OpenWeather data provided. You MUST mention the specific AQI value of ${airQualityData.aqi} 
+    and the air quality level "${airQualityData.level}". Explain what this means for residents and which pollutants 
+    (like PM2.5 at ${airQualityData.components.pm2_5} μg/m³) are most significant.`
+        : "Describe the air quality situation reported in the news articles. Do not invent AQI values or pollutant concentrations."
+    }
     
     PARAGRAPH 2: ${
       searchResults && searchResults.length > 0
@@ -330,59 +290,43 @@ async function generateAirQualitySummary(
     ${articleContext}
   `;
 
-  // Add retry logic for Gemini API with exponential backoff
-  let attempts = 0;
-  const maxAttempts = 3; // Increase to 3 attempts
-  let lastError: any = null;
-  const baseDelay = 1000; // 1 second
+  // Retries, backoff and the time budget come from the shared upstream client
+  try {
+    return await callUpstream(
+      "generativelanguage.googleapis.com",
+      async () => {
+        const result = await model.generateContent({
+          contents: [{ role: "user", parts: [{ text: prompt }] }],
+          generationConfig: {
+            temperature: 0.2,
+            maxOutputTokens: 800,
+          },
+        });
+
+        const summaryText = result.response.text().trim();
+
+        // Validate we got a real response, not just an error message
+        if (summaryText.length < 50) {
+          console.warn(
+            "Gemini response too short, may be an error:",
+            summaryText
+          );
+          throw new Error("Response too short, likely an error");
+        }
 
-  while (attempts < maxAttempts) {
-    try {
-      attempts++;
-      console.log(`Gemini API attempt ${attempts}/${maxAttempts}`);
-
-      // Request with correct format
-      const result = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 800,
-        },
-      });
-
-      const summaryText = result.response.text().trim();
-
-      // Validate we got a real response, not just an error message
-      if (summaryText.length < 50) {
-        console.warn(
-          "Gemini response too short, may be an error:",
-          summaryText
+        console.log(
+          "✓ Received valid summary from Gemini API:",
+          summaryText.substring(0, 100) + "..."
         );
-        throw new Error("Response too short, likely an error");
-      }
-
-      console.log(
-        "✓ Received valid summary from Gemini API:",
-        summaryText.substring(0, 100) + "..."
-      );
 
-      return summaryText;
-    } catch (attemptError) {
-      console.error(`Gemini API attempt ${attempts} failed:`, attemptError);
-      lastError = attemptError;
-
-      // Wait before retrying with exponential backoff
-      if (attempts < maxAttempts) {
-        const delay = baseDelay * Math.pow(2, attempts - 1); // Exponential backoff
-        console.log(`Waiting ${delay}ms before next attempt...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
+        return summaryText;
+      },
+      { name: "Gemini API", attemptTimeoutMs: 15000, deadlineMs: 25000 }
+    );
+  } catch (error: any) {
+    console.error("All Gemini API attempts failed:", error);
+    throw new Error(`API Error: ${error?.message || "Unknown error"}`);
   }
-
-  // If we get here, all attempts failed - throw the error
-  console.error("All Gemini API attempts failed:", lastError);
-  throw new Error(`API Error: ${lastError?.message || "Unknown error"}`);
 }
 
 // Create mock results when APIs fail
@@ -0,0 +1,69 @@
+// Geohash encoding, used to group nearby coordinates under one key
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Encode a coordinate as a geohash. Precision 6 is a cell of roughly
+ * 1.2 km x 0.6 km, precision 5 roughly 4.9 km x 4.9 km.
+ */
+export function encodeGeohash(lat: number, lon: number, precision = 6): string {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    // Bits alternate between longitude and latitude, starting with longitude
+    const range = evenBit ? lonRange : latRange;
+    const value = evenBit ? lon : lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (value >= mid) {
+      bits = (bits << 1) | 1;
+      range[0] = mid;
+    } else {
+      bits = bits << 1;
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Decode a geohash to the centre of its cell, or null if it contains
+ * characters outside the geohash alphabet
+ */
+export function decodeGeohash(
+  hash: string
+): { lat: number; lon: number } | null {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const bits = BASE32.indexOf(char);
+    if (bits === -1) return null;
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lonRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+      if ((bits >> bit) & 1) {
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+  return {
+    lat: (latRange[0] + latRange[1]) / 2,
+    lon: (lonRange[0] + lonRange[1]) / 2,
+  };
+}
@@ -0,0 +1,689 @@
+import { recordImportedReadings } from "./air-quality-service";
+import { ConcentrationUnit, toMicrogramsPerCubicMetre } from "./aqi-calculator";
+import { ProviderReading } from "./providers/types";
+import { getRawRetentionCutoff } from "./retention";
+import { locationIdFor } from "./storage/observation-repository";
+import { fromLocalTime, resolveTimeZone } from "./timezone";
+
+// Backfilling from monitoring station files (e.g. CPCB CSV downloads).
+// Columns are mapped to pollutants by name or explicitly, concentrations
+// are converted to μg/m³ and local timestamps to UTC, and every row that
+// can't be used is reported with the reason instead of being dropped
+// silently.
+
+export type ImportFormat = "csv" | "json";
+export type DateOrder = "ymd" | "dmy" | "mdy";
+
+const IMPORT_POLLUTANTS = [
+  "co",
+  "no",
+  "no2",
+  "o3",
+  "so2",
+  "pm2_5",
+  "pm10",
+  "nh3",
+] as const;
+type ImportPollutant = (typeof IMPORT_POLLUTANTS)[number];
+
+export type ImportField =
+  "timestamp" | "date" | "time" | "lat" | "lon" | "station" | ImportPollutant;
+
+export interface ImportOptions {
+  format: ImportFormat;
+  // Source column for each field; unmapped fields are matched by name
+  columns?: Partial<Record<ImportField, string>>;
+  // Units of the source values; otherwise read from the header or μg/m³
+  units?: Partial<Record<ImportPollutant, ConcentrationUnit>>;
+  // Zone of timestamps without an offset (IANA name or UTC offset)
+  timeZone?: string;
+  dateOrder?: DateOrder;
+  // Station location for files without coordinate columns
+  lat?: string;
+  lon?: string;
+  station?: string;
+  provider?: string;
+}
+
+/**
+ * Error thrown when the file or the options can't be imported as given,
+ * as opposed to a failure to store the rows
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export interface ImportRejection {
+  row: number;
+  reason: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  provider: string;
+  totalRows: number;
+  accepted: number;
+  rejected: number;
+  stored: number;
+  timeZone: string;
+  columns: Partial<Record<ImportField, string>>;
+  units: Partial<Record<ImportPollutant, ConcentrationUnit>>;
+  warnings: string[];
+  // Accepted rows older than the raw retention window
+  olderThanRetention: number;
+  locations: {
+    locationId: string;
+    lat: string;
+    lon: string;
+    station: string | null;
+    rows: number;
+    first: string;
+    last: string;
+  }[];
+  rejectionCounts: Record<string, number>;
+  // The first MAX_REPORTED_REJECTIONS rejected rows
+  rejections: ImportRejection[];
+}
+
+/**
+ * Defaults for known sources, overridden by explicit options
+ */
+export const IMPORT_PRESETS: Record<string, Partial<ImportOptions>> = {
+  // CPCB CCR station downloads: hourly averages starting at "From Date",
+  // in IST, with CO in mg/m³
+  cpcb: {
+    columns: {
+      timestamp: "From Date",
+      pm2_5: "PM2.5",
+      pm10: "PM10",
+      no: "NO",
+      no2: "NO2",
+      nh3: "NH3",
+      so2: "SO2",
+      co: "CO",
+      o3: "Ozone",
+    },
+    units: { co: "mg/m³" },
+    timeZone: "Asia/Kolkata",
+    dateOrder: "dmy",
+    provider: "cpcb",
+  },
+};
+
+// Header names recognised for each field, compared without case,
+// punctuation or a trailing "(unit)"
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  timestamp: ["timestamp", "datetime", "fromdate", "startdate", "lastupdate"],
+  date: ["date"],
+  time: ["time", "hour"],
+  lat: ["lat", "latitude"],
+  lon: ["lon", "lng", "long", "longitude"],
+  station: ["station", "stationname", "site", "sitename"],
+  co: ["co"],
+  no: ["no"],
+  no2: ["no2"],
+  o3: ["o3", "ozone"],
+  so2: ["so2"],
+  pm2_5: ["pm25", "pm2_5"],
+  pm10: ["pm10"],
+  nh3: ["nh3"],
+};
+
+// Unit spellings accepted in the units option
+const UNIT_SPELLINGS: Record<string, ConcentrationUnit> = {
+  "ug/m3": "μg/m³",
+  "mg/m3": "mg/m³",
+  ppb: "ppb",
+  ppm: "ppm",
+};
+
+const MISSING_VALUES = new Set(["", "na", "n/a", "none", "null", "nan", "-"]);
+const MAX_REPORTED_REJECTIONS = 1000;
+// Rows searched for the header line, past any title lines
+const MAX_HEADER_SEARCH_ROWS = 20;
+const RECORD_BATCH_SIZE = 500;
+
+function normaliseHeader(header: string): string {
+  return header
+    .replace(/\(.*\)|\[.*\]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function unitFromHeader(header: string): ConcentrationUnit | null {
+  const text = header.toLowerCase();
+  if (/mg\/m/.test(text)) return "mg/m³";
+  if (/ppb/.test(text)) return "ppb";
+  if (/ppm/.test(text)) return "ppm";
+  if (/(µ|μ|u)g\/m/.test(text)) return "μg/m³";
+  return null;
+}
+
+// Particulates can't be given in ppb or ppm
+function isConvertible(
+  unit: ConcentrationUnit,
+  pollutant: ImportPollutant
+): boolean {
+  try {
+    toMicrogramsPerCubicMetre(1, pollutant, unit);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, LF or CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Records as column -> value maps with their row number in the source
+function readRecords(
+  content: string,
+  format: ImportFormat
+): { row: number; values: Record<string, string> }[] {
+  const text = content.replace(/^\uFEFF/, "");
+
+  if (format === "json") {
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new ImportError(
+        `Invalid JSON: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    const items: unknown[] = Array.isArray(parsed)
+      ? parsed
+      : parsed?.records || parsed?.data || parsed?.results;
+    if (!Array.isArray(items)) {
+      throw new ImportError(
+        "JSON import must be an array of objects or have a records array"
+      );
+    }
+    return items.map((item, index) => ({
+      row: index + 1,
+      values: Object.fromEntries(
+        Object.entries((item as Record<string, unknown>) || {}).map(
+          ([key, value]) => [key, value === null ? "" : String(value)]
+        )
+      ),
+    }));
+  }
+
+  const rows = parseCsv(text);
+  // Skip title lines above the header: the header is the first row with a
+  // recognisable time column
+  const timeAliases = [
+    ...FIELD_ALIASES.timestamp,
+    ...FIELD_ALIASES.date,
+    "todate",
+  ];
+  let headerIndex = rows
+    .slice(0, MAX_HEADER_SEARCH_ROWS)
+    .findIndex((row) =>
+      row.some((cell) => timeAliases.includes(normaliseHeader(cell)))
+    );
+  if (headerIndex === -1) headerIndex = 0;
+
+  const header = (rows[headerIndex] || []).map((cell) => cell.trim());
+  return rows
+    .slice(headerIndex + 1)
+    .map((cells, index) => ({
+      row: headerIndex + index + 2,
+      values: Object.fromEntries(
+        header.map((column, columnIndex) => [
+          column,
+          (cells[columnIndex] ?? "").trim(),
+        ])
+      ),
+    }))
+    .filter((record) =>
+      Object.values(record.values).some((value) => value !== "")
+    );
+}
+
+function resolveColumns(
+  headers: string[],
+  explicit: Partial<Record<ImportField, string>>
+): Partial<Record<ImportField, string>> {
+  const columns: Partial<Record<ImportField, string>> = {};
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    const wanted = explicit[field];
+    const match = wanted
+      ? headers.find(
+          (header) =>
+            header === wanted ||
+            normaliseHeader(header) === normaliseHeader(wanted)
+        )
+      : headers.find((header) =>
+          FIELD_ALIASES[field].includes(normaliseHeader(header))
+        );
+    if (match) columns[field] = match;
+  }
+  return columns;
+}
+
+const DATE_PATTERN =
+  /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Local wall-clock time as milliseconds-as-if-UTC, or an absolute instant
+ * when the text carries its own offset
+ */
+function parseTimestampValue(
+  text: string,
+  dateOrder: DateOrder
+): { value: number; absolute: boolean } | null {
+  if (/^\d{9,13}$/.test(text)) {
+    const numeric = Number(text);
+    return {
+      value: numeric > 1e12 ? numeric : numeric * 1000,
+      absolute: true,
+    };
+  }
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text) && /\d{4}-\d{2}-\d{2}T/.test(text)) {
+    const parsed = Date.parse(text);
+    return isNaN(parsed) ? null : { value: parsed, absolute: true };
+  }
+
+  const match = text.match(DATE_PATTERN);
+  if (!match) return null;
+  const [first, second, third] = [match[1], match[2], match[3]].map(Number);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (match[1].length === 4 || dateOrder === "ymd") {
+    [year, month, day] = [first, second, third];
+  } else if (dateOrder === "mdy") {
+    [month, day, year] = [first, second, third];
+  } else {
+    [day, month, year] = [first, second, third];
+  }
+  if (year < 100) year += 2000;
+
+  const hour = Number(match[4] || 0);
+  const minute = Number(match[5] || 0);
+  const seconds = Number(match[6] || 0);
+  if (month < 1 || month > 12 || hour > 24 || minute > 59 || seconds > 59) {
+    return null;
+  }
+  // Reject days that don't exist, e.g. 31-02
+  const dayStart = Date.UTC(year, month - 1, day);
+  if (new Date(dayStart).getUTCDate() !== day) return null;
+
+  // Hour 24 (end-of-day notation) rolls over to the next day
+  const value = dayStart + ((hour * 60 + minute) * 60 + seconds) * 1000;
+  return { value, absolute: false };
+}
+
+/**
+ * Parse, validate and (unless dryRun) store a station file. Rejected rows
+ * are listed in the report with the reason.
+ */
+export async function importObservations(
+  content: string,
+  options: ImportOptions,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const provider = options.provider || "import";
+  const dateOrder = options.dateOrder || "dmy";
+  const warnings: string[] = [];
+
+  const records = readRecords(content, options.format);
+  const headers = Array.from(
+    new Set(records.flatMap((record) => Object.keys(record.values)))
+  );
+  const columns = resolveColumns(headers, options.columns || {});
+
+  for (const [field, column] of Object.entries(options.columns || {})) {
+    if (!columns[field as ImportField]) {
+      warnings.push(`Column "${column}" for ${field} was not found`);
+    }
+  }
+  if (!columns.timestamp && !columns.date) {
+    throw new ImportError("No timestamp or date column found");
+  }
+  const pollutants = IMPORT_POLLUTANTS.filter(
+    (pollutant) => columns[pollutant]
+  );
+  if (pollutants.length === 0) {
+    throw new ImportError("No pollutant columns found");
+  }
+
+  const units: Partial<Record<ImportPollutant, ConcentrationUnit>> = {};
+  for (const pollutant of pollutants) {
+    const unit =
+      options.units?.[pollutant] ||
+      unitFromHeader(columns[pollutant]!) ||
+      "μg/m³";
+    if (!isConvertible(unit, pollutant)) {
+      throw new ImportError(`${pollutant} cannot be given in ${unit}`);
+    }
+    units[pollutant] = unit;
+  }
+
+  if (
+    !columns.lat &&
+    (options.lat === undefined || options.lon === undefined)
+  ) {
+    throw new ImportError("No coordinate columns found; pass lat and lon");
+  }
+  const zone = resolveTimeZone(
+    options.timeZone,
+    options.lat ?? records[0]?.values[columns.lat || ""] ?? 0,
+    options.lon ?? records[0]?.values[columns.lon || ""] ?? 0
+  );
+  if (!zone) throw new ImportError(`Unknown time zone: ${options.timeZone}`);
+  if (zone.source !== "param") {
+    warnings.push(
+      `No time zone given; local timestamps are read as ${zone.id} (${
+        zone.source === "lookup"
+          ? "the zone at the first row's coordinates"
+          : "estimated from longitude"
+      })`
+    );
+  }
+
+  const rejections: ImportRejection[] = [];
+  const rejectionCounts: Record<string, number> = {};
+  let rejected = 0;
+  const reject = (row: number, reason: string, kind = reason) => {
+    rejected++;
+    rejectionCounts[kind] = (rejectionCounts[kind] || 0) + 1;
+    if (rejections.length < MAX_REPORTED_REJECTIONS) {
+      rejections.push({ row, reason });
+    }
+  };
+
+  const groups = new Map<
+    string,
+    {
+      lat: string;
+      lon: string;
+      station: string | null;
+      readings: ProviderReading[];
+      seen: Set<number>;
+    }
+  >();
+  const now = Date.now();
+
+  for (const { row, values } of records) {
+    const lat = columns.lat ? values[columns.lat] : options.lat!;
+    const lon = columns.lon ? values[columns.lon] : options.lon!;
+    const latNumber = Number(lat);
+    const lonNumber = Number(lon);
+    if (
+      !lat ||
+      !lon ||
+      !isFinite(latNumber) ||
+      !isFinite(lonNumber) ||
+      Math.abs(latNumber) > 90 ||
+      Math.abs(lonNumber) > 180
+    ) {
+      reject(
+        row,
+        `invalid coordinates '${lat}', '${lon}'`,
+        "invalid coordinates"
+      );
+      continue;
+    }
+
+    const timeText = columns.timestamp
+      ? values[columns.timestamp]
+      : `${values[columns.date!]} ${
+          columns.time ? values[columns.time] : "00:00"
+        }`.trim();
+    if (!timeText) {
+      reject(row, "missing timestamp");
+      continue;
+    }
+    const parsed = parseTimestampValue(timeText, dateOrder);
+    if (!parsed) {
+      reject(
+        row,
+        `unparseable timestamp '${timeText}'`,
+        "unparseable timestamp"
+      );
+      continue;
+    }
+    const timestamp = parsed.absolute
+      ? parsed.value
+      : fromLocalTime(parsed.value, zone);
+    if (timestamp > now) {
+      reject(
+        row,
+        `timestamp in the future '${timeText}'`,
+        "timestamp in the future"
+      );
+      continue;
+    }
+
+    const components: Record<string, number> = {};
+    let invalid: string | null = null;
+    for (const pollutant of pollutants) {
+      const text = values[columns[pollutant]!] ?? "";
+      if (MISSING_VALUES.has(text.toLowerCase())) continue;
+      const value = Number(text);
+      if (!isFinite(value)) {
+        invalid = `invalid ${pollutant} value '${text}'`;
+        break;
+      }
+      if (value < 0) {
+        invalid = `negative ${pollutant} value '${text}'`;
+        break;
+      }
+      const converted = toMicrogramsPerCubicMetre(
+        value,
+        pollutant,
+        units[pollutant]!
+      );
+      components[pollutant] = Math.round(converted * 100) / 100;
+    }
+    if (invalid) {
+      reject(row, invalid, invalid.replace(/ '.*'$/, ""));
+      continue;
+    }
+    if (Object.keys(components).length === 0) {
+      reject(row, "no pollutant values");
+      continue;
+    }
+
+    const locationId = locationIdFor(lat, lon);
+    if (!groups.has(locationId)) {
+      groups.set(locationId, {
+        lat: String(latNumber),
+        lon: String(lonNumber),
+        station:
+          (columns.station ? values[columns.station] : options.station) || null,
+        readings: [],
+        seen: new Set(),
+      });
+    }
+    const group = groups.get(locationId)!;
+    if (group.seen.has(timestamp)) {
+      reject(row, `duplicate timestamp '${timeText}'`, "duplicate timestamp");
+      continue;
+    }
+    group.seen.add(timestamp);
+    group.readings.push({ timestamp, components });
+  }
+
+  let stored = 0;
+  if (!dryRun) {
+    for (const group of groups.values()) {
+      for (let i = 0; i < group.readings.length; i += RECORD_BATCH_SIZE) {
+        stored += await recordImportedReadings(
+          group.lat,
+          group.lon,
+          group.readings.slice(i, i + RECORD_BATCH_SIZE),
+          provider
+        );
+      }
+    }
+    console.log(`Imported ${stored} observations (${provider})`);
+  }
+
+  const accepted = Array.from(groups.values()).reduce(
+    (sum, group) => sum + group.readings.length,
+    0
+  );
+  const cutoff = getRawRetentionCutoff(now);
+  const olderThanRetention = Array.from(groups.values()).reduce(
+    (sum, group) =>
+      sum +
+      group.readings.filter((reading) => reading.timestamp < cutoff).length,
+    0
+  );
+  if (olderThanRetention > 0) {
+    warnings.push(
+      `${olderThanRetention} rows are older than the raw retention window (before ${new Date(
+        cutoff
+      ).toISOString()}); the next retention run, within the hour, rolls them up into daily summaries and deletes the hourly rows; hours a stored summary already covers are dropped, not counted again`
+    );
+  }
+  return {
+    dryRun,
+    provider,
+    totalRows: records.length,
+    accepted,
+    rejected,
+    stored,
+    timeZone: zone.id,
+    columns,
+    units,
+    warnings,
+    olderThanRetention,
+    locations: Array.from(groups.entries()).map(([locationId, group]) => {
+      const timestamps = group.readings.map((reading) => reading.timestamp);
+      const first = timestamps.reduce((a, b) => Math.min(a, b));
+      const last = timestamps.reduce((a, b) => Math.max(a, b));
+      return {
+        locationId,
+        lat: group.lat,
+        lon: group.lon,
+        station: group.station,
+        rows: group.readings.length,
+        first: new Date(first).toISOString(),
+        last: new Date(last).toISOString(),
+      };
+    }),
+    rejectionCounts,
+    rejections,
+  };
+}
+
+function parseMapping(value: string | undefined): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const pair of value?.split(",") || []) {
+    const separator = pair.indexOf(":");
+    if (separator === -1) continue;
+    mapping[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return mapping;
+}
+
+/**
+ * Build import options from string parameters (query parameters or
+ * command line flags): format, preset, columns=field:Column,...,
+ * units=pollutant:unit,..., tz, dateOrder, lat, lon, station, provider.
+ * Throws on values that can't be used.
+ */
+export function parseImportOptions(
+  params: Record<string, string | undefined>
+): ImportOptions {
+  // Own keys only: "constructor" or "toString" are not presets
+  if (params.preset && !Object.hasOwn(IMPORT_PRESETS, params.preset)) {
+    throw new ImportError(
+      `Unknown preset: ${params.preset}. Supported presets: ${Object.keys(
+        IMPORT_PRESETS
+      ).join(", ")}`
+    );
+  }
+  const preset = params.preset ? IMPORT_PRESETS[params.preset] : {};
+
+  const format = (params.format || "csv").toLowerCase();
+  if (format !== "csv" && format !== "json") {
+    throw new ImportError("Invalid format. Expected: csv or json");
+  }
+
+  const columns = parseMapping(params.columns);
+  for (const field of Object.keys(columns)) {
+    if (!Object.hasOwn(FIELD_ALIASES, field)) {
+      throw new ImportError(`Unknown column field: ${field}`);
+    }
+  }
+
+  const units: Partial<Record<ImportPollutant, ConcentrationUnit>> = {};
+  for (const [pollutant, unit] of Object.entries(parseMapping(params.units))) {
+    if (!(IMPORT_POLLUTANTS as readonly string[]).includes(pollutant)) {
+      throw new ImportError(`Unknown pollutant in units: ${pollutant}`);
+    }
+    if (!Object.hasOwn(UNIT_SPELLINGS, unit.toLowerCase())) {
+      throw new ImportError(
+        `Unknown unit for ${pollutant}: ${unit}. Expected: ug/m3, mg/m3, ppb or ppm`
+      );
+    }
+    units[pollutant as ImportPollutant] = UNIT_SPELLINGS[unit.toLowerCase()];
+  }
+
+  const dateOrder = params.dateOrder || preset.dateOrder;
+  if (dateOrder && !["ymd", "dmy", "mdy"].includes(dateOrder)) {
+    throw new ImportError("Invalid dateOrder. Expected: ymd, dmy or mdy");
+  }
+  if ((params.lat === undefined) !== (params.lon === undefined)) {
+    throw new ImportError("lat and lon must be given together");
+  }
+
+  return {
+    format,
+    columns: { ...preset.columns, ...columns },
+    units: { ...preset.units, ...units },
+    timeZone: params.tz || preset.timeZone,
+    dateOrder: dateOrder as DateOrder | undefined,
+    lat: params.lat,
+    lon: params.lon,
+    station: params.station,
+    provider: params.provider || preset.provider,
+  };
+}
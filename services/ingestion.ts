@@ -0,0 +1,252 @@
+import {
+  getAirQualityForecast,
+  getCurrentAirQuality,
+} from "./air-quality-service";
+import { mapWithConcurrency } from "./concurrency";
+import { getCurrentWeather } from "./weather-service";
+import { getIngestRunRepository, getObservationRepository } from "./storage";
+import { IngestFailure, IngestRun } from "./storage/ingest-run-repository";
+import {
+  CLIENT_PROVIDER,
+  locationIdFor,
+} from "./storage/observation-repository";
+
+// Scheduled collection of readings for a watchlist of monitoring points, so
+// history builds up even when nobody is looking at the dashboard. The
+// Worker runs it from a cron trigger, the Node server from a timer.
+
+export interface WatchPoint {
+  name: string;
+  lat: string;
+  lon: string;
+}
+
+// Points polled in parallel; each point makes three upstream calls
+const INGEST_CONCURRENCY = 3;
+const DEFAULT_INTERVAL_MINUTES = 60;
+// Runs kept in memory when no storage is configured
+const MAX_MEMORY_RUNS = 20;
+// Runs considered when counting recent failures per point
+const STATUS_RECENT_RUNS = 10;
+
+let watchlist: WatchPoint[] = [];
+let intervalMinutes = DEFAULT_INTERVAL_MINUTES;
+let inFlight: Promise<IngestRun> | null = null;
+const memoryRuns: IngestRun[] = [];
+
+/**
+ * Parse a watchlist given as a JSON array of { name, lat, lon }. Invalid
+ * entries are skipped with a warning.
+ */
+export function parseWatchlist(value: string): WatchPoint[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch {
+    console.warn("INGEST_WATCHLIST is not valid JSON, ignoring it");
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.warn("INGEST_WATCHLIST must be a JSON array, ignoring it");
+    return [];
+  }
+
+  const points: WatchPoint[] = [];
+  entries.forEach((entry, index) => {
+    const lat = Number(entry?.lat);
+    const lon = Number(entry?.lon);
+    if (
+      !isFinite(lat) ||
+      !isFinite(lon) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lon) > 180
+    ) {
+      console.warn(`Skipping watchlist entry ${index}: invalid coordinates`);
+      return;
+    }
+    points.push({
+      name:
+        typeof entry.name === "string" && entry.name.trim()
+          ? entry.name.trim()
+          : `${lat},${lon}`,
+      lat: String(lat),
+      lon: String(lon),
+    });
+  });
+  return points;
+}
+
+export function setWatchlist(points: WatchPoint[]) {
+  watchlist = points;
+}
+
+export function getWatchlist(): WatchPoint[] {
+  return watchlist;
+}
+
+/**
+ * Read the watchlist and polling interval from the environment
+ */
+export function configureIngestion(env?: Record<string, unknown>) {
+  if (!env) return;
+  if (typeof env.INGEST_WATCHLIST === "string") {
+    setWatchlist(parseWatchlist(env.INGEST_WATCHLIST));
+  }
+  const interval = Number(env.INGEST_INTERVAL_MINUTES);
+  if (isFinite(interval) && interval > 0) {
+    intervalMinutes = interval;
+  }
+}
+
+export function getIngestIntervalMs(): number {
+  return intervalMinutes * 60 * 1000;
+}
+
+async function ingestPoint(point: WatchPoint): Promise<IngestFailure[]> {
+  const failures: IngestFailure[] = [];
+  const operations = [
+    ["current", () => getCurrentAirQuality(point.lat, point.lon)],
+    ["forecast", () => getAirQualityForecast(point.lat, point.lon)],
+    ["weather", () => getCurrentWeather(point.lat, point.lon)],
+  ] as const;
+
+  // The calls fail independently; each is stored as it is fetched
+  for (const [operation, fetch] of operations) {
+    try {
+      await fetch();
+    } catch (error) {
+      failures.push({
+        name: point.name,
+        operation,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return failures;
+}
+
+async function recordRun(run: IngestRun) {
+  memoryRuns.unshift(run);
+  memoryRuns.length = Math.min(memoryRuns.length, MAX_MEMORY_RUNS);
+  try {
+    const repository = await getIngestRunRepository();
+    await repository?.record(run);
+  } catch (error) {
+    console.error("Failed to record ingest run:", error);
+  }
+}
+
+/**
+ * Poll every watchlist point once. A run that starts while another is in
+ * progress in this process joins it instead of polling twice.
+ */
+export function runIngestion(trigger: string): Promise<IngestRun> {
+  if (inFlight) return inFlight;
+
+  inFlight = (async () => {
+    const points = watchlist;
+    const startedAt = Date.now();
+    console.log(`Ingest run (${trigger}) for ${points.length} points`);
+
+    const results = await mapWithConcurrency(
+      points,
+      INGEST_CONCURRENCY,
+      ingestPoint
+    );
+    const failures = results.flatMap((result) =>
+      result.status === "fulfilled" ? result.value : []
+    );
+    const failedPoints = new Set(failures.map((failure) => failure.name));
+
+    const run: IngestRun = {
+      trigger,
+      startedAt,
+      finishedAt: Date.now(),
+      points: points.length,
+      succeeded: points.length - failedPoints.size,
+      failed: failedPoints.size,
+      failures,
+    };
+    console.log(
+      `Ingest run finished: ${run.succeeded}/${run.points} points, ${failures.length} failed calls`
+    );
+    await recordRun(run);
+    return run;
+  })().finally(() => {
+    inFlight = null;
+  });
+
+  return inFlight;
+}
+
+async function recentRuns(limit: number): Promise<IngestRun[]> {
+  try {
+    const repository = await getIngestRunRepository();
+    if (repository) return await repository.recent(limit);
+  } catch (error) {
+    console.error("Failed to read ingest runs:", error);
+  }
+  return memoryRuns.slice(0, limit);
+}
+
+async function lastReadingAt(point: WatchPoint): Promise<number | null> {
+  const repository = await getObservationRepository();
+  if (!repository) return null;
+  const [observation] = await repository.find({
+    locationId: locationIdFor(point.lat, point.lon),
+    excludeProviders: [CLIENT_PROVIDER],
+    order: "desc",
+    limit: 1,
+  });
+  return observation?.timestamp ?? null;
+}
+
+/**
+ * Last run, recent failures per point and the backlog of points whose
+ * latest stored reading is more than two polling intervals old
+ */
+export async function getIngestionStatus() {
+  const now = Date.now();
+  const intervalMs = getIngestIntervalMs();
+  const runs = await recentRuns(STATUS_RECENT_RUNS);
+
+  const points = await Promise.all(
+    watchlist.map(async (point) => {
+      let lastReading: number | null = null;
+      try {
+        lastReading = await lastReadingAt(point);
+      } catch (error) {
+        console.error(
+          `Failed to read latest reading for ${point.name}:`,
+          error
+        );
+      }
+      const recentFailures = runs.filter((run) =>
+        run.failures.some((failure) => failure.name === point.name)
+      ).length;
+      return {
+        ...point,
+        locationId: locationIdFor(point.lat, point.lon),
+        lastReadingAt: lastReading,
+        // Readings are timestamped by the provider, so allow one missed run
+        overdue: lastReading === null || now - lastReading > 2 * intervalMs,
+        recentFailures,
+      };
+    })
+  );
+
+  const overdue = points.filter((point) => point.overdue);
+  return {
+    enabled: watchlist.length > 0,
+    running: inFlight !== null,
+    intervalMinutes,
+    lastRun: runs[0] ?? null,
+    recentRuns: runs.length,
+    failures: runs[0]?.failures ?? [],
+    backlog: {
+      count: overdue.length,
+      points: overdue.map((point) => point.name),
+    },
+    points,
+  };
+}
@@ -1,4 +1,4 @@
-import axios from "axios";
+import { upstreamRequest } from "./upstream-client";
 
 // Import osmtogeojson using require to avoid TypeScript module resolution issues
 // @ts-ignore - Ignore the type error for the require statement
@@ -84,8 +84,16 @@ export const osmService = {
     );
 
     try {
-      const response = await axios.post(OVERPASS_API_URL, query, {
+      // Overpass queries can run for a while, so allow a longer budget
+      const response = await upstreamRequest({
+        method: "post",
+        url: OVERPASS_API_URL,
+        data: query,
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        name: "Overpass API",
+        maxAttempts: 2,
+        attemptTimeoutMs: 20000,
+        deadlineMs: 25000,
       });
 
       console.log(`Overpass API response status: ${response.status}`);
@@ -125,7 +133,7 @@ export const osmService = {
     } catch (error: any) {
       console.error(
         "Error querying Overpass API:",
-        error.response?.data || error.message
+        error.data || error.message
       );
       throw new Error(
         "Failed to fetch data from OpenStreetMap (Overpass API)."
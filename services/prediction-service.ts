@@ -1,86 +1,190 @@
-import axios from "axios";
+import { getAqiCategory, getAqiStandard } from "./aqi-standards";
+import {
+  getAirQualityHistory,
+  getCurrentAirQuality,
+} from "./air-quality-service";
+import {
+  HoltWintersModel,
+  HoltWintersParameters,
+  HourForecast,
+  INTERVAL_COVERAGES,
+  IntervalCoverage,
+  fitHoltWinters,
+  forecastHoltWinters,
+  forecastInterval,
+  fromLog,
+  toLog,
+} from "./forecast-model";
+import { WeatherReading } from "./providers/types";
+import { normalCdf } from "./statistics";
+import { locationIdFor } from "./storage/observation-repository";
+import {
+  ResolvedTimeZone,
+  localHour,
+  localMidnight,
+  locationTimeZone,
+  toLocalIso,
+  toLocalParts,
+} from "./timezone";
+import {
+  DriverEffect,
+  DriverModel,
+  DrivenForecast,
+  WEATHER_DRIVERS,
+  applyDriverModel,
+  fitDriverModel,
+} from "./weather-drivers";
+import {
+  getCurrentWeather,
+  getHourlyWeatherForecast,
+  getStoredWeather,
+} from "./weather-service";
 
 // Define interface for prediction results
-interface PredictionResult {
+export interface PredictionResult {
   timestamp: number;
+  // The timestamp in the location's time zone, with its UTC offset
+  localTime?: string;
+  timeZone?: string;
   aqi: number;
+  level?: string;
+  color?: string;
+  standard?: string;
+  // Pollutant whose sub-index sets the AQI
+  dominantPollutant?: string | null;
   components?: Record<string, number>;
-  confidence?: number;
+  // Central 50/80/95% prediction intervals, null until the models have
+  // residuals to estimate their error from
+  intervals?: {
+    aqi: Partial<Record<IntervalCoverage, PredictionInterval>>;
+    components: Record<
+      string,
+      Partial<Record<IntervalCoverage, PredictionInterval>>
+    >;
+  } | null;
+  // Chance of reaching the next category up, null in the top category
+  exceedance?: {
+    level: string;
+    threshold: number;
+    probability: number;
+  } | null;
+  // How the forecast weather moved the dominant pollutant, largest effect
+  // first
+  drivers?: DriverEffect[];
 }
 
-// Mock historical data structure
-interface HistoricalData {
+interface PredictionInterval {
+  lower: number;
+  upper: number;
+}
+
+// Hourly reading used to fit the model
+export interface HistoricalData {
   timestamp: number;
   aqi: number;
   components: Record<string, number>;
-  weather?: {
-    temp: number;
-    humidity: number;
-    windSpeed: number;
-    windDirection: number;
-  };
+  // Weather for the reading's hour, when stored
+  weather?: WeatherReading;
+}
+
+// One model per component of the readings, fitted to its concentration
+export type ComponentModels = Record<string, HoltWintersModel>;
+
+// Forecast of every modelled component for one hour
+export interface ComponentForecast<T extends HourForecast = HourForecast> {
+  timestamp: number;
+  components: Record<string, T>;
 }
 
-// Cache for historical data
-const historicalDataCache: HistoricalData[] = [];
-const CACHE_LIFETIME = 24 * 60 * 60 * 1000; // 24 hours
+interface FittedModel {
+  models: ComponentModels;
+  zone: ResolvedTimeZone;
+  // Weather drivers of each component, null where too little weather
+  // lines up with its readings
+  drivers: Record<string, DriverModel | null>;
+  // Stored, current and forecast weather for the location
+  weather: WeatherReading[];
+}
+
+// Cache for historical data, keyed by location
+const historicalDataCache = new Map<
+  string,
+  { fetchedAt: number; data: HistoricalData[] }
+>();
+const CACHE_LIFETIME = 60 * 60 * 1000; // 1 hour, history gains a reading every hour
+export const HISTORY_DAYS = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Standard normal quantiles searched for the next category's threshold
+const MAX_QUANTILE = 8;
+
+/**
+ * Forecast every hour from the end of a model's series up to a time
+ */
+function forecastModel(model: HoltWintersModel, until: number) {
+  const hours = Math.ceil((until - model.lastTimestamp) / HOUR_MS);
+  return forecastHoltWinters(model, Math.max(0, hours));
+}
+
+/**
+ * Join per-component forecasts into hours forecast for every component
+ */
+function joinHours<T extends HourForecast>(
+  forecasts: Record<string, T[]>
+): ComponentForecast<T>[] {
+  const keys = Object.keys(forecasts);
+  const hours = new Map<number, Record<string, T>>();
+  for (const key of keys) {
+    for (const point of forecasts[key]) {
+      if (!hours.has(point.timestamp)) hours.set(point.timestamp, {});
+      hours.get(point.timestamp)![key] = point;
+    }
+  }
+  return Array.from(hours.entries())
+    .filter(([, components]) => Object.keys(components).length === keys.length)
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, components]) => ({ timestamp, components }));
+}
 
 export const predictionService = {
   /**
-   * Generate hourly predictions for the next 24 hours
+   * Predict the hours after the current one (24 by default) from
+   * Holt-Winters models of each pollutant, fitted to the location's hourly
+   * history
    */
   async getHourlyPredictions(
     lat: string,
-    lon: string
+    lon: string,
+    standardId?: string,
+    hours = 24
   ): Promise<PredictionResult[]> {
     try {
-      // Get current conditions to use as a starting point
-      const currentAQ = await this.getCurrentAirQuality(lat, lon);
-      const history = await this.getHistoricalData();
-
-      // Generate hourly forecasts
-      const hourlyPredictions: PredictionResult[] = [];
-      const now = Date.now();
-      const hourMs = 60 * 60 * 1000;
-
-      for (let i = 0; i < 24; i++) {
-        const timestamp = now + i * hourMs;
-        const hour = new Date(timestamp).getHours();
-
-        // Factors that affect hourly AQI
-        const hourFactor = this.getHourlyFactor(hour);
-        const randomVariation = Math.random() * 10 - 5;
-
-        // Statistical prediction using time patterns
-        let aqi = currentAQ.aqi * hourFactor + randomVariation;
-        // Keep AQI in reasonable range
-        aqi = Math.max(20, Math.min(300, aqi));
-
-        // Components follow from base AQI with some variation
-        const components = {
-          pm2_5: aqi * 0.6 + Math.random() * 5,
-          pm10: aqi * 1.2 + Math.random() * 10,
-          o3: Math.max(
-            10,
-            aqi * 0.3 * this.getOzoneFactor(hour) + Math.random() * 15
-          ),
-          no2: Math.max(
-            5,
-            aqi * 0.2 * this.getNO2Factor(hour) + Math.random() * 5
-          ),
-          so2: Math.max(2, aqi * 0.1 + Math.random() * 3),
-          co: Math.max(200, aqi * 5 + Math.random() * 50),
+      const standard = getAqiStandard(standardId);
+      const fit = await this.fitModel(lat, lon);
+
+      const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+      const forecast = this.forecastWithDrivers(
+        fit,
+        currentHour + hours * HOUR_MS
+      )
+        .filter((hour) => hour.timestamp > currentHour)
+        .slice(0, hours);
+
+      return forecast.map((hour) => {
+        const prediction = this.describePrediction(
+          hour.components,
+          standard.id
+        );
+        const dominant = prediction.dominantPollutant;
+        return {
+          timestamp: hour.timestamp,
+          localTime: toLocalIso(hour.timestamp, fit.zone),
+          timeZone: fit.zone.id,
+          ...prediction,
+          drivers: dominant ? (hour.components[dominant]?.drivers ?? []) : [],
         };
-
-        hourlyPredictions.push({
-          timestamp,
-          aqi: Math.round(aqi),
-          components,
-          confidence: 0.7 - i * 0.02, // Confidence decreases with time
-        });
-      }
-
-      return hourlyPredictions;
+      });
     } catch (error) {
       console.error("Error generating hourly predictions:", error);
       throw new Error("Failed to generate hourly predictions");
@@ -88,42 +192,70 @@ export const predictionService = {
   },
 
   /**
-   * Generate daily predictions for the next 7 days
+   * Predict each of the next 7 local days from the same models, scoring the
+   * day's mean concentrations
    */
   async getWeeklyPredictions(
     lat: string,
-    lon: string
+    lon: string,
+    standardId?: string
   ): Promise<PredictionResult[]> {
     try {
-      // Get current conditions to use as a starting point
-      const currentAQ = await this.getCurrentAirQuality(lat, lon);
-      const history = await this.getHistoricalData();
+      const standard = getAqiStandard(standardId);
+      const fit = await this.fitModel(lat, lon);
+
+      // Local midnights starting tomorrow; days are 23 or 25 hours long
+      // across daylight saving changes
+      const { zone } = fit;
+      const { date } = toLocalParts(Date.now(), zone.offsetAt(Date.now()));
+      const midnights = Array.from({ length: 8 }, (_, i) => {
+        const day = new Date(Date.parse(`${date}T00:00:00Z`) + (i + 1) * DAY_MS)
+          .toISOString()
+          .slice(0, 10);
+        return localMidnight(day, zone);
+      });
+      const forecast = this.forecastWithDrivers(fit, midnights[7] - HOUR_MS);
 
-      // Generate daily forecasts
       const weeklyPredictions: PredictionResult[] = [];
-      const now = Date.now();
-      const dayMs = 24 * 60 * 60 * 1000;
-
-      for (let i = 1; i <= 7; i++) {
-        const timestamp = now + i * dayMs;
-        const date = new Date(timestamp);
-        const dayOfWeek = date.getDay();
-
-        // Factors that affect daily AQI
-        const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-        const weekdayFactor = isWeekend ? 0.85 : 1.15; // Weekends typically have better air quality
-
-        // Statistical prediction based on day of week and some randomness
-        const baseAQI = currentAQ.aqi * weekdayFactor;
-        const randomFactor = 0.9 + Math.random() * 0.2; // 0.9-1.1 random multiplier
-        let aqi = baseAQI * randomFactor;
-        // Keep AQI in reasonable range
-        aqi = Math.max(20, Math.min(200, aqi));
-
+      for (let i = 0; i < 7; i++) {
+        const timestamp = midnights[i];
+        const hours = forecast.filter(
+          (hour) =>
+            hour.timestamp >= timestamp && hour.timestamp < midnights[i + 1]
+        );
+        if (hours.length === 0) continue;
+
+        // Errors a few days out are mostly in the level and so shared by
+        // the whole day: the day's spread is taken as the mean hourly spread
+        const components: Record<string, HourForecast> = {};
+        for (const key of Object.keys(hours[0].components)) {
+          const points = hours.map((hour) => hour.components[key]);
+          const value =
+            points.reduce((sum, point) => sum + point.value, 0) / points.length;
+          const logSd = points.every((point) => point.logSd !== null)
+            ? points.reduce((sum, point) => sum + point.logSd!, 0) /
+              points.length
+            : null;
+          components[key] = {
+            timestamp,
+            value,
+            logMean: toLog(value),
+            logSd,
+          };
+        }
+
+        const prediction = this.describePrediction(components, standard.id);
+        const dominant = prediction.dominantPollutant;
         weeklyPredictions.push({
           timestamp,
-          aqi: Math.round(aqi),
-          confidence: 0.8 - i * 0.1, // Confidence decreases with days ahead
+          localTime: toLocalIso(timestamp, zone),
+          timeZone: zone.id,
+          ...prediction,
+          drivers: dominant
+            ? this.averageDrivers(
+                hours.map((hour) => hour.components[dominant]?.drivers ?? [])
+              )
+            : [],
         });
       }
 
@@ -135,27 +267,303 @@ export const predictionService = {
   },
 
   /**
-   * Get historical AQI data for model training
+   * Fit the models to the location's history and latest reading, and the
+   * weather drivers to the stored weather. Throws when there is no reading
+   * at all for the location.
    */
-  async getHistoricalData(): Promise<HistoricalData[]> {
-    // If we have cached data that's still fresh, use it
-    if (historicalDataCache.length > 0) {
-      const cacheAge = Date.now() - historicalDataCache[0].timestamp;
-      if (cacheAge < CACHE_LIFETIME) {
-        return historicalDataCache;
+  async fitModel(lat: string, lon: string): Promise<FittedModel> {
+    const history = await this.getHistoricalData(lat, lon);
+    const current = await this.getCurrentAirQuality(lat, lon);
+    const readings = current ? [...history, current] : history;
+    const zone = locationTimeZone(lat, lon);
+    const models = this.fitReadings(readings, zone);
+    if (!models) {
+      throw new Error(`No air quality readings for ${lat}, ${lon}`);
+    }
+
+    const observedWeather = readings.flatMap((reading) =>
+      reading.weather ? [reading.weather] : []
+    );
+    const drivers = Object.fromEntries(
+      Object.entries(models).map(([key, model]) => [
+        key,
+        fitDriverModel(
+          model.residuals,
+          observedWeather,
+          model.parameters.alpha
+        ),
+      ])
+    );
+    const driven = Object.values(drivers).filter(Boolean).length;
+    const weather =
+      driven > 0
+        ? [...observedWeather, ...(await this.getWeatherForecast(lat, lon))]
+        : observedWeather;
+
+    const fitted = Object.values(models);
+    console.log(
+      `Fitted forecast models for ${Object.keys(models).join(
+        ", "
+      )} at ${lat}, ${lon} on ${Math.max(
+        ...fitted.map((model) => model.observedHours)
+      )} hours (${
+        fitted.some((model) => model.seasonality === "estimated")
+          ? "estimated"
+          : "prior"
+      } daily cycle${
+        fitted.some((model) => model.weekly) ? ", weekly cycle" : ""
+      }, weather drivers for ${driven} of ${fitted.length}, ${zone.id})`
+    );
+    return { models, zone, drivers, weather };
+  },
+
+  /**
+   * Fit a model to each component of the latest reading, null without any
+   * readings. The prior daily cycles follow the local clock in the given
+   * zone. Components with `parameters` skip the parameter search.
+   */
+  fitReadings(
+    readings: HistoricalData[],
+    zone: ResolvedTimeZone,
+    parameters: Record<string, HoltWintersParameters> = {}
+  ): ComponentModels | null {
+    const latest = readings[readings.length - 1];
+    if (!latest) return null;
+
+    const models: ComponentModels = {};
+    for (const key of Object.keys(latest.components)) {
+      const points = readings.flatMap((reading) => {
+        const value = reading.components?.[key];
+        return typeof value === "number" && isFinite(value)
+          ? [{ timestamp: reading.timestamp, value }]
+          : [];
+      });
+      // Ozone and NO2 follow their own daily cycles rather than the others'
+      const profile =
+        key === "o3"
+          ? this.getOzoneFactor
+          : key === "no2"
+            ? this.getNO2Factor
+            : this.getHourlyFactor;
+      const model = fitHoltWinters(points, {
+        priorDailyProfile: (timestamp) => profile(localHour(timestamp, zone)),
+        parameters: parameters[key],
+      });
+      if (model) models[key] = model;
+    }
+    return Object.keys(models).length > 0 ? models : null;
+  },
+
+  /**
+   * Forecast every component for each hour from the end of the models'
+   * series up to a time
+   */
+  forecastUntil(models: ComponentModels, until: number): ComponentForecast[] {
+    return joinHours(
+      Object.fromEntries(
+        Object.entries(models).map(([key, model]) => [
+          key,
+          forecastModel(model, until),
+        ])
+      )
+    );
+  },
+
+  /**
+   * Forecast up to a time, each component adjusted for the forecast weather
+   */
+  forecastWithDrivers(
+    fit: FittedModel,
+    until: number
+  ): ComponentForecast<DrivenForecast>[] {
+    return joinHours(
+      Object.fromEntries(
+        Object.entries(fit.models).map(([key, model]) => [
+          key,
+          applyDriverModel(
+            forecastModel(model, until),
+            fit.drivers[key],
+            fit.weather,
+            model.lastTimestamp
+          ),
+        ])
+      )
+    );
+  },
+
+  /**
+   * Mean change and effect of each driver over several hours
+   */
+  averageDrivers(hours: DriverEffect[][]): DriverEffect[] {
+    const averaged: DriverEffect[] = [];
+    for (const driver of WEATHER_DRIVERS) {
+      const effects = hours.flatMap((effects) =>
+        effects.filter((effect) => effect.driver === driver)
+      );
+      if (effects.length === 0) continue;
+      // Average on the log scale, as the effects combine multiplicatively
+      const contribution =
+        effects.reduce(
+          (sum, effect) => sum + Math.log(1 + effect.effect / 100),
+          0
+        ) / effects.length;
+      averaged.push({
+        driver,
+        change:
+          Math.round(
+            (effects.reduce((sum, effect) => sum + effect.change, 0) /
+              effects.length) *
+              100
+          ) / 100,
+        effect: Math.round((Math.exp(contribution) - 1) * 1000) / 10,
+        direction: contribution >= 0 ? "up" : "down",
+      });
+    }
+    return averaged.sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect));
+  },
+
+  /**
+   * Score forecast components through the requested standard's breakpoints,
+   * with prediction intervals and the chance of reaching the next category.
+   * Pollutants' errors are largely shared (the same weather disperses or
+   * traps them all), so bounds take every component at the same quantile
+   * of its own forecast.
+   */
+  describePrediction(
+    components: Record<string, HourForecast>,
+    standardId: string
+  ): Omit<PredictionResult, "timestamp"> {
+    const standard = getAqiStandard(standardId);
+    const keys = Object.keys(components);
+    const atQuantile = (z: number) =>
+      Object.fromEntries(
+        keys.map((key) => {
+          const point = components[key];
+          return [
+            key,
+            z === 0 || point.logSd === null
+              ? point.value
+              : fromLog(point.logMean + z * point.logSd),
+          ];
+        })
+      );
+
+    const values = atQuantile(0);
+    const breakdown = standard.calculate(values);
+    const category = getAqiCategory(breakdown.aqi, standard.id);
+    const prediction = {
+      aqi: breakdown.aqi,
+      level: category.level,
+      color: category.color,
+      standard: standard.id,
+      dominantPollutant: breakdown.dominantPollutant,
+      components: values,
+    };
+
+    const hasSpread = keys.every((key) => components[key].logSd !== null);
+    let intervals: PredictionResult["intervals"] = null;
+    if (hasSpread) {
+      intervals = { aqi: {}, components: {} };
+      for (const coverage of INTERVAL_COVERAGES) {
+        const bounds = Object.fromEntries(
+          keys.map((key) => [key, forecastInterval(components[key], coverage)!])
+        );
+        const side = (bound: "lower" | "upper") =>
+          standard.calculate(
+            Object.fromEntries(keys.map((key) => [key, bounds[key][bound]]))
+          ).aqi;
+        intervals.aqi[coverage] = {
+          lower: side("lower"),
+          upper: side("upper"),
+        };
+        for (const key of keys) {
+          intervals.components[key] ??= {};
+          intervals.components[key][coverage] = bounds[key];
+        }
       }
     }
 
+    // Some standards split a level into several bands (DAQI "Low" is 1-3),
+    // so the next category is the first later band with another level
+    const { categories } = standard;
+    const next = categories
+      .slice(categories.indexOf(category) + 1)
+      .find(
+        (candidate) =>
+          candidate.min > breakdown.aqi && candidate.level !== category.level
+      );
+    let exceedance: PredictionResult["exceedance"] = null;
+    if (next && hasSpread) {
+      // The AQI rises with the shared quantile, so bisect for the quantile
+      // where it reaches the next category
+      const aqiAt = (z: number) => standard.calculate(atQuantile(z)).aqi;
+      let probability = 0;
+      if (aqiAt(MAX_QUANTILE) >= next.min) {
+        let low = 0;
+        let high = MAX_QUANTILE;
+        for (let i = 0; i < 30; i++) {
+          const middle = (low + high) / 2;
+          if (aqiAt(middle) >= next.min) high = middle;
+          else low = middle;
+        }
+        probability = 1 - normalCdf(high);
+      }
+      exceedance = {
+        level: next.level,
+        threshold: next.min,
+        probability: Math.round(probability * 1000) / 1000,
+      };
+    }
+
+    return { ...prediction, intervals, exceedance };
+  },
+
+  /**
+   * Get the last 30 days of hourly AQI data for model training
+   */
+  async getHistoricalData(lat: string, lon: string): Promise<HistoricalData[]> {
+    const cacheKey = `${lat},${lon}`;
+    const cached = historicalDataCache.get(cacheKey);
+
+    // If we have cached data that's still fresh, use it
+    if (cached && Date.now() - cached.fetchedAt < CACHE_LIFETIME) {
+      return cached.data;
+    }
+
     try {
-      // In a real implementation, you would fetch from a database or external API
-      // For now, return mock data
-      const mockData = this.generateMockHistoricalData();
+      const end = Math.floor(Date.now() / 1000);
+      const start = end - HISTORY_DAYS * 24 * 60 * 60;
+      const { history } = await getAirQualityHistory(lat, lon, start, end);
+
+      // Stored weather for the same hours, for the weather drivers
+      const weather = new Map<number, WeatherReading>();
+      try {
+        const stored = await getStoredWeather(
+          locationIdFor(lat, lon),
+          start * 1000,
+          end * 1000
+        );
+        for (const reading of stored) weather.set(reading.timestamp, reading);
+      } catch (error) {
+        console.error("Error reading stored weather:", error);
+      }
+
+      // Readings flagged as anomalies are left out of training
+      const data: HistoricalData[] = history
+        .filter((reading) => reading.flags.length === 0)
+        .map((reading) => ({
+          timestamp: reading.timestamp,
+          aqi: reading.aqi,
+          components: reading.components,
+          weather: weather.get(
+            Math.floor(reading.timestamp / HOUR_MS) * HOUR_MS
+          ),
+        }));
 
       // Update cache
-      historicalDataCache.length = 0;
-      historicalDataCache.push(...mockData);
+      historicalDataCache.set(cacheKey, { fetchedAt: Date.now(), data });
 
-      return mockData;
+      return data;
     } catch (error) {
       console.error("Error fetching historical data:", error);
       return [];
@@ -163,93 +571,55 @@ export const predictionService = {
   },
 
   /**
-   * Generate mock historical data for development
+   * Latest reading for the location with the current weather, or null
+   * when no provider answers or the reading is flagged as an anomaly
    */
-  generateMockHistoricalData(): HistoricalData[] {
-    const data: HistoricalData[] = [];
-    const now = Date.now();
-    const dayMs = 24 * 60 * 60 * 1000;
-
-    // Generate 30 days of historical data
-    for (let i = 30; i >= 0; i--) {
-      const timestamp = now - i * dayMs;
-      const date = new Date(timestamp);
-
-      // Create patterns: weekday effect, seasonal trend
-      const dayOfWeek = date.getDay();
-      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-      const weekdayFactor = isWeekend ? 0.8 : 1.2;
-
-      // Add some seasonal variation
-      const month = date.getMonth();
-      const seasonFactor = month >= 5 && month <= 8 ? 1.3 : 1.0; // Summer months have worse air quality
-
-      // Base AQI with patterns
-      const baseAQI =
-        50 + 20 * Math.sin((i / 7) * Math.PI) * weekdayFactor * seasonFactor;
-      const aqi = Math.max(
-        20,
-        Math.min(150, baseAQI + Math.random() * 20 - 10)
-      );
-
-      data.push({
-        timestamp,
-        aqi,
-        components: {
-          pm2_5: aqi * 0.6 + Math.random() * 10,
-          pm10: aqi * 1.2 + Math.random() * 15,
-          o3: Math.max(10, aqi * 0.3 + Math.random() * 20),
-          no2: Math.max(5, aqi * 0.2 + Math.random() * 10),
-          so2: Math.max(2, aqi * 0.1 + Math.random() * 5),
-          co: Math.max(200, aqi * 5 + Math.random() * 100),
-        },
-        weather: {
-          temp: 25 + Math.random() * 10 - 5,
-          humidity: 60 + Math.random() * 20 - 10,
-          windSpeed: 10 + Math.random() * 10 - 5,
-          windDirection: Math.random() * 360,
-        },
-      });
+  async getCurrentAirQuality(
+    lat: string,
+    lon: string
+  ): Promise<HistoricalData | null> {
+    const [airQuality, weather] = await Promise.allSettled([
+      getCurrentAirQuality(lat, lon),
+      getCurrentWeather(lat, lon),
+    ]);
+    if (weather.status === "rejected") {
+      console.error("Error fetching current weather:", weather.reason);
+    }
+    if (airQuality.status === "rejected") {
+      console.error("Error fetching current air quality:", airQuality.reason);
+      return null;
+    }
+    if (airQuality.value.flags.length > 0) {
+      console.warn("Leaving the flagged current reading out of training");
+      return null;
     }
 
-    return data;
+    return {
+      timestamp: airQuality.value.timestamp,
+      aqi: airQuality.value.aqi,
+      components: airQuality.value.components,
+      weather: weather.status === "fulfilled" ? weather.value : undefined,
+    };
   },
 
   /**
-   * Get current air quality data as a baseline for predictions
+   * Hourly weather forecast, empty when OpenWeather doesn't answer
    */
-  async getCurrentAirQuality(
+  async getWeatherForecast(
     lat: string,
     lon: string
-  ): Promise<{ aqi: number; components: Record<string, number> }> {
+  ): Promise<WeatherReading[]> {
     try {
-      // Try to get current AQ from backend API
-      const response = await axios.get(
-        `https://uaqmp-api.hanishrishen.workers.dev/api/current?lat=${lat}&lon=${lon}`
-      );
-      return {
-        aqi: response.data.aqi,
-        components: response.data.components,
-      };
+      return await getHourlyWeatherForecast(lat, lon);
     } catch (error) {
-      console.error("Error fetching current air quality:", error);
-      // Fallback to default values
-      return {
-        aqi: 50,
-        components: {
-          pm2_5: 30,
-          pm10: 60,
-          o3: 15,
-          no2: 10,
-          so2: 5,
-          co: 250,
-        },
-      };
+      console.error("Error fetching weather forecast:", error);
+      return [];
     }
   },
 
   /**
-   * Factor based on hour of day for hourly AQI variations
+   * Factor based on the local hour of day, the daily cycle of pollutants
+   * without their own until there are two days of history to estimate it
    */
   getHourlyFactor(hour: number): number {
     // AQI typically higher in morning (7-9am) and evening (4-7pm) rush hours
@@ -262,7 +632,7 @@ export const predictionService = {
   },
 
   /**
-   * Factor for ozone levels based on hour (peaks in afternoon)
+   * Factor for ozone levels based on local hour (peaks in afternoon)
    */
   getOzoneFactor(hour: number): number {
     // Ozone peaks in afternoon due to sunlight
@@ -273,7 +643,7 @@ export const predictionService = {
   },
 
   /**
-   * Factor for NO2 levels based on hour (peaks during rush hours)
+   * Factor for NO2 levels based on local hour (peaks during rush hours)
    */
   getNO2Factor(hour: number): number {
     // NO2 peaks during rush hours due to traffic
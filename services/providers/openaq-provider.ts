@@ -0,0 +1,200 @@
+import {
+  ConcentrationUnit,
+  Pollutant,
+  toMicrogramsPerCubicMetre,
+} from "../aqi-calculator";
+import { upstreamRequest } from "../upstream-client";
+import { AirQualityProvider, ProviderReading } from "./types";
+
+// OpenAQ v3 adapter. OpenAQ aggregates government and research monitoring
+// stations, so readings come from the nearest station with recent data.
+
+let OPENAQ_API_KEY: string | undefined =
+  typeof process !== "undefined" ? process.env?.OPENAQ_API_KEY : undefined;
+const OPENAQ_API_URL = "https://api.openaq.org/v3";
+
+// Search radius around the requested coordinates (OpenAQ's maximum)
+const SEARCH_RADIUS_METRES = 25000;
+// Ignore sensors whose latest value is this much older than the newest one
+const MAX_READING_SPREAD_MS = 3 * 60 * 60 * 1000;
+
+// OpenAQ parameter names mapped to OpenWeather component keys
+const PARAMETER_MAP: Record<string, Pollutant> = {
+  pm25: "pm2_5",
+  pm10: "pm10",
+  o3: "o3",
+  no2: "no2",
+  so2: "so2",
+  co: "co",
+  nh3: "nh3",
+};
+
+export function setOpenAqApiKey(apiKey: string) {
+  if (apiKey) {
+    OPENAQ_API_KEY = apiKey;
+    console.log(`OpenAQ API key set manually: ${apiKey.substring(0, 5)}...`);
+  }
+}
+
+interface OpenAqSensor {
+  id: number;
+  parameter: { name: string; units: string };
+}
+
+function headers() {
+  return {
+    Accept: "application/json",
+    "X-API-Key": OPENAQ_API_KEY || "",
+  };
+}
+
+// Normalise a value to μg/m³ based on the unit OpenAQ reports
+function normalise(
+  pollutant: Pollutant,
+  value: number,
+  units: string
+): number | null {
+  const unit = units.toLowerCase();
+  if (unit === "ppm" || unit === "ppb") {
+    return toMicrogramsPerCubicMetre(
+      value,
+      pollutant,
+      unit as ConcentrationUnit
+    );
+  }
+  if (unit.includes("g/m")) {
+    return unit.startsWith("mg") ? value * 1000 : value;
+  }
+  return null;
+}
+
+// Find the nearest station that reports particulate matter
+async function findNearestSensors(
+  lat: string,
+  lon: string
+): Promise<OpenAqSensor[]> {
+  const response = await upstreamRequest({
+    method: "get",
+    url: `${OPENAQ_API_URL}/locations`,
+    params: {
+      coordinates: `${lat},${lon}`,
+      radius: SEARCH_RADIUS_METRES,
+      limit: 10,
+    },
+    headers: headers(),
+    name: "OpenAQ locations",
+  });
+
+  const locations: any[] = response.data?.results || [];
+  const nearest = locations
+    .filter((location) =>
+      (location.sensors || []).some(
+        (sensor: OpenAqSensor) =>
+          PARAMETER_MAP[sensor.parameter?.name] === "pm2_5" ||
+          PARAMETER_MAP[sensor.parameter?.name] === "pm10"
+      )
+    )
+    .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))[0];
+
+  if (!nearest) {
+    throw new Error(`No OpenAQ station found near ${lat}, ${lon}`);
+  }
+
+  console.log(`Using OpenAQ station ${nearest.id} (${nearest.name})`);
+  return (nearest.sensors as OpenAqSensor[]).filter(
+    (sensor) => PARAMETER_MAP[sensor.parameter?.name]
+  );
+}
+
+export const openAqProvider: AirQualityProvider = {
+  name: "openaq",
+
+  isConfigured() {
+    return !!OPENAQ_API_KEY;
+  },
+
+  async getCurrent(lat: string, lon: string): Promise<ProviderReading> {
+    const sensors = await findNearestSensors(lat, lon);
+    const sensorsById = new Map(sensors.map((sensor) => [sensor.id, sensor]));
+
+    const latest = await Promise.all(
+      sensors.map((sensor) =>
+        upstreamRequest({
+          method: "get",
+          url: `${OPENAQ_API_URL}/sensors/${sensor.id}`,
+          headers: headers(),
+          name: "OpenAQ sensor",
+        }).then((response) => response.data?.results?.[0])
+      )
+    );
+
+    const values = latest
+      .filter((result) => result?.latest?.datetime?.utc)
+      .map((result) => ({
+        sensor: sensorsById.get(result.id)!,
+        value: result.latest.value as number,
+        timestamp: Date.parse(result.latest.datetime.utc),
+      }));
+
+    if (values.length === 0) {
+      throw new Error("OpenAQ station has no recent measurements");
+    }
+
+    const newest = Math.max(...values.map((value) => value.timestamp));
+    const components: Record<string, number> = {};
+    for (const { sensor, value, timestamp } of values) {
+      if (newest - timestamp > MAX_READING_SPREAD_MS) continue;
+      const pollutant = PARAMETER_MAP[sensor.parameter.name];
+      const normalised = normalise(pollutant, value, sensor.parameter.units);
+      if (normalised !== null && normalised >= 0) {
+        components[pollutant] = normalised;
+      }
+    }
+
+    return { timestamp: newest, components };
+  },
+
+  async getHistory(
+    lat: string,
+    lon: string,
+    start: number,
+    end: number
+  ): Promise<ProviderReading[]> {
+    const sensors = await findNearestSensors(lat, lon);
+    const readingsByHour = new Map<number, Record<string, number>>();
+
+    for (const sensor of sensors) {
+      const response = await upstreamRequest({
+        method: "get",
+        url: `${OPENAQ_API_URL}/sensors/${sensor.id}/hours`,
+        params: {
+          datetime_from: new Date(start * 1000).toISOString(),
+          datetime_to: new Date(end * 1000).toISOString(),
+          limit: 1000,
+        },
+        headers: headers(),
+        name: "OpenAQ sensor hours",
+      });
+
+      const pollutant = PARAMETER_MAP[sensor.parameter.name];
+      for (const result of response.data?.results || []) {
+        const from = result.period?.datetimeFrom?.utc;
+        if (!from || typeof result.value !== "number") continue;
+        const normalised = normalise(
+          pollutant,
+          result.value,
+          sensor.parameter.units
+        );
+        if (normalised === null || normalised < 0) continue;
+
+        const hour = Date.parse(from);
+        if (!readingsByHour.has(hour)) readingsByHour.set(hour, {});
+        readingsByHour.get(hour)![pollutant] = normalised;
+      }
+    }
+
+    return Array.from(readingsByHour.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, components]) => ({ timestamp, components }));
+  },
+};
@@ -0,0 +1,238 @@
+import * as dotenv from "dotenv";
+import { upstreamRequest } from "../upstream-client";
+import { AirQualityProvider, ProviderReading, WeatherReading } from "./types";
+
+// Try to load environment variables, but this won't work in Cloudflare Workers
+// This is just for local development
+try {
+  dotenv.config();
+} catch (e) {
+  console.log(
+    "dotenv not available, running in Cloudflare Workers environment"
+  );
+}
+
+// For Cloudflare Workers, environment variables are accessible through the global variable
+// See: https://developers.cloudflare.com/workers/platform/environment-variables/
+let OPENWEATHER_API_KEY: string | undefined;
+// In Cloudflare Workers, environment variables aren't available in the global scope
+// Cloudflare Workers specific way to access environment variables
+if (typeof OPENWEATHER_API_KEY === "undefined") {
+  try {
+    // Access directly from global scope in Cloudflare Workers
+    OPENWEATHER_API_KEY =
+      OPENWEATHER_API_KEY ||
+      (typeof self !== "undefined" && (self as any).OPENWEATHER_API_KEY) ||
+      (typeof globalThis !== "undefined" &&
+        (globalThis as any).OPENWEATHER_API_KEY);
+    // Fallback to Node.js environment variables (for local development)
+    if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
+      OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
+    }
+  } catch (e) {
+    console.error("Error accessing environment variables:", e);
+  }
+}
+
+// Debug the API key (remove in production)
+console.log(
+  "API Key being used:",
+  OPENWEATHER_API_KEY
+    ? `${OPENWEATHER_API_KEY.substring(0, 5)}... (${
+        OPENWEATHER_API_KEY.length
+      } chars)`
+    : "API key is NOT SET"
+);
+
+if (!OPENWEATHER_API_KEY) {
+  console.error(
+    "⚠️ CRITICAL ERROR: OpenWeather API key is not set! Make sure to add it in the Cloudflare dashboard under Settings > Variables."
+  );
+}
+
+const BASE_URL = "https://api.openweathermap.org/data/2.5";
+
+// Set the OpenWeather API key at runtime (e.g. from Cloudflare bindings)
+export function setOpenWeatherApiKey(apiKey: string) {
+  if (apiKey) {
+    OPENWEATHER_API_KEY = apiKey;
+    console.log(
+      `API key set manually: ${apiKey.substring(0, 5)}... (${
+        apiKey.length
+      } chars)`
+    );
+  }
+}
+
+function requireApiKey(): string {
+  // For local development, try process.env as fallback
+  if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
+    OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
+  }
+
+  // Add explicit error handling for API key issues
+  if (!OPENWEATHER_API_KEY) {
+    console.error("⚠️ CRITICAL: Cannot make API request without API key");
+    throw new Error(
+      "OpenWeather API key is missing. Make sure it's set in Cloudflare Worker environment variables."
+    );
+  }
+  return OPENWEATHER_API_KEY;
+}
+
+function toReading(item: any): ProviderReading {
+  return {
+    timestamp: item.dt * 1000, // Convert to milliseconds
+    components: item.components,
+    openWeatherAqi: item.main?.aqi,
+  };
+}
+
+// Request an OpenWeather endpoint with the API key and return its body
+async function fetchJson(
+  path: string,
+  params: Record<string, string | number>,
+  label: string
+): Promise<any> {
+  const appid = requireApiKey();
+  console.log(
+    `Making OpenWeather ${label} request for ${params.lat}, ${params.lon}`
+  );
+
+  const startTime = Date.now();
+  const response = await upstreamRequest({
+    method: "get",
+    url: `${BASE_URL}/${path}`,
+    params: { ...params, appid },
+    headers: { Accept: "application/json" },
+    name: `OpenWeather ${label}`,
+  });
+  console.log(
+    `OpenWeather ${label} response: ${response.status} in ${
+      Date.now() - startTime
+    }ms`
+  );
+  return response.data;
+}
+
+// Request one of the air pollution endpoints and return its `list` array
+async function fetchList(
+  path: string,
+  params: Record<string, string | number>,
+  label: string
+): Promise<any[]> {
+  const data = await fetchJson(path, params, label);
+  if (!data || !Array.isArray(data.list)) {
+    console.error(
+      "API response missing 'list' property:",
+      JSON.stringify(data).substring(0, 500)
+    );
+    throw new Error("Invalid API response structure: missing 'list' property");
+  }
+  return data.list;
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && isFinite(value) ? value : null;
+}
+
+// Weather entries report rain and snow over the last 1 or 3 hours
+function toWeatherReading(
+  item: any,
+  precipitationHours: 1 | 3
+): WeatherReading {
+  const key = `${precipitationHours}h`;
+  const rain = numberOrNull(item.rain?.[key]) ?? 0;
+  const snow = numberOrNull(item.snow?.[key]) ?? 0;
+  return {
+    timestamp: item.dt * 1000,
+    temperature: numberOrNull(item.main?.temp),
+    humidity: numberOrNull(item.main?.humidity),
+    pressure: numberOrNull(item.main?.sea_level ?? item.main?.pressure),
+    windSpeed: numberOrNull(item.wind?.speed),
+    windDirection: numberOrNull(item.wind?.deg),
+    clouds: numberOrNull(item.clouds?.all),
+    precipitation: (rain + snow) / precipitationHours,
+  };
+}
+
+/**
+ * Current weather from OpenWeather, with the same API key as air quality
+ */
+export async function getOpenWeatherCurrentWeather(
+  lat: string,
+  lon: string
+): Promise<WeatherReading> {
+  const data = await fetchJson(
+    "weather",
+    { lat, lon, units: "metric" },
+    "current weather"
+  );
+  if (typeof data?.dt !== "number") {
+    throw new Error("Invalid weather data received from OpenWeather API");
+  }
+  return toWeatherReading(data, 1);
+}
+
+/**
+ * The 5 day weather forecast from OpenWeather, in 3 hour steps
+ */
+export async function getOpenWeatherWeatherForecast(
+  lat: string,
+  lon: string
+): Promise<WeatherReading[]> {
+  const list = await fetchList(
+    "forecast",
+    { lat, lon, units: "metric" },
+    "weather forecast"
+  );
+  return list.map((item) => toWeatherReading(item, 3));
+}
+
+export const openWeatherProvider: AirQualityProvider = {
+  name: "openweather",
+
+  isConfigured() {
+    if (!OPENWEATHER_API_KEY && typeof process !== "undefined" && process.env) {
+      OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
+    }
+    return !!OPENWEATHER_API_KEY;
+  },
+
+  async getCurrent(lat: string, lon: string): Promise<ProviderReading> {
+    const list = await fetchList("air_pollution", { lat, lon }, "current");
+    if (list.length === 0) {
+      throw new Error("OpenWeather API returned empty list");
+    }
+
+    const data = list[0];
+    console.log(`OpenWeather AQI: ${data.main?.aqi}`);
+    return toReading(data);
+  },
+
+  async getForecast(lat: string, lon: string): Promise<ProviderReading[]> {
+    const list = await fetchList(
+      "air_pollution/forecast",
+      { lat, lon },
+      "forecast"
+    );
+    if (list.length === 0) {
+      throw new Error("Invalid forecast data received from OpenWeather API");
+    }
+    return list.map(toReading);
+  },
+
+  async getHistory(
+    lat: string,
+    lon: string,
+    start: number,
+    end: number
+  ): Promise<ProviderReading[]> {
+    const list = await fetchList(
+      "air_pollution/history",
+      { lat, lon, start, end },
+      "history"
+    );
+    return list.map(toReading);
+  },
+};
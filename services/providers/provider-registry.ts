@@ -0,0 +1,118 @@
+import { openAqProvider, setOpenAqApiKey } from "./openaq-provider";
+import {
+  openWeatherProvider,
+  setOpenWeatherApiKey,
+} from "./openweather-provider";
+import { AirQualityProvider, ProviderOperation, ProviderResult } from "./types";
+import { setWaqiApiToken, setWaqiApiUrl, waqiProvider } from "./waqi-provider";
+
+// Registry of air quality providers, tried in priority order so one rate
+// limited or unavailable source does not take the whole dashboard down.
+
+const PROVIDERS: Record<string, AirQualityProvider> = {
+  openweather: openWeatherProvider,
+  waqi: waqiProvider,
+  openaq: openAqProvider,
+};
+
+const DEFAULT_PRIORITY = ["openweather", "waqi", "openaq"];
+let providerPriority = [...DEFAULT_PRIORITY];
+
+/**
+ * Set the order providers are tried in. Unknown names are ignored.
+ */
+export function setProviderPriority(names: string[]) {
+  const valid = names
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => PROVIDERS[name]);
+
+  if (valid.length === 0) {
+    console.warn(
+      `No known providers in priority list "${names.join(
+        ","
+      )}", keeping ${providerPriority.join(",")}`
+    );
+    return;
+  }
+  providerPriority = valid;
+}
+
+export function getProviderPriority(): string[] {
+  return [...providerPriority];
+}
+
+/**
+ * Apply provider credentials and priority from an environment object
+ * (Cloudflare bindings or process.env)
+ */
+export function configureProviders(env?: Record<string, unknown>) {
+  if (!env) return;
+
+  const value = (key: string) =>
+    typeof env[key] === "string" ? (env[key] as string) : undefined;
+
+  const openWeatherKey = value("OPENWEATHER_API_KEY");
+  if (openWeatherKey) setOpenWeatherApiKey(openWeatherKey);
+
+  const openAqKey = value("OPENAQ_API_KEY");
+  if (openAqKey) setOpenAqApiKey(openAqKey);
+
+  const waqiToken = value("WAQI_API_TOKEN");
+  if (waqiToken) setWaqiApiToken(waqiToken);
+
+  const waqiUrl = value("WAQI_API_URL");
+  if (waqiUrl) setWaqiApiUrl(waqiUrl);
+
+  const priority = value("AIR_QUALITY_PROVIDERS");
+  if (priority) setProviderPriority(priority.split(","));
+}
+
+function supports(
+  provider: AirQualityProvider,
+  operation: ProviderOperation
+): boolean {
+  if (operation === "forecast") return !!provider.getForecast;
+  if (operation === "history") return !!provider.getHistory;
+  return true;
+}
+
+/**
+ * Run an operation against each configured provider in priority order and
+ * return the first successful result together with the provider's name
+ */
+export async function fetchFromProviders<T>(
+  operation: ProviderOperation,
+  call: (provider: AirQualityProvider) => Promise<T>
+): Promise<ProviderResult<T>> {
+  const failures: string[] = [];
+
+  for (const name of providerPriority) {
+    const provider = PROVIDERS[name];
+    if (!provider.isConfigured() || !supports(provider, operation)) {
+      continue;
+    }
+
+    try {
+      const data = await call(provider);
+      if (failures.length > 0) {
+        console.warn(
+          `Served ${operation} data from fallback provider ${name} after: ${failures.join(
+            "; "
+          )}`
+        );
+      }
+      return { data, provider: name };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Provider ${name} failed for ${operation}:`, message);
+      failures.push(`${name}: ${message}`);
+    }
+  }
+
+  if (failures.length === 0) {
+    throw new Error(
+      `No configured air quality provider supports ${operation} data`
+    );
+  }
+  throw new Error(`All air quality providers failed (${failures.join("; ")})`);
+}
@@ -0,0 +1,44 @@
+// Common shape for air quality data sources. Every provider normalises its
+// response to hourly component concentrations in μg/m³ (OpenWeather's units)
+// so the AQI pipeline does not depend on which source answered.
+
+export interface ProviderReading {
+  timestamp: number; // milliseconds
+  components: Record<string, number>;
+  // OpenWeather's own 1-5 index, when the provider reports it
+  openWeatherAqi?: number;
+}
+
+// Weather from OpenWeather's weather endpoints, in metric units
+export interface WeatherReading {
+  timestamp: number; // milliseconds
+  temperature: number | null; // °C
+  humidity: number | null; // %
+  pressure: number | null; // hPa at sea level
+  windSpeed: number | null; // m/s
+  windDirection: number | null; // degrees
+  clouds: number | null; // % cover
+  precipitation: number | null; // mm per hour, rain and snow
+}
+
+export type ProviderOperation = "current" | "forecast" | "history";
+
+export interface AirQualityProvider {
+  name: string;
+  // Whether the provider has the credentials it needs
+  isConfigured(): boolean;
+  getCurrent(lat: string, lon: string): Promise<ProviderReading>;
+  // Optional capabilities; providers without them are skipped for that operation
+  getForecast?(lat: string, lon: string): Promise<ProviderReading[]>;
+  getHistory?(
+    lat: string,
+    lon: string,
+    start: number, // unix seconds
+    end: number // unix seconds
+  ): Promise<ProviderReading[]>;
+}
+
+export interface ProviderResult<T> {
+  data: T;
+  provider: string;
+}
@@ -0,0 +1,114 @@
+import {
+  BreakpointTable,
+  Pollutant,
+  US_EPA_BREAKPOINTS,
+  concentrationFromSubIndex,
+} from "../aqi-calculator";
+import { upstreamRequest } from "../upstream-client";
+import { AirQualityProvider, ProviderReading } from "./types";
+
+// Adapter for WAQI-style JSON feeds (api.waqi.info or a compatible mirror).
+// These feeds publish US EPA sub-indices per pollutant ("iaqi") rather than
+// concentrations, so values are converted back to μg/m³ via the EPA tables.
+
+let WAQI_API_TOKEN: string | undefined =
+  typeof process !== "undefined" ? process.env?.WAQI_API_TOKEN : undefined;
+let WAQI_API_URL =
+  (typeof process !== "undefined" && process.env?.WAQI_API_URL) ||
+  "https://api.waqi.info";
+
+// WAQI still publishes PM2.5 on the pre-2024 EPA breakpoints
+const WAQI_PM25_BREAKPOINTS: BreakpointTable[] = [
+  {
+    averaging: "24-hour",
+    unit: "μg/m³",
+    decimals: 1,
+    breakpoints: [
+      { cLow: 0.0, cHigh: 12.0, iLow: 0, iHigh: 50 },
+      { cLow: 12.1, cHigh: 35.4, iLow: 51, iHigh: 100 },
+      { cLow: 35.5, cHigh: 55.4, iLow: 101, iHigh: 150 },
+      { cLow: 55.5, cHigh: 150.4, iLow: 151, iHigh: 200 },
+      { cLow: 150.5, cHigh: 250.4, iLow: 201, iHigh: 300 },
+      { cLow: 250.5, cHigh: 350.4, iLow: 301, iHigh: 400 },
+      { cLow: 350.5, cHigh: 500.4, iLow: 401, iHigh: 500 },
+    ],
+  },
+];
+
+// WAQI iaqi keys mapped to OpenWeather component keys
+const IAQI_MAP: Record<string, Pollutant> = {
+  pm25: "pm2_5",
+  pm10: "pm10",
+  o3: "o3",
+  no2: "no2",
+  so2: "so2",
+  co: "co",
+};
+
+export function setWaqiApiToken(token: string) {
+  if (token) {
+    WAQI_API_TOKEN = token;
+    console.log(`WAQI API token set manually: ${token.substring(0, 5)}...`);
+  }
+}
+
+export function setWaqiApiUrl(url: string) {
+  if (url) {
+    WAQI_API_URL = url.replace(/\/+$/, "");
+  }
+}
+
+export const waqiProvider: AirQualityProvider = {
+  name: "waqi",
+
+  isConfigured() {
+    return !!WAQI_API_TOKEN;
+  },
+
+  async getCurrent(lat: string, lon: string): Promise<ProviderReading> {
+    const response = await upstreamRequest({
+      method: "get",
+      url: `${WAQI_API_URL}/feed/geo:${lat};${lon}/`,
+      params: { token: WAQI_API_TOKEN },
+      headers: { Accept: "application/json" },
+      name: "WAQI feed",
+    });
+
+    if (response.data?.status !== "ok" || !response.data.data) {
+      throw new Error(
+        `WAQI feed error: ${response.data?.data || "invalid response"}`
+      );
+    }
+
+    const feed = response.data.data;
+    const components: Record<string, number> = {};
+    for (const [key, pollutant] of Object.entries(IAQI_MAP)) {
+      const subIndex = feed.iaqi?.[key]?.v;
+      if (typeof subIndex !== "number") continue;
+
+      const tables =
+        pollutant === "pm2_5"
+          ? WAQI_PM25_BREAKPOINTS
+          : US_EPA_BREAKPOINTS[pollutant];
+      if (!tables) continue;
+      components[pollutant] = concentrationFromSubIndex(
+        tables,
+        pollutant,
+        subIndex
+      );
+    }
+
+    if (Object.keys(components).length === 0) {
+      throw new Error("WAQI feed has no pollutant readings");
+    }
+
+    console.log(
+      `Using WAQI station ${feed.idx} (${feed.city?.name || "unknown"})`
+    );
+
+    return {
+      timestamp: feed.time?.iso ? Date.parse(feed.time.iso) : Date.now(),
+      components,
+    };
+  },
+};
@@ -0,0 +1,258 @@
+import { encodeGeohash } from "./geohash";
+
+// Cache for location-based lookups. Keys use the geohash of the requested
+// coordinates, so users a few hundred metres apart share one upstream call.
+// Node keeps an in-memory LRU; the Worker uses a KV namespace when one is
+// bound as AIR_QUALITY_CACHE and the Cache API otherwise.
+
+export type CachedEndpoint =
+  "current" | "components" | "forecast" | "guidelines";
+
+// Seconds each endpoint's data stays fresh. OpenWeather refreshes current
+// readings roughly hourly and forecasts less often than that.
+export const CACHE_TTLS: Record<CachedEndpoint, number> = {
+  current: 10 * 60,
+  components: 10 * 60,
+  forecast: 60 * 60,
+  guidelines: 60 * 60,
+};
+
+const DEFAULT_GEOHASH_PRECISION = 6;
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  cachedAt: number; // milliseconds
+}
+
+export interface CacheStore {
+  name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void>;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  cachedAt: number;
+  // Seconds since the data was fetched upstream
+  age: number;
+  hit: boolean;
+}
+
+/**
+ * In-memory LRU store. Map iteration order is insertion order, so the
+ * first key is always the least recently used one.
+ */
+export function createMemoryCacheStore(
+  maxEntries = MEMORY_CACHE_MAX_ENTRIES
+): CacheStore {
+  const entries = new Map<
+    string,
+    { entry: CacheEntry<unknown>; expiresAt: number }
+  >();
+
+  return {
+    name: "memory",
+
+    async get<T>(key: string) {
+      const stored = entries.get(key);
+      if (!stored) return null;
+      entries.delete(key);
+      if (stored.expiresAt <= Date.now()) return null;
+      // Re-insert to mark as most recently used
+      entries.set(key, stored);
+      return stored.entry as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+// The parts of a Workers KV namespace binding this module uses
+export interface KvNamespaceLike {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number }
+  ): Promise<void>;
+}
+
+export function createKvCacheStore(namespace: KvNamespaceLike): CacheStore {
+  return {
+    name: "kv",
+
+    async get<T>(key: string) {
+      const stored = (await namespace.get(key, "json")) as
+        (CacheEntry<T> & { expiresAt: number }) | null;
+      // KV rounds expiry up to at least 60 seconds, so check it ourselves
+      if (!stored || stored.expiresAt <= Date.now()) return null;
+      return { data: stored.data, cachedAt: stored.cachedAt };
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number) {
+      await namespace.put(
+        key,
+        JSON.stringify({ ...entry, expiresAt: Date.now() + ttlSeconds * 1000 }),
+        { expirationTtl: Math.max(60, ttlSeconds) }
+      );
+    },
+  };
+}
+
+// The Cache API needs URL keys; this host is never requested
+const CACHE_API_ORIGIN = "https://response-cache.uaqmp.internal";
+
+// Workers add a default cache to the standard CacheStorage
+type WorkerCacheStorage = CacheStorage & { default: Cache };
+
+export function createCacheApiStore(cache: Cache): CacheStore {
+  const request = (key: string) =>
+    new Request(`${CACHE_API_ORIGIN}/${encodeURIComponent(key)}`);
+
+  return {
+    name: "cache-api",
+
+    async get<T>(key: string) {
+      const response = await cache.match(request(key));
+      if (!response) return null;
+      return (await response.json()) as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number) {
+      await cache.put(
+        request(key),
+        new Response(JSON.stringify(entry), {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": `max-age=${ttlSeconds}`,
+          },
+        })
+      );
+    },
+  };
+}
+
+let cacheStore: CacheStore = createMemoryCacheStore();
+let geohashPrecision = DEFAULT_GEOHASH_PRECISION;
+// Misses currently being fetched, so concurrent requests share one upstream call
+const inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+export function setCacheStore(store: CacheStore) {
+  cacheStore = store;
+}
+
+export function getCacheStore(): CacheStore {
+  return cacheStore;
+}
+
+/**
+ * Pick the cache backend from an environment object. A KV binding named
+ * AIR_QUALITY_CACHE wins, then the Worker Cache API, then the memory LRU.
+ * CACHE_GEOHASH_PRECISION overrides the key precision (default 6).
+ */
+export function configureResponseCache(env?: Record<string, unknown>) {
+  const precision = Number(env?.CACHE_GEOHASH_PRECISION);
+  if (Number.isInteger(precision) && precision >= 1 && precision <= 12) {
+    geohashPrecision = precision;
+  }
+
+  const kv = env?.AIR_QUALITY_CACHE as KvNamespaceLike | undefined;
+  if (kv && typeof kv.get === "function" && typeof kv.put === "function") {
+    if (cacheStore.name !== "kv") cacheStore = createKvCacheStore(kv);
+    return;
+  }
+
+  const workerCache =
+    typeof caches !== "undefined" && "default" in caches
+      ? (caches as WorkerCacheStorage).default
+      : undefined;
+  if (workerCache && cacheStore.name === "memory") {
+    cacheStore = createCacheApiStore(workerCache);
+  }
+}
+
+/**
+ * Cache key for an endpoint at a location. Extra parameters that change
+ * the response (such as the AQI standard) are appended in a stable order.
+ */
+export function locationCacheKey(
+  endpoint: CachedEndpoint,
+  lat: string,
+  lon: string,
+  params: Record<string, string | number | boolean | undefined> = {}
+): string {
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lon);
+  // Invalid coordinates fail upstream anyway; keep them out of real cells
+  const geohash =
+    isFinite(latitude) && isFinite(longitude)
+      ? encodeGeohash(latitude, longitude, geohashPrecision)
+      : `raw:${lat},${lon}`;
+  const suffix = Object.keys(params)
+    .filter((key) => params[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+  return `aq:${endpoint}:${geohash}${suffix ? `:${suffix}` : ""}`;
+}
+
+/**
+ * Return cached data for a location if it is still fresh, otherwise call
+ * `load` and store its result for the endpoint's TTL. Cache backend errors
+ * are logged and treated as misses so they never fail a request.
+ */
+export async function cachedLocationLookup<T>(
+  endpoint: CachedEndpoint,
+  lat: string,
+  lon: string,
+  params: Record<string, string | number | boolean | undefined>,
+  load: () => Promise<T>
+): Promise<CachedResult<T>> {
+  const key = locationCacheKey(endpoint, lat, lon, params);
+
+  let entry: CacheEntry<T> | null = null;
+  try {
+    entry = await cacheStore.get<T>(key);
+  } catch (error) {
+    console.error(`Cache read failed for ${key}:`, error);
+  }
+
+  if (entry) {
+    console.log(`Cache hit for ${key} (${cacheStore.name})`);
+    return {
+      data: entry.data,
+      cachedAt: entry.cachedAt,
+      age: Math.floor((Date.now() - entry.cachedAt) / 1000),
+      hit: true,
+    };
+  }
+
+  let pending = inFlight.get(key) as Promise<CacheEntry<T>> | undefined;
+  if (!pending) {
+    console.log(`Cache miss for ${key} (${cacheStore.name})`);
+    pending = load().then(async (data) => {
+      const fresh = { data, cachedAt: Date.now() };
+      try {
+        await cacheStore.set(key, fresh, CACHE_TTLS[endpoint]);
+      } catch (error) {
+        console.error(`Cache write failed for ${key}:`, error);
+      }
+      return fresh;
+    });
+    inFlight.set(key, pending);
+    pending.then(
+      () => inFlight.delete(key),
+      () => inFlight.delete(key)
+    );
+  }
+
+  const fresh = await pending;
+  return { data: fresh.data, cachedAt: fresh.cachedAt, age: 0, hit: false };
+}
@@ -0,0 +1,267 @@
+import { AQI_STANDARDS } from "./aqi-standards";
+import { POLLUTANTS } from "./aqi-calculator";
+import { SummaryStats, combineStats, summarize } from "./statistics";
+import {
+  getAlertRepository,
+  getForecastRepository,
+  getObservationRepository,
+  getRollupRepository,
+  getWeatherRepository,
+} from "./storage";
+import {
+  CLIENT_PROVIDER,
+  Observation,
+  deleteObservationsBefore,
+} from "./storage/observation-repository";
+import { DailyRollup } from "./storage/rollup-repository";
+
+// Raw hourly observations are kept for a configurable number of days.
+// Older days are rolled up into daily summaries and the raw rows deleted,
+// so storage stays bounded while long-range history remains available.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_RAW_RETENTION_DAYS = 90;
+
+let rawRetentionDays = DEFAULT_RAW_RETENTION_DAYS;
+
+export interface RetentionResult {
+  cutoff: number;
+  locations: number;
+  rolledUpDays: number;
+  deletedObservations: number;
+  deletedForecasts: number;
+  deletedWeather: number;
+  deletedDeliveries: number;
+}
+
+/**
+ * Read the raw retention window (OBSERVATION_RETENTION_DAYS) from the environment
+ */
+export function configureRetention(env?: Record<string, unknown>) {
+  if (!env) return;
+  const days = Number(env.OBSERVATION_RETENTION_DAYS);
+  if (isFinite(days) && days >= 1) {
+    rawRetentionDays = Math.floor(days);
+  }
+}
+
+/**
+ * Start of the oldest UTC day still kept at hourly resolution (milliseconds)
+ */
+export function getRawRetentionCutoff(now = Date.now()): number {
+  return Math.floor(now / DAY_MS) * DAY_MS - rawRetentionDays * DAY_MS;
+}
+
+// Bit of the UTC hour of a timestamp in DailyRollup.hours
+function hourBit(timestamp: number): number {
+  return 1 << Math.floor((timestamp % DAY_MS) / HOUR_MS);
+}
+
+function mostFrequent(values: (string | null)[]): string | null {
+  const counts = new Map<string, number>();
+  let best: string | null = null;
+  for (const value of values) {
+    if (!value) continue;
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    if (best === null || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+/**
+ * Summarise one location's observations into one rollup per UTC day.
+ * Readings are deduplicated to one per hour, as history does.
+ */
+export function buildDailyRollups(observations: Observation[]): DailyRollup[] {
+  const byHour = new Map<number, Observation>();
+  for (const observation of observations) {
+    const hour = Math.floor(observation.timestamp / HOUR_MS);
+    if (!byHour.has(hour)) byHour.set(hour, observation);
+  }
+
+  const days = new Map<number, Observation[]>();
+  for (const observation of byHour.values()) {
+    const day = Math.floor(observation.timestamp / DAY_MS) * DAY_MS;
+    if (!days.has(day)) days.set(day, []);
+    days.get(day)!.push(observation);
+  }
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([day, group]) => {
+      const aqi: Record<string, SummaryStats> = {};
+      for (const standard of Object.values(AQI_STANDARDS)) {
+        const stats = summarize(
+          group.map(
+            (observation) => standard.calculate(observation.components).aqi
+          )
+        );
+        if (stats) aqi[standard.id] = stats;
+      }
+
+      const components: Record<string, SummaryStats> = {};
+      for (const pollutant of POLLUTANTS) {
+        const stats = summarize(
+          group
+            .map((observation) => observation.components[pollutant])
+            .filter((value) => typeof value === "number")
+        );
+        if (stats) components[pollutant] = stats;
+      }
+
+      return {
+        locationId: group[0].locationId,
+        lat: group[0].lat,
+        lon: group[0].lon,
+        day,
+        count: group.length,
+        hours: group.reduce(
+          (hours, observation) => hours | hourBit(observation.timestamp),
+          0
+        ),
+        dominantPollutant: mostFrequent(
+          group.map((observation) => observation.dominantPollutant)
+        ),
+        aqi,
+        components,
+      };
+    });
+}
+
+function mergeStats(
+  a: Record<string, SummaryStats>,
+  b: Record<string, SummaryStats>
+): Record<string, SummaryStats> {
+  const merged: Record<string, SummaryStats> = {};
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const stats = combineStats([a[key], b[key]].filter(Boolean));
+    if (stats) merged[key] = stats;
+  }
+  return merged;
+}
+
+/**
+ * Fold newly rolled up days into the summaries already stored for them, so
+ * rows that arrive for a day after it was rolled up (a late import) add to
+ * its summary instead of replacing it. `added` must only cover hours the
+ * stored summary doesn't (see `withoutRolledUpHours`). Percentiles of
+ * merged days are approximate, as for weekly periods.
+ */
+export function mergeDailyRollups(
+  added: DailyRollup[],
+  existing: DailyRollup[]
+): DailyRollup[] {
+  const byDay = new Map(existing.map((rollup) => [rollup.day, rollup]));
+  return added.map((rollup) => {
+    const stored = byDay.get(rollup.day);
+    if (!stored) return rollup;
+    return {
+      ...stored,
+      count: stored.count + rollup.count,
+      hours: stored.hours | rollup.hours,
+      dominantPollutant:
+        rollup.count > stored.count
+          ? rollup.dominantPollutant
+          : stored.dominantPollutant,
+      aqi: mergeStats(stored.aqi, rollup.aqi),
+      components: mergeStats(stored.components, rollup.components),
+    };
+  });
+}
+
+/**
+ * Drop observations in hours a stored summary already covers, so importing
+ * the same old data twice doesn't count it twice
+ */
+export function withoutRolledUpHours(
+  observations: Observation[],
+  existing: DailyRollup[]
+): Observation[] {
+  const covered = new Map(existing.map((rollup) => [rollup.day, rollup.hours]));
+  return observations.filter((observation) => {
+    const day = Math.floor(observation.timestamp / DAY_MS) * DAY_MS;
+    return !((covered.get(day) ?? 0) & hourBit(observation.timestamp));
+  });
+}
+
+/**
+ * Roll up every day older than the retention window and delete the raw
+ * rows. Safe to rerun: each location's summaries are recorded in the same
+ * batch that deletes the rows they summarise.
+ */
+export async function runRetention(
+  now = Date.now()
+): Promise<RetentionResult | null> {
+  const observations = await getObservationRepository();
+  const rollups = await getRollupRepository();
+  if (!observations || !rollups) return null;
+
+  const cutoff = getRawRetentionCutoff(now);
+  const result: RetentionResult = {
+    cutoff,
+    locations: 0,
+    rolledUpDays: 0,
+    deletedObservations: 0,
+    deletedForecasts: 0,
+    deletedWeather: 0,
+    deletedDeliveries: 0,
+  };
+
+  const locations = (await observations.locations()).filter(
+    (location) => location.first < cutoff
+  );
+  for (const location of locations) {
+    const expired = await observations.find({
+      locationId: location.locationId,
+      end: cutoff - 1,
+    });
+    const existing =
+      expired.length > 0
+        ? await rollups.find({
+            locationId: location.locationId,
+            start: Math.floor(expired[0].timestamp / DAY_MS) * DAY_MS,
+            end: expired[expired.length - 1].timestamp,
+          })
+        : [];
+    const added = buildDailyRollups(
+      withoutRolledUpHours(
+        expired.filter(
+          (observation) => observation.provider !== CLIENT_PROVIDER
+        ),
+        existing
+      )
+    );
+    result.rolledUpDays += await rollups.record(
+      mergeDailyRollups(added, existing),
+      [deleteObservationsBefore(cutoff, location.locationId)]
+    );
+    result.deletedObservations += expired.length;
+    result.locations++;
+  }
+
+  const forecasts = await getForecastRepository();
+  if (forecasts) {
+    result.deletedForecasts = await forecasts.deleteBefore(cutoff);
+  }
+  const weather = await getWeatherRepository();
+  if (weather) {
+    result.deletedWeather = await weather.deleteBefore(cutoff);
+  }
+  const alerts = await getAlertRepository();
+  if (alerts) {
+    result.deletedDeliveries = await alerts.deleteDeliveriesBefore(cutoff);
+  }
+
+  console.log(
+    `Retention: rolled up ${result.rolledUpDays} days for ${
+      result.locations
+    } locations, deleted ${result.deletedObservations} observations, ${
+      result.deletedForecasts
+    } forecast hours, ${result.deletedWeather} weather hours and ${
+      result.deletedDeliveries
+    } alert deliveries before ${new Date(cutoff).toISOString()}`
+  );
+  return result;
+}
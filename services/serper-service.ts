@@ -1,4 +1,4 @@
-import axios from "axios";
+import { UpstreamError, upstreamRequest } from "./upstream-client";
 
 // Initialize Serper API
 let SERPER_API_KEY: string | undefined = process.env.SERPER_API_KEY || "";
@@ -62,20 +62,20 @@ export const serperService = {
       }
 
       // Make a single request for articles only
-      const response = await axios.post(
-        SERPER_API_URL,
-        {
+      const response = await upstreamRequest({
+        method: "post",
+        url: SERPER_API_URL,
+        data: {
           q: query + " latest news report data",
           gl: "us",
           hl: "en",
         },
-        {
-          headers: {
-            "X-API-KEY": SERPER_API_KEY,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+        headers: {
+          "X-API-KEY": SERPER_API_KEY,
+          "Content-Type": "application/json",
+        },
+        name: "Serper search",
+      });
 
       // Process the response data
       const organicResults = response.data?.organic || [];
@@ -114,8 +114,8 @@ export const serperService = {
       };
     } catch (error) {
       console.error("Error in search:", error);
-      if (axios.isAxiosError(error)) {
-        console.error("Axios error details:", error.response?.data);
+      if (error instanceof UpstreamError) {
+        console.error("Serper error details:", error.data);
       }
       return { searchResults: [] };
     }
@@ -0,0 +1,111 @@
+// Small descriptive statistics helpers shared by history, retention and model code
+
+export interface SummaryStats {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  // Keyed by "p50", "p90", ...
+  percentiles: Record<string, number>;
+}
+
+export const DEFAULT_PERCENTILES = [50, 90, 95];
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Percentile of an ascending sorted array using linear interpolation
+ * between closest ranks (the same method as numpy's default)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number {
+  return percentile(
+    [...values].sort((a, b) => a - b),
+    50
+  );
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Summarise a set of values. Non-finite values are ignored; returns null
+ * when nothing is left to summarise.
+ */
+export function summarize(
+  values: number[],
+  percentiles: number[] = DEFAULT_PERCENTILES
+): SummaryStats | null {
+  const sorted = values
+    .filter((value) => isFinite(value))
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  return {
+    count: sorted.length,
+    mean: round(mean(sorted)),
+    min: round(sorted[0]),
+    max: round(sorted[sorted.length - 1]),
+    percentiles: Object.fromEntries(
+      percentiles.map((p) => [`p${p}`, round(percentile(sorted, p))])
+    ),
+  };
+}
+
+/**
+ * Combine summaries of disjoint sets. Count, mean, min and max are exact;
+ * percentiles are count-weighted averages of the inputs' percentiles, an
+ * approximation used where the underlying values are no longer available.
+ */
+export function combineStats(stats: SummaryStats[]): SummaryStats | null {
+  const parts = stats.filter((part) => part.count > 0);
+  if (parts.length === 0) return null;
+
+  const count = parts.reduce((sum, part) => sum + part.count, 0);
+  const weighted = (value: (part: SummaryStats) => number) =>
+    round(
+      parts.reduce((sum, part) => sum + value(part) * part.count, 0) / count
+    );
+
+  const keys = Object.keys(parts[0].percentiles).filter((key) =>
+    parts.every((part) => key in part.percentiles)
+  );
+  return {
+    count,
+    mean: weighted((part) => part.mean),
+    min: Math.min(...parts.map((part) => part.min)),
+    max: Math.max(...parts.map((part) => part.max)),
+    percentiles: Object.fromEntries(
+      keys.map((key) => [key, weighted((part) => part.percentiles[key])])
+    ),
+  };
+}
+
+/**
+ * Standard normal cumulative distribution function (Zelen & Severo
+ * approximation, absolute error below 7.5e-8)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
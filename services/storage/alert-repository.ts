@@ -0,0 +1,311 @@
+import { SqlDatabase, SqlValue } from "./database";
+
+// Alert subscriptions with the state the evaluator keeps between runs, and
+// the log of every webhook delivery made for them.
+
+export type AlertSource = "current" | "forecast";
+export type AlertState = "clear" | "triggered";
+export type AlertEvent = "alert.triggered" | "alert.resolved" | "alert.test";
+
+export interface AlertSubscription {
+  id: string;
+  name: string;
+  locationId: string;
+  lat: number;
+  lon: number;
+  // "aqi" or a pollutant key (pm2_5, o3 ...)
+  metric: string;
+  standard: string;
+  threshold: number;
+  // How far below the threshold the value must fall to clear the alert
+  hysteresis: number;
+  // Minimum time between two triggered notifications
+  cooldownMinutes: number;
+  source: AlertSource;
+  // Hours ahead a forecast subscription looks
+  forecastHours: number;
+  webhookUrl: string;
+  secret: string;
+  enabled: boolean;
+  state: AlertState;
+  lastValue: number | null;
+  lastEvaluatedAt: number | null; // milliseconds
+  lastNotifiedAt: number | null; // milliseconds, last triggered notification
+  createdAt: number; // milliseconds
+  updatedAt: number; // milliseconds
+}
+
+export interface AlertDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  event: AlertEvent;
+  status: "delivered" | "failed";
+  attempts: number;
+  // HTTP status of the last attempt, null when the receiver didn't answer
+  responseStatus: number | null;
+  error: string | null;
+  payload: unknown;
+  createdAt: number; // milliseconds
+}
+
+// What the evaluator writes back after each run
+export type AlertStateUpdate = Pick<
+  AlertSubscription,
+  "state" | "lastValue" | "lastEvaluatedAt" | "lastNotifiedAt"
+>;
+
+export interface AlertRepository {
+  create(subscription: AlertSubscription): Promise<void>;
+  get(id: string): Promise<AlertSubscription | null>;
+  list(options?: { enabled?: boolean }): Promise<AlertSubscription[]>;
+  update(subscription: AlertSubscription): Promise<void>;
+  // Only touches the state columns, so it can't undo a concurrent edit
+  updateState(id: string, update: AlertStateUpdate): Promise<void>;
+  // Deletes the subscription and its delivery log; false if it didn't exist
+  remove(id: string): Promise<boolean>;
+  recordDelivery(delivery: AlertDelivery): Promise<void>;
+  deliveries(subscriptionId: string, limit: number): Promise<AlertDelivery[]>;
+  deleteDeliveriesBefore(timestamp: number): Promise<number>;
+}
+
+interface AlertSubscriptionRow {
+  id: string;
+  name: string;
+  location_id: string;
+  lat: number;
+  lon: number;
+  metric: string;
+  standard: string;
+  threshold: number;
+  hysteresis: number;
+  cooldown_minutes: number;
+  source: AlertSource;
+  forecast_hours: number;
+  webhook_url: string;
+  secret: string;
+  enabled: number;
+  state: AlertState;
+  last_value: number | null;
+  last_evaluated_at: number | null;
+  last_notified_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface AlertDeliveryRow {
+  delivery_id: string;
+  subscription_id: string;
+  event: AlertEvent;
+  status: "delivered" | "failed";
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  payload: string;
+  created_at: number;
+}
+
+const SUBSCRIPTION_COLUMNS = [
+  "id",
+  "name",
+  "location_id",
+  "lat",
+  "lon",
+  "metric",
+  "standard",
+  "threshold",
+  "hysteresis",
+  "cooldown_minutes",
+  "source",
+  "forecast_hours",
+  "webhook_url",
+  "secret",
+  "enabled",
+  "state",
+  "last_value",
+  "last_evaluated_at",
+  "last_notified_at",
+  "created_at",
+  "updated_at",
+];
+
+function toValues(subscription: AlertSubscription): SqlValue[] {
+  return [
+    subscription.id,
+    subscription.name,
+    subscription.locationId,
+    subscription.lat,
+    subscription.lon,
+    subscription.metric,
+    subscription.standard,
+    subscription.threshold,
+    subscription.hysteresis,
+    subscription.cooldownMinutes,
+    subscription.source,
+    subscription.forecastHours,
+    subscription.webhookUrl,
+    subscription.secret,
+    subscription.enabled ? 1 : 0,
+    subscription.state,
+    subscription.lastValue,
+    subscription.lastEvaluatedAt,
+    subscription.lastNotifiedAt,
+    subscription.createdAt,
+    subscription.updatedAt,
+  ];
+}
+
+function toSubscription(row: AlertSubscriptionRow): AlertSubscription {
+  return {
+    id: row.id,
+    name: row.name,
+    locationId: row.location_id,
+    lat: row.lat,
+    lon: row.lon,
+    metric: row.metric,
+    standard: row.standard,
+    threshold: row.threshold,
+    hysteresis: row.hysteresis,
+    cooldownMinutes: row.cooldown_minutes,
+    source: row.source,
+    forecastHours: row.forecast_hours,
+    webhookUrl: row.webhook_url,
+    secret: row.secret,
+    enabled: row.enabled === 1,
+    state: row.state,
+    lastValue: row.last_value,
+    lastEvaluatedAt: row.last_evaluated_at,
+    lastNotifiedAt: row.last_notified_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parsePayload(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export function createAlertRepository(db: SqlDatabase): AlertRepository {
+  return {
+    async create(subscription) {
+      await db.run(
+        `INSERT INTO alert_subscriptions (${SUBSCRIPTION_COLUMNS.join(", ")})
+        VALUES (${SUBSCRIPTION_COLUMNS.map(() => "?").join(", ")})`,
+        toValues(subscription)
+      );
+    },
+
+    async get(id) {
+      const row = await db.first<AlertSubscriptionRow>(
+        "SELECT * FROM alert_subscriptions WHERE id = ?",
+        [id]
+      );
+      return row ? toSubscription(row) : null;
+    },
+
+    async list(options = {}) {
+      const rows =
+        options.enabled === undefined
+          ? await db.all<AlertSubscriptionRow>(
+              "SELECT * FROM alert_subscriptions ORDER BY created_at"
+            )
+          : await db.all<AlertSubscriptionRow>(
+              "SELECT * FROM alert_subscriptions WHERE enabled = ? ORDER BY created_at",
+              [options.enabled ? 1 : 0]
+            );
+      return rows.map(toSubscription);
+    },
+
+    async update(subscription) {
+      const [id, ...values] = toValues(subscription);
+      await db.run(
+        `UPDATE alert_subscriptions SET ${SUBSCRIPTION_COLUMNS.slice(1)
+          .map((column) => `${column} = ?`)
+          .join(", ")}
+        WHERE id = ?`,
+        [...values, id]
+      );
+    },
+
+    async updateState(id, update) {
+      await db.run(
+        `UPDATE alert_subscriptions
+        SET state = ?, last_value = ?, last_evaluated_at = ?, last_notified_at = ?
+        WHERE id = ?`,
+        [
+          update.state,
+          update.lastValue,
+          update.lastEvaluatedAt,
+          update.lastNotifiedAt,
+          id,
+        ]
+      );
+    },
+
+    async remove(id) {
+      const existing = await db.first<{ id: string }>(
+        "SELECT id FROM alert_subscriptions WHERE id = ?",
+        [id]
+      );
+      if (!existing) return false;
+      await db.batch([
+        {
+          sql: "DELETE FROM alert_deliveries WHERE subscription_id = ?",
+          params: [id],
+        },
+        { sql: "DELETE FROM alert_subscriptions WHERE id = ?", params: [id] },
+      ]);
+      return true;
+    },
+
+    async recordDelivery(delivery) {
+      await db.run(
+        `INSERT INTO alert_deliveries
+          (delivery_id, subscription_id, event, status, attempts,
+            response_status, error, payload, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          delivery.deliveryId,
+          delivery.subscriptionId,
+          delivery.event,
+          delivery.status,
+          delivery.attempts,
+          delivery.responseStatus,
+          delivery.error,
+          JSON.stringify(delivery.payload),
+          delivery.createdAt,
+        ]
+      );
+    },
+
+    async deliveries(subscriptionId, limit) {
+      const rows = await db.all<AlertDeliveryRow>(
+        `SELECT * FROM alert_deliveries WHERE subscription_id = ?
+        ORDER BY created_at DESC, id DESC LIMIT ?`,
+        [subscriptionId, limit]
+      );
+      return rows.map((row) => ({
+        deliveryId: row.delivery_id,
+        subscriptionId: row.subscription_id,
+        event: row.event,
+        status: row.status,
+        attempts: row.attempts,
+        responseStatus: row.response_status,
+        error: row.error,
+        payload: parsePayload(row.payload),
+        createdAt: row.created_at,
+      }));
+    },
+
+    async deleteDeliveriesBefore(timestamp) {
+      const { changes } = await db.run(
+        "DELETE FROM alert_deliveries WHERE created_at < ?",
+        [timestamp]
+      );
+      return changes;
+    },
+  };
+}
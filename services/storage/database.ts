@@ -0,0 +1,69 @@
+// Minimal SQL interface shared by the Cloudflare D1 binding (Worker) and
+// better-sqlite3 (Node), so repositories are written once for both.
+
+export type SqlValue = string | number | null;
+
+export interface SqlStatement {
+  sql: string;
+  params?: SqlValue[];
+}
+
+export interface SqlDatabase {
+  name: string;
+  run(sql: string, params?: SqlValue[]): Promise<{ changes: number }>;
+  all<T>(sql: string, params?: SqlValue[]): Promise<T[]>;
+  first<T>(sql: string, params?: SqlValue[]): Promise<T | null>;
+  // Run several statements atomically
+  batch(statements: SqlStatement[]): Promise<void>;
+}
+
+// The parts of a D1 binding this module uses
+export interface D1PreparedStatementLike {
+  bind(...values: unknown[]): D1PreparedStatementLike;
+  run(): Promise<{ meta?: { changes?: number } }>;
+  all<T>(): Promise<{ results?: T[] }>;
+  first<T>(): Promise<T | null>;
+}
+
+export interface D1DatabaseLike {
+  prepare(sql: string): D1PreparedStatementLike;
+  batch(statements: D1PreparedStatementLike[]): Promise<unknown[]>;
+}
+
+export function isD1Database(value: unknown): value is D1DatabaseLike {
+  return (
+    !!value &&
+    typeof (value as D1DatabaseLike).prepare === "function" &&
+    typeof (value as D1DatabaseLike).batch === "function"
+  );
+}
+
+export function createD1Database(d1: D1DatabaseLike): SqlDatabase {
+  const prepare = (sql: string, params: SqlValue[] = []) =>
+    params.length > 0 ? d1.prepare(sql).bind(...params) : d1.prepare(sql);
+
+  return {
+    name: "d1",
+
+    async run(sql, params) {
+      const result = await prepare(sql, params).run();
+      return { changes: result.meta?.changes ?? 0 };
+    },
+
+    async all<T>(sql: string, params?: SqlValue[]) {
+      const result = await prepare(sql, params).all<T>();
+      return result.results || [];
+    },
+
+    async first<T>(sql: string, params?: SqlValue[]) {
+      return (await prepare(sql, params).first<T>()) ?? null;
+    },
+
+    async batch(statements) {
+      if (statements.length === 0) return;
+      await d1.batch(
+        statements.map((statement) => prepare(statement.sql, statement.params))
+      );
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import { SqlDatabase, SqlStatement, SqlValue } from "./database";
+import { OBSERVATION_COMPONENTS } from "./observation-repository";
+
+// Forecasts as issued by the providers. Each fetch is kept under the hour it
+// was issued, so later forecasts can be compared with what was observed.
+
+export interface ForecastPoint {
+  locationId: string;
+  lat: number;
+  lon: number;
+  issuedAt: number; // milliseconds, start of the hour the forecast was fetched
+  timestamp: number; // milliseconds, the hour being forecast
+  provider: string;
+  // AQI and dominant pollutant under the default (US EPA) standard
+  aqi: number | null;
+  dominantPollutant: string | null;
+  openWeatherAqi: number | null;
+  components: Record<string, number>;
+}
+
+export interface ForecastQuery {
+  locationId: string;
+  start?: number; // milliseconds, inclusive
+  end?: number; // milliseconds, inclusive
+  issuedAfter?: number; // milliseconds, inclusive
+  issuedBefore?: number; // milliseconds, inclusive
+  provider?: string;
+}
+
+export interface ForecastRepository {
+  record(points: ForecastPoint[]): Promise<number>;
+  find(query: ForecastQuery): Promise<ForecastPoint[]>;
+  // Delete forecast hours older than a timestamp (milliseconds)
+  deleteBefore(timestamp: number): Promise<number>;
+}
+
+interface ForecastRow {
+  location_id: string;
+  lat: number;
+  lon: number;
+  issued_at: number;
+  timestamp: number;
+  provider: string;
+  aqi: number | null;
+  dominant_pollutant: string | null;
+  open_weather_aqi: number | null;
+  [component: string]: unknown;
+}
+
+function fromRow(row: ForecastRow): ForecastPoint {
+  const components: Record<string, number> = {};
+  for (const component of OBSERVATION_COMPONENTS) {
+    const value = row[component];
+    if (typeof value === "number") components[component] = value;
+  }
+  return {
+    locationId: row.location_id,
+    lat: row.lat,
+    lon: row.lon,
+    issuedAt: row.issued_at,
+    timestamp: row.timestamp,
+    provider: row.provider,
+    aqi: row.aqi,
+    dominantPollutant: row.dominant_pollutant,
+    openWeatherAqi: row.open_weather_aqi,
+    components,
+  };
+}
+
+const INSERT_COLUMNS = [
+  "location_id",
+  "lat",
+  "lon",
+  "issued_at",
+  "timestamp",
+  "provider",
+  "aqi",
+  "dominant_pollutant",
+  "open_weather_aqi",
+  ...OBSERVATION_COMPONENTS,
+  "created_at",
+];
+
+const KEY_COLUMNS = ["location_id", "issued_at", "timestamp", "provider"];
+
+// Fetching again within the same hour replaces that hour's forecast
+const INSERT_SQL = `INSERT INTO forecasts (${INSERT_COLUMNS.join(", ")})
+  VALUES (${INSERT_COLUMNS.map(() => "?").join(", ")})
+  ON CONFLICT (${KEY_COLUMNS.join(", ")}) DO UPDATE SET
+  ${INSERT_COLUMNS.filter((column) => !KEY_COLUMNS.includes(column))
+    .map((column) => `${column} = excluded.${column}`)
+    .join(", ")}`;
+
+function toInsert(point: ForecastPoint, now: number): SqlStatement {
+  const componentValue = (component: string): SqlValue => {
+    const value = point.components[component];
+    return typeof value === "number" && isFinite(value) ? value : null;
+  };
+  return {
+    sql: INSERT_SQL,
+    params: [
+      point.locationId,
+      point.lat,
+      point.lon,
+      point.issuedAt,
+      point.timestamp,
+      point.provider,
+      point.aqi,
+      point.dominantPollutant,
+      point.openWeatherAqi,
+      ...OBSERVATION_COMPONENTS.map(componentValue),
+      now,
+    ],
+  };
+}
+
+export function createForecastRepository(db: SqlDatabase): ForecastRepository {
+  return {
+    async record(points) {
+      if (points.length === 0) return 0;
+      const now = Date.now();
+      await db.batch(points.map((point) => toInsert(point, now)));
+      return points.length;
+    },
+
+    async find(query) {
+      const conditions = ["location_id = ?"];
+      const params: SqlValue[] = [query.locationId];
+      const range: [string, number | undefined][] = [
+        ["timestamp >= ?", query.start],
+        ["timestamp <= ?", query.end],
+        ["issued_at >= ?", query.issuedAfter],
+        ["issued_at <= ?", query.issuedBefore],
+      ];
+      for (const [condition, value] of range) {
+        if (value === undefined) continue;
+        conditions.push(condition);
+        params.push(value);
+      }
+      if (query.provider) {
+        conditions.push("provider = ?");
+        params.push(query.provider);
+      }
+
+      const rows = await db.all<ForecastRow>(
+        `SELECT * FROM forecasts WHERE ${conditions.join(
+          " AND "
+        )} ORDER BY issued_at ASC, timestamp ASC`,
+        params
+      );
+      return rows.map(fromRow);
+    },
+
+    async deleteBefore(timestamp) {
+      const result = await db.run("DELETE FROM forecasts WHERE timestamp < ?", [
+        timestamp,
+      ]);
+      return result.changes;
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { AlertRepository, createAlertRepository } from "./alert-repository";
+import { SqlDatabase, createD1Database, isD1Database } from "./database";
+import {
+  ForecastRepository,
+  createForecastRepository,
+} from "./forecast-repository";
+import {
+  IngestRunRepository,
+  createIngestRunRepository,
+} from "./ingest-run-repository";
+import { runMigrations } from "./migrations";
+import { RollupRepository, createRollupRepository } from "./rollup-repository";
+import {
+  ObservationRepository,
+  createObservationRepository,
+} from "./observation-repository";
+import {
+  WeatherRepository,
+  createWeatherRepository,
+} from "./weather-repository";
+
+// Storage wiring. The Worker binds a D1 database as AIR_QUALITY_DB; the Node
+// server opens a SQLite file at startup. Without either, readings are not
+// persisted and callers fall back to fetching from providers.
+
+let database: SqlDatabase | null = null;
+let ready: Promise<void> | null = null;
+
+/**
+ * Use a database for storage and apply pending migrations on first use
+ */
+export function setStorageDatabase(db: SqlDatabase | null) {
+  database = db;
+  ready = null;
+}
+
+/**
+ * Pick up a D1 binding from the Worker environment, once per isolate
+ */
+export function configureStorage(env?: Record<string, unknown>) {
+  if (database || !env) return;
+  const binding = env.AIR_QUALITY_DB;
+  if (isD1Database(binding)) {
+    setStorageDatabase(createD1Database(binding));
+  }
+}
+
+/**
+ * The migrated database, or null when no storage is configured
+ */
+export async function getStorageDatabase(): Promise<SqlDatabase | null> {
+  if (!database) return null;
+  const db = database;
+  if (!ready) {
+    ready = runMigrations(db).then(
+      () => undefined,
+      (error) => {
+        // Retry on the next call instead of caching the failure
+        ready = null;
+        throw error;
+      }
+    );
+  }
+  await ready;
+  return db;
+}
+
+export async function getObservationRepository(): Promise<ObservationRepository | null> {
+  const db = await getStorageDatabase();
+  return db ? createObservationRepository(db) : null;
+}
+
+export async function getForecastRepository(): Promise<ForecastRepository | null> {
+  const db = await getStorageDatabase();
+  return db ? createForecastRepository(db) : null;
+}
+
+export async function getIngestRunRepository(): Promise<IngestRunRepository | null> {
+  const db = await getStorageDatabase();
+  return db ? createIngestRunRepository(db) : null;
+}
+
+export async function getRollupRepository(): Promise<RollupRepository | null> {
+  const db = await getStorageDatabase();
+  return db ? createRollupRepository(db) : null;
+}
+
+export async function getWeatherRepository(): Promise<WeatherRepository | null> {
+  const db = await getStorageDatabase();
+  return db ? createWeatherRepository(db) : null;
+}
+
+export async function getAlertRepository(): Promise<AlertRepository | null> {
+  const db = await getStorageDatabase();
+  return db ? createAlertRepository(db) : null;
+}
@@ -0,0 +1,83 @@
+import { SqlDatabase } from "./database";
+
+// One row per scheduled ingestion run, so the status endpoint can report on
+// runs made by other Worker invocations.
+
+export interface IngestFailure {
+  name: string;
+  operation: "current" | "forecast" | "weather";
+  error: string;
+}
+
+export interface IngestRun {
+  trigger: string;
+  startedAt: number; // milliseconds
+  finishedAt: number; // milliseconds
+  points: number;
+  succeeded: number;
+  failed: number;
+  failures: IngestFailure[];
+}
+
+export interface IngestRunRepository {
+  record(run: IngestRun): Promise<void>;
+  recent(limit: number): Promise<IngestRun[]>;
+}
+
+interface IngestRunRow {
+  trigger: string;
+  started_at: number;
+  finished_at: number;
+  points: number;
+  succeeded: number;
+  failed: number;
+  failures: string;
+}
+
+function parseFailures(value: string): IngestFailure[] {
+  try {
+    const failures = JSON.parse(value);
+    return Array.isArray(failures) ? failures : [];
+  } catch {
+    return [];
+  }
+}
+
+export function createIngestRunRepository(
+  db: SqlDatabase
+): IngestRunRepository {
+  return {
+    async record(run) {
+      await db.run(
+        `INSERT INTO ingest_runs
+          (trigger, started_at, finished_at, points, succeeded, failed, failures)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          run.trigger,
+          run.startedAt,
+          run.finishedAt,
+          run.points,
+          run.succeeded,
+          run.failed,
+          JSON.stringify(run.failures),
+        ]
+      );
+    },
+
+    async recent(limit) {
+      const rows = await db.all<IngestRunRow>(
+        "SELECT * FROM ingest_runs ORDER BY started_at DESC LIMIT ?",
+        [limit]
+      );
+      return rows.map((row) => ({
+        trigger: row.trigger,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at,
+        points: row.points,
+        succeeded: row.succeeded,
+        failed: row.failed,
+        failures: parseFailures(row.failures),
+      }));
+    },
+  };
+}
@@ -0,0 +1,219 @@
+import { SqlDatabase } from "./database";
+
+// Versioned schema migrations. Each migration is a list of single
+// statements (D1 cannot run several statements in one prepare call) and
+// runs once, in order; applied versions are recorded in schema_migrations.
+// Never edit a migration that has shipped - add a new one instead.
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_observations",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        location_id TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lon REAL NOT NULL,
+        timestamp INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        aqi INTEGER,
+        dominant_pollutant TEXT,
+        open_weather_aqi INTEGER,
+        co REAL,
+        no REAL,
+        no2 REAL,
+        o3 REAL,
+        so2 REAL,
+        pm2_5 REAL,
+        pm10 REAL,
+        nh3 REAL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (location_id, timestamp, provider)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_observations_location_time
+        ON observations (location_id, timestamp)`,
+      `CREATE INDEX IF NOT EXISTS idx_observations_time
+        ON observations (timestamp)`,
+    ],
+  },
+  {
+    version: 2,
+    name: "create_forecasts_and_ingest_runs",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS forecasts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        location_id TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lon REAL NOT NULL,
+        issued_at INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        aqi INTEGER,
+        dominant_pollutant TEXT,
+        open_weather_aqi INTEGER,
+        co REAL,
+        no REAL,
+        no2 REAL,
+        o3 REAL,
+        so2 REAL,
+        pm2_5 REAL,
+        pm10 REAL,
+        nh3 REAL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (location_id, issued_at, timestamp, provider)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_forecasts_location_time
+        ON forecasts (location_id, timestamp)`,
+      `CREATE TABLE IF NOT EXISTS ingest_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER NOT NULL,
+        points INTEGER NOT NULL,
+        succeeded INTEGER NOT NULL,
+        failed INTEGER NOT NULL,
+        failures TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_ingest_runs_started
+        ON ingest_runs (started_at)`,
+    ],
+  },
+  {
+    version: 3,
+    name: "create_daily_rollups",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS daily_rollups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        location_id TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lon REAL NOT NULL,
+        day INTEGER NOT NULL,
+        count INTEGER NOT NULL,
+        dominant_pollutant TEXT,
+        aqi TEXT NOT NULL,
+        components TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (location_id, day)
+      )`,
+    ],
+  },
+  {
+    version: 4,
+    name: "create_weather_observations",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS weather_observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        location_id TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lon REAL NOT NULL,
+        timestamp INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        temperature REAL,
+        humidity REAL,
+        pressure REAL,
+        wind_speed REAL,
+        wind_direction REAL,
+        clouds REAL,
+        precipitation REAL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (location_id, timestamp, provider)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_weather_observations_time
+        ON weather_observations (timestamp)`,
+    ],
+  },
+  {
+    version: 5,
+    name: "create_alerts",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS alert_subscriptions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        location_id TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lon REAL NOT NULL,
+        metric TEXT NOT NULL,
+        standard TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        hysteresis REAL NOT NULL,
+        cooldown_minutes INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        forecast_hours INTEGER NOT NULL,
+        webhook_url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        last_value REAL,
+        last_evaluated_at INTEGER,
+        last_notified_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS alert_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        delivery_id TEXT NOT NULL,
+        subscription_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        response_status INTEGER,
+        error TEXT,
+        payload TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_alert_deliveries_subscription
+        ON alert_deliveries (subscription_id, created_at)`,
+    ],
+  },
+  {
+    version: 6,
+    name: "add_daily_rollup_hours",
+    statements: [`ALTER TABLE daily_rollups ADD COLUMN hours INTEGER`],
+  },
+];
+
+/**
+ * Apply every migration newer than the database's current version
+ */
+export async function runMigrations(
+  db: SqlDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  await db.run(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`
+  );
+
+  const current = await db.first<{ version: number | null }>(
+    "SELECT MAX(version) AS version FROM schema_migrations"
+  );
+  const currentVersion = current?.version ?? 0;
+
+  const pending = migrations
+    .filter((migration) => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    console.log(
+      `Applying migration ${migration.version} (${migration.name}) on ${db.name}`
+    );
+    await db.batch([
+      ...migration.statements.map((sql) => ({ sql })),
+      {
+        sql: "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        params: [migration.version, migration.name, Date.now()],
+      },
+    ]);
+  }
+  return pending.length;
+}
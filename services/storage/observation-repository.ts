@@ -0,0 +1,253 @@
+import { encodeGeohash } from "../geohash";
+import { SqlDatabase, SqlStatement, SqlValue } from "./database";
+
+// Hourly readings per location. Locations are identified by a geohash
+// cell so readings fetched for nearby coordinates land in one series.
+
+export const OBSERVATION_COMPONENTS = [
+  "co",
+  "no",
+  "no2",
+  "o3",
+  "so2",
+  "pm2_5",
+  "pm10",
+  "nh3",
+] as const;
+
+const LOCATION_GEOHASH_PRECISION = 6;
+
+// Provider name for readings posted by the frontend. They are kept for the
+// client's own records but never served to other requests.
+export const CLIENT_PROVIDER = "client";
+
+export interface Observation {
+  locationId: string;
+  lat: number;
+  lon: number;
+  timestamp: number; // milliseconds
+  provider: string;
+  // AQI and dominant pollutant under the default (US EPA) standard;
+  // other standards are recomputed from the components
+  aqi: number | null;
+  dominantPollutant: string | null;
+  openWeatherAqi: number | null;
+  components: Record<string, number>;
+}
+
+export interface ObservationQuery {
+  locationId: string;
+  start?: number; // milliseconds, inclusive
+  end?: number; // milliseconds, inclusive
+  provider?: string;
+  excludeProviders?: string[];
+  limit?: number;
+  order?: "asc" | "desc";
+}
+
+export interface StoredLocation {
+  locationId: string;
+  lat: number;
+  lon: number;
+  count: number;
+  first: number;
+  last: number;
+}
+
+export interface ObservationRepository {
+  record(observations: Observation[]): Promise<number>;
+  find(query: ObservationQuery): Promise<Observation[]>;
+  latest(locationId?: string): Promise<Observation | null>;
+  locations(): Promise<StoredLocation[]>;
+  // Delete readings older than a timestamp (milliseconds), for one location or all
+  deleteBefore(timestamp: number, locationId?: string): Promise<number>;
+}
+
+/**
+ * Statement deleting observations older than a timestamp, for callers that
+ * need the delete in the same batch as other writes
+ */
+export function deleteObservationsBefore(
+  timestamp: number,
+  locationId?: string
+): SqlStatement {
+  return locationId
+    ? {
+        sql: "DELETE FROM observations WHERE location_id = ? AND timestamp < ?",
+        params: [locationId, timestamp],
+      }
+    : {
+        sql: "DELETE FROM observations WHERE timestamp < ?",
+        params: [timestamp],
+      };
+}
+
+export function locationIdFor(lat: string | number, lon: string | number) {
+  return encodeGeohash(Number(lat), Number(lon), LOCATION_GEOHASH_PRECISION);
+}
+
+interface ObservationRow {
+  location_id: string;
+  lat: number;
+  lon: number;
+  timestamp: number;
+  provider: string;
+  aqi: number | null;
+  dominant_pollutant: string | null;
+  open_weather_aqi: number | null;
+  [component: string]: unknown;
+}
+
+function fromRow(row: ObservationRow): Observation {
+  const components: Record<string, number> = {};
+  for (const component of OBSERVATION_COMPONENTS) {
+    const value = row[component];
+    if (typeof value === "number") components[component] = value;
+  }
+  return {
+    locationId: row.location_id,
+    lat: row.lat,
+    lon: row.lon,
+    timestamp: row.timestamp,
+    provider: row.provider,
+    aqi: row.aqi,
+    dominantPollutant: row.dominant_pollutant,
+    openWeatherAqi: row.open_weather_aqi,
+    components,
+  };
+}
+
+const INSERT_COLUMNS = [
+  "location_id",
+  "lat",
+  "lon",
+  "timestamp",
+  "provider",
+  "aqi",
+  "dominant_pollutant",
+  "open_weather_aqi",
+  ...OBSERVATION_COMPONENTS,
+  "created_at",
+];
+
+// Re-fetching the same hour from the same provider replaces the row
+const INSERT_SQL = `INSERT INTO observations (${INSERT_COLUMNS.join(", ")})
+  VALUES (${INSERT_COLUMNS.map(() => "?").join(", ")})
+  ON CONFLICT (location_id, timestamp, provider) DO UPDATE SET
+  ${INSERT_COLUMNS.filter(
+    (column) => !["location_id", "timestamp", "provider"].includes(column)
+  )
+    .map((column) => `${column} = excluded.${column}`)
+    .join(", ")}`;
+
+function toInsert(observation: Observation, now: number): SqlStatement {
+  const componentValue = (component: string): SqlValue => {
+    const value = observation.components[component];
+    return typeof value === "number" && isFinite(value) ? value : null;
+  };
+  return {
+    sql: INSERT_SQL,
+    params: [
+      observation.locationId,
+      observation.lat,
+      observation.lon,
+      observation.timestamp,
+      observation.provider,
+      observation.aqi,
+      observation.dominantPollutant,
+      observation.openWeatherAqi,
+      ...OBSERVATION_COMPONENTS.map(componentValue),
+      now,
+    ],
+  };
+}
+
+export function createObservationRepository(
+  db: SqlDatabase
+): ObservationRepository {
+  return {
+    async record(observations) {
+      if (observations.length === 0) return 0;
+      const now = Date.now();
+      await db.batch(
+        observations.map((observation) => toInsert(observation, now))
+      );
+      return observations.length;
+    },
+
+    async find(query) {
+      const conditions = ["location_id = ?"];
+      const params: SqlValue[] = [query.locationId];
+      if (query.start !== undefined) {
+        conditions.push("timestamp >= ?");
+        params.push(query.start);
+      }
+      if (query.end !== undefined) {
+        conditions.push("timestamp <= ?");
+        params.push(query.end);
+      }
+      if (query.provider) {
+        conditions.push("provider = ?");
+        params.push(query.provider);
+      }
+      if (query.excludeProviders && query.excludeProviders.length > 0) {
+        conditions.push(
+          `provider NOT IN (${query.excludeProviders.map(() => "?").join(", ")})`
+        );
+        params.push(...query.excludeProviders);
+      }
+
+      let sql = `SELECT * FROM observations WHERE ${conditions.join(
+        " AND "
+      )} ORDER BY timestamp ${query.order === "desc" ? "DESC" : "ASC"}`;
+      if (query.limit) {
+        sql += " LIMIT ?";
+        params.push(query.limit);
+      }
+
+      const rows = await db.all<ObservationRow>(sql, params);
+      return rows.map(fromRow);
+    },
+
+    async latest(locationId) {
+      const row = locationId
+        ? await db.first<ObservationRow>(
+            "SELECT * FROM observations WHERE location_id = ? ORDER BY timestamp DESC LIMIT 1",
+            [locationId]
+          )
+        : await db.first<ObservationRow>(
+            "SELECT * FROM observations ORDER BY timestamp DESC LIMIT 1"
+          );
+      return row ? fromRow(row) : null;
+    },
+
+    async locations() {
+      const rows = await db.all<{
+        location_id: string;
+        lat: number;
+        lon: number;
+        count: number;
+        first: number;
+        last: number;
+      }>(
+        `SELECT location_id, AVG(lat) AS lat, AVG(lon) AS lon, COUNT(*) AS count,
+          MIN(timestamp) AS first, MAX(timestamp) AS last
+        FROM observations GROUP BY location_id ORDER BY location_id`
+      );
+      return rows.map((row) => ({
+        locationId: row.location_id,
+        lat: row.lat,
+        lon: row.lon,
+        count: row.count,
+        first: row.first,
+        last: row.last,
+      }));
+    },
+
+    async deleteBefore(timestamp, locationId) {
+      const { sql, params } = deleteObservationsBefore(timestamp, locationId);
+      const result = await db.run(sql, params);
+      return result.changes;
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { SummaryStats } from "../statistics";
+import { SqlDatabase, SqlStatement, SqlValue } from "./database";
+
+// Daily (UTC) summaries of observations that have aged out of the raw
+// retention window. AQI statistics are kept for every standard, since
+// they cannot be recomputed from the component statistics.
+
+export interface DailyRollup {
+  locationId: string;
+  lat: number;
+  lon: number;
+  day: number; // milliseconds, UTC midnight
+  count: number;
+  // UTC hours of the day the summary covers, bit n for hour n
+  hours: number;
+  dominantPollutant: string | null;
+  // Keyed by standard id
+  aqi: Record<string, SummaryStats>;
+  // Keyed by pollutant
+  components: Record<string, SummaryStats>;
+}
+
+// Every hour of a day. Days rolled up before the covered hours were recorded
+// are taken as complete, so late rows are never counted into them twice.
+export const ALL_DAY_HOURS = 0xffffff;
+
+export interface RollupQuery {
+  locationId: string;
+  start?: number; // milliseconds, inclusive
+  end?: number; // milliseconds, inclusive
+}
+
+export interface RollupRepository {
+  // `statements` run in the same batch, so the rows rolled up can be
+  // deleted atomically with recording their summaries
+  record(rollups: DailyRollup[], statements?: SqlStatement[]): Promise<number>;
+  find(query: RollupQuery): Promise<DailyRollup[]>;
+}
+
+interface RollupRow {
+  location_id: string;
+  lat: number;
+  lon: number;
+  day: number;
+  count: number;
+  hours: number | null;
+  dominant_pollutant: string | null;
+  aqi: string;
+  components: string;
+}
+
+function parseStats(value: string): Record<string, SummaryStats> {
+  try {
+    const stats = JSON.parse(value);
+    return stats && typeof stats === "object" ? stats : {};
+  } catch {
+    return {};
+  }
+}
+
+// Recording a day again replaces the earlier summary; callers merge first
+const INSERT_SQL = `INSERT INTO daily_rollups
+    (location_id, lat, lon, day, count, hours, dominant_pollutant, aqi, components, created_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (location_id, day) DO UPDATE SET
+    lat = excluded.lat, lon = excluded.lon, count = excluded.count,
+    hours = excluded.hours, dominant_pollutant = excluded.dominant_pollutant, aqi = excluded.aqi,
+    components = excluded.components, created_at = excluded.created_at`;
+
+export function createRollupRepository(db: SqlDatabase): RollupRepository {
+  return {
+    async record(rollups, statements = []) {
+      if (rollups.length === 0 && statements.length === 0) return 0;
+      const now = Date.now();
+      await db.batch([
+        ...rollups.map((rollup) => ({
+          sql: INSERT_SQL,
+          params: [
+            rollup.locationId,
+            rollup.lat,
+            rollup.lon,
+            rollup.day,
+            rollup.count,
+            rollup.hours,
+            rollup.dominantPollutant,
+            JSON.stringify(rollup.aqi),
+            JSON.stringify(rollup.components),
+            now,
+          ],
+        })),
+        ...statements,
+      ]);
+      return rollups.length;
+    },
+
+    async find(query) {
+      const conditions = ["location_id = ?"];
+      const params: SqlValue[] = [query.locationId];
+      if (query.start !== undefined) {
+        conditions.push("day >= ?");
+        params.push(query.start);
+      }
+      if (query.end !== undefined) {
+        conditions.push("day <= ?");
+        params.push(query.end);
+      }
+
+      const rows = await db.all<RollupRow>(
+        `SELECT * FROM daily_rollups WHERE ${conditions.join(
+          " AND "
+        )} ORDER BY day ASC`,
+        params
+      );
+      return rows.map((row) => ({
+        locationId: row.location_id,
+        lat: row.lat,
+        lon: row.lon,
+        day: row.day,
+        count: row.count,
+        hours: row.hours ?? ALL_DAY_HOURS,
+        dominantPollutant: row.dominant_pollutant,
+        aqi: parseStats(row.aqi),
+        components: parseStats(row.components),
+      }));
+    },
+  };
+}
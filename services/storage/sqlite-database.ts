@@ -0,0 +1,42 @@
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { SqlDatabase } from "./database";
+
+// better-sqlite3 adapter for the Node server. Only alt-index.ts imports
+// this file, so the native module never ends up in the Worker bundle.
+
+export function createSqliteDatabase(filename: string): SqlDatabase {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  // Let readers continue while the ingest job writes
+  db.pragma("journal_mode = WAL");
+
+  return {
+    name: "sqlite",
+
+    async run(sql, params = []) {
+      const result = db.prepare(sql).run(...params);
+      return { changes: result.changes };
+    },
+
+    async all<T>(sql: string, params: unknown[] = []) {
+      return db.prepare(sql).all(...params) as T[];
+    },
+
+    async first<T>(sql: string, params: unknown[] = []) {
+      return (db.prepare(sql).get(...params) as T | undefined) ?? null;
+    },
+
+    async batch(statements) {
+      db.transaction(() => {
+        for (const statement of statements) {
+          db.prepare(statement.sql).run(...(statement.params || []));
+        }
+      })();
+    },
+  };
+}
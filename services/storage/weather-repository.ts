@@ -0,0 +1,158 @@
+import { SqlDatabase, SqlStatement, SqlValue } from "./database";
+
+// Hourly weather per location, kept next to the pollutant observations as
+// drivers for the prediction model. One reading per hour and provider: a
+// later fetch within the hour replaces the earlier one.
+
+export const WEATHER_FIELDS = [
+  "temperature", // °C
+  "humidity", // %
+  "pressure", // hPa at sea level
+  "windSpeed", // m/s
+  "windDirection", // degrees
+  "clouds", // % cover
+  "precipitation", // mm over the hour, rain and snow
+] as const;
+
+export type WeatherField = (typeof WEATHER_FIELDS)[number];
+
+export type WeatherValues = Record<WeatherField, number | null>;
+
+export interface WeatherObservation extends WeatherValues {
+  locationId: string;
+  lat: number;
+  lon: number;
+  timestamp: number; // milliseconds, start of the hour
+  provider: string;
+}
+
+export interface WeatherQuery {
+  locationId: string;
+  start?: number; // milliseconds, inclusive
+  end?: number; // milliseconds, inclusive
+}
+
+export interface WeatherRepository {
+  record(observations: WeatherObservation[]): Promise<number>;
+  find(query: WeatherQuery): Promise<WeatherObservation[]>;
+  // Delete readings older than a timestamp (milliseconds)
+  deleteBefore(timestamp: number): Promise<number>;
+}
+
+const COLUMNS: Record<WeatherField, string> = {
+  temperature: "temperature",
+  humidity: "humidity",
+  pressure: "pressure",
+  windSpeed: "wind_speed",
+  windDirection: "wind_direction",
+  clouds: "clouds",
+  precipitation: "precipitation",
+};
+
+interface WeatherRow {
+  location_id: string;
+  lat: number;
+  lon: number;
+  timestamp: number;
+  provider: string;
+  [column: string]: unknown;
+}
+
+function fromRow(row: WeatherRow): WeatherObservation {
+  const values = Object.fromEntries(
+    WEATHER_FIELDS.map((field) => {
+      const value = row[COLUMNS[field]];
+      return [field, typeof value === "number" ? value : null];
+    })
+  ) as WeatherValues;
+  return {
+    locationId: row.location_id,
+    lat: row.lat,
+    lon: row.lon,
+    timestamp: row.timestamp,
+    provider: row.provider,
+    ...values,
+  };
+}
+
+const INSERT_COLUMNS = [
+  "location_id",
+  "lat",
+  "lon",
+  "timestamp",
+  "provider",
+  ...WEATHER_FIELDS.map((field) => COLUMNS[field]),
+  "created_at",
+];
+
+const INSERT_SQL = `INSERT INTO weather_observations (${INSERT_COLUMNS.join(
+  ", "
+)})
+  VALUES (${INSERT_COLUMNS.map(() => "?").join(", ")})
+  ON CONFLICT (location_id, timestamp, provider) DO UPDATE SET
+  ${INSERT_COLUMNS.filter(
+    (column) => !["location_id", "timestamp", "provider"].includes(column)
+  )
+    .map((column) => `${column} = excluded.${column}`)
+    .join(", ")}`;
+
+function toInsert(observation: WeatherObservation, now: number): SqlStatement {
+  const fieldValue = (field: WeatherField): SqlValue => {
+    const value = observation[field];
+    return typeof value === "number" && isFinite(value) ? value : null;
+  };
+  return {
+    sql: INSERT_SQL,
+    params: [
+      observation.locationId,
+      observation.lat,
+      observation.lon,
+      observation.timestamp,
+      observation.provider,
+      ...WEATHER_FIELDS.map(fieldValue),
+      now,
+    ],
+  };
+}
+
+export function createWeatherRepository(db: SqlDatabase): WeatherRepository {
+  return {
+    async record(observations) {
+      if (observations.length === 0) return 0;
+      const now = Date.now();
+      await db.batch(
+        observations.map((observation) => toInsert(observation, now))
+      );
+      return observations.length;
+    },
+
+    async find(query) {
+      const conditions = ["location_id = ?"];
+      const params: SqlValue[] = [query.locationId];
+      if (query.start !== undefined) {
+        conditions.push("timestamp >= ?");
+        params.push(query.start);
+      }
+      if (query.end !== undefined) {
+        conditions.push("timestamp <= ?");
+        params.push(query.end);
+      }
+
+      const rows = await db.all<WeatherRow>(
+        `SELECT * FROM weather_observations WHERE ${conditions.join(
+          " AND "
+        )} ORDER BY timestamp ASC`,
+        params
+      );
+      return rows.map(fromRow);
+    },
+
+    async deleteBefore(timestamp) {
+      const result = await db.run(
+        "DELETE FROM weather_observations WHERE timestamp < ?",
+        [timestamp]
+      );
+      return result.changes;
+    },
+  };
+}
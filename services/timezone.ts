@@ -0,0 +1,205 @@
+import tzLookup from "@photostructure/tz-lookup";
+
+// Local time for a location. Callers can pass an IANA zone name or a fixed
+// UTC offset; otherwise the zone is looked up offline from the coordinates
+// against the IANA time zone boundaries. The longitude estimate (15° per
+// hour) is only a last resort for coordinates the lookup rejects.
+
+export interface ResolvedTimeZone {
+  // IANA name, "+05:30" style offset, or "UTC+5" for longitude estimates
+  id: string;
+  source: "param" | "lookup" | "longitude";
+  // Offset from UTC in minutes at the given instant
+  offsetAt(timestamp: number): number;
+}
+
+/**
+ * Parse a timestamp query parameter given as unix seconds, milliseconds or
+ * an ISO date, returning unix seconds
+ */
+export function parseTimestamp(value: string | undefined): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) {
+    const numeric = Number(value);
+    // Treat 13-digit values as milliseconds
+    return numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : Math.floor(parsed / 1000);
+}
+
+const OFFSET_PATTERN = /^(?:UTC|GMT)?([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+/**
+ * Parse a "+05:30", "-0800" or "UTC+2" offset into minutes
+ */
+export function parseUtcOffset(value: string): number | null {
+  const match = value.trim().match(OFFSET_PATTERN);
+  if (!match) return null;
+  const hours = Number(match[2]);
+  const minutes = Number(match[3] || 0);
+  if (hours > 14 || minutes > 59) return null;
+  const total = hours * 60 + minutes;
+  return match[1] === "-" ? -total : total;
+}
+
+export function isValidTimeZone(name: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: name });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of an IANA zone from UTC in minutes at the given instant,
+ * including daylight saving time
+ */
+export function timeZoneOffset(name: string, timestamp: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: name,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  return Math.round((asUtc - Math.floor(timestamp / 1000) * 1000) / 60000);
+}
+
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, "0");
+  return `${sign}${hours}:${String(absolute % 60).padStart(2, "0")}`;
+}
+
+function ianaZone(id: string, source: ResolvedTimeZone["source"]) {
+  return {
+    id,
+    source,
+    offsetAt: (timestamp: number) => timeZoneOffset(id, timestamp),
+  };
+}
+
+/**
+ * IANA zone containing a coordinate, or null when the coordinate is
+ * invalid or the runtime doesn't know the zone
+ */
+export function lookupTimeZone(
+  lat: string | number,
+  lon: string | number
+): string | null {
+  try {
+    const zone = tzLookup(Number(lat), Number(lon));
+    return isValidTimeZone(zone) ? zone : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the `tz` query parameter, falling back to the zone at the
+ * coordinates. Returns null when `tz` is given but is neither a zone name
+ * nor an offset.
+ */
+export function resolveTimeZone(
+  tz: string | undefined,
+  lat: string | number,
+  lon: string | number
+): ResolvedTimeZone | null {
+  if (tz) {
+    const offset = parseUtcOffset(tz);
+    if (offset !== null) {
+      return {
+        id: formatUtcOffset(offset),
+        source: "param",
+        offsetAt: () => offset,
+      };
+    }
+    if (!isValidTimeZone(tz)) return null;
+    return ianaZone(tz, "param");
+  }
+
+  const zone = lookupTimeZone(lat, lon);
+  if (zone) return ianaZone(zone, "lookup");
+
+  const hours = Math.max(-12, Math.min(12, Math.round(Number(lon) / 15) || 0));
+  return {
+    id: hours === 0 ? "UTC" : `UTC${hours > 0 ? "+" : ""}${hours}`,
+    source: "longitude",
+    offsetAt: () => hours * 60,
+  };
+}
+
+/**
+ * The zone at a coordinate, never null as there is no parameter to reject
+ */
+export function locationTimeZone(
+  lat: string | number,
+  lon: string | number
+): ResolvedTimeZone {
+  return resolveTimeZone(undefined, lat, lon)!;
+}
+
+/**
+ * ISO 8601 timestamp in local time with its UTC offset,
+ * e.g. 2024-05-01T14:00:00+05:30
+ */
+export function toLocalIso(timestamp: number, zone: ResolvedTimeZone): string {
+  const offset = zone.offsetAt(timestamp);
+  const iso = new Date(timestamp + offset * 60000).toISOString();
+  return `${iso.slice(0, 19)}${formatUtcOffset(offset)}`;
+}
+
+/**
+ * Local hour of the day (0-23) of a timestamp
+ */
+export function localHour(timestamp: number, zone: ResolvedTimeZone): number {
+  return new Date(timestamp + zone.offsetAt(timestamp) * 60000).getUTCHours();
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) and time (HH:MM) of a timestamp
+ */
+export function toLocalParts(
+  timestamp: number,
+  offsetMinutes: number
+): { date: string; time: string } {
+  const iso = new Date(timestamp + offsetMinutes * 60000).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * UTC timestamp of a local wall-clock time, given as milliseconds as if
+ * the wall-clock time were UTC
+ */
+export function fromLocalTime(
+  localAsUtc: number,
+  zone: ResolvedTimeZone
+): number {
+  // Offset at the guessed instant, corrected once for DST transitions
+  const guess = localAsUtc - zone.offsetAt(localAsUtc) * 60000;
+  return localAsUtc - zone.offsetAt(guess) * 60000;
+}
+
+/**
+ * UTC timestamp of local midnight for a YYYY-MM-DD date
+ */
+export function localMidnight(date: string, zone: ResolvedTimeZone): number {
+  return fromLocalTime(Date.parse(`${date}T00:00:00Z`), zone);
+}
@@ -0,0 +1,331 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+
+// Shared client for every third-party API we call (OpenWeather, OpenAQ, WAQI,
+// Overpass, Serper, Gemini, OpenRouter). Requests get jittered exponential
+// backoff within an overall deadline, 429s honour Retry-After, and each host
+// has a circuit breaker so a failing upstream is not hammered on every request.
+
+export interface UpstreamPolicy {
+  // Label used in logs, defaults to the host
+  name?: string;
+  // Total attempts including the first one
+  maxAttempts?: number;
+  // Overall time budget for all attempts and waits (ms)
+  deadlineMs?: number;
+  // Timeout for a single attempt, clipped to the remaining budget (ms)
+  attemptTimeoutMs?: number;
+  // Backoff before retry n is a random delay up to baseDelayMs * 2^(n-1)
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export type UpstreamRequestConfig = AxiosRequestConfig & UpstreamPolicy;
+
+const DEFAULT_POLICY: Required<Omit<UpstreamPolicy, "name">> = {
+  maxAttempts: 3,
+  // Keeps a full retry sequence well inside a Worker request
+  deadlineMs: 10000,
+  attemptTimeoutMs: 6000,
+  baseDelayMs: 250,
+  maxDelayMs: 2000,
+};
+
+// Consecutive failures before a host's circuit opens
+const FAILURE_THRESHOLD = 5;
+// How long an open circuit rejects calls before letting a trial through
+const OPEN_DURATION_MS = 30000;
+
+/**
+ * Error thrown for failed upstream calls. `status` is the HTTP status when
+ * the upstream answered; `data` is its response body.
+ */
+export class UpstreamError extends Error {
+  host: string;
+  status?: number;
+  data?: unknown;
+  retryable: boolean;
+  circuitOpen: boolean;
+
+  constructor(
+    message: string,
+    details: {
+      host: string;
+      status?: number;
+      data?: unknown;
+      retryable?: boolean;
+      circuitOpen?: boolean;
+    }
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+    this.host = details.host;
+    this.status = details.status;
+    this.data = details.data;
+    this.retryable = details.retryable ?? false;
+    this.circuitOpen = details.circuitOpen ?? false;
+  }
+}
+
+type CircuitState = "closed" | "open" | "half-open";
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  // A half-open circuit lets one trial call through at a time
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, Circuit>();
+
+function circuitFor(host: string): Circuit {
+  let circuit = circuits.get(host);
+  if (!circuit) {
+    circuit = {
+      state: "closed",
+      failures: 0,
+      openedAt: 0,
+      trialInFlight: false,
+    };
+    circuits.set(host, circuit);
+  }
+  return circuit;
+}
+
+// Whether a call may go through; moves open circuits to half-open once cooled down
+function acquireCircuit(host: string): boolean {
+  const circuit = circuitFor(host);
+  if (circuit.state === "open") {
+    if (Date.now() - circuit.openedAt < OPEN_DURATION_MS) return false;
+    circuit.state = "half-open";
+    circuit.trialInFlight = false;
+    console.log(`Circuit for ${host} is half-open, allowing a trial request`);
+  }
+  if (circuit.state === "half-open") {
+    if (circuit.trialInFlight) return false;
+    circuit.trialInFlight = true;
+  }
+  return true;
+}
+
+function recordSuccess(host: string) {
+  const circuit = circuitFor(host);
+  if (circuit.state !== "closed") {
+    console.log(`Circuit for ${host} closed after a successful request`);
+  }
+  circuit.state = "closed";
+  circuit.failures = 0;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure(host: string) {
+  const circuit = circuitFor(host);
+  circuit.failures++;
+  circuit.trialInFlight = false;
+  if (circuit.state === "half-open" || circuit.failures >= FAILURE_THRESHOLD) {
+    if (circuit.state !== "open") {
+      console.warn(
+        `Circuit for ${host} opened after ${circuit.failures} consecutive failures`
+      );
+    }
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Snapshot of every host's circuit, for diagnostics
+ */
+export function getCircuitStates(): Record<
+  string,
+  { state: CircuitState; failures: number; openedAt: number | null }
+> {
+  return Object.fromEntries(
+    Array.from(circuits.entries()).map(([host, circuit]) => [
+      host,
+      {
+        state: circuit.state,
+        failures: circuit.failures,
+        openedAt: circuit.state === "closed" ? null : circuit.openedAt,
+      },
+    ])
+  );
+}
+
+export function resetCircuits() {
+  circuits.clear();
+}
+
+// HTTP status of an axios, Google SDK or UpstreamError failure, if any
+function statusOf(error: any): number | undefined {
+  if (error instanceof UpstreamError) return error.status;
+  return error?.response?.status ?? error?.status;
+}
+
+// 408, 429 and 5xx are worth retrying, as are network errors and timeouts
+// (no status); other 4xx mean the request itself is wrong
+function isRetryable(status: number | undefined): boolean {
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  if (isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+function retryAfterOf(error: any): number | null {
+  const headers = error?.response?.headers;
+  if (!headers) return null;
+  const value =
+    typeof headers.get === "function"
+      ? headers.get("retry-after")
+      : headers["retry-after"];
+  return parseRetryAfter(value);
+}
+
+// "Full jitter": a random delay between 0 and the exponential cap
+function backoffDelay(retry: number, policy: Required<UpstreamPolicy>): number {
+  const cap = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, retry - 1)
+  );
+  return Math.round(Math.random() * cap);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string) {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${ms}ms`)),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run an upstream call under the retry, deadline and circuit breaker policy.
+ * `attempt` receives the time left for that attempt (ms) and is also raced
+ * against it, so SDK calls without their own timeout are bounded too.
+ */
+export async function callUpstream<T>(
+  host: string,
+  attempt: (timeoutMs: number) => Promise<T>,
+  options: UpstreamPolicy = {}
+): Promise<T> {
+  // Options left undefined keep the default
+  const policy: Required<UpstreamPolicy> = {
+    name: options.name ?? host,
+    maxAttempts: options.maxAttempts ?? DEFAULT_POLICY.maxAttempts,
+    deadlineMs: options.deadlineMs ?? DEFAULT_POLICY.deadlineMs,
+    attemptTimeoutMs:
+      options.attemptTimeoutMs ?? DEFAULT_POLICY.attemptTimeoutMs,
+    baseDelayMs: options.baseDelayMs ?? DEFAULT_POLICY.baseDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_POLICY.maxDelayMs,
+  };
+  const deadline = Date.now() + policy.deadlineMs;
+  let lastError: any = null;
+
+  for (
+    let attemptNumber = 1;
+    attemptNumber <= policy.maxAttempts;
+    attemptNumber++
+  ) {
+    if (!acquireCircuit(host)) {
+      // Report the real failure if an earlier attempt just opened the circuit
+      if (lastError) break;
+      throw new UpstreamError(
+        `${policy.name} is temporarily unavailable (circuit open)`,
+        { host, circuitOpen: true }
+      );
+    }
+
+    const remaining = deadline - Date.now();
+    const timeoutMs = Math.min(policy.attemptTimeoutMs, remaining);
+    try {
+      const result = await withTimeout(
+        attempt(timeoutMs),
+        timeoutMs,
+        policy.name
+      );
+      recordSuccess(host);
+      return result;
+    } catch (error: any) {
+      lastError = error;
+      const status = statusOf(error);
+      const retryable = isRetryable(status);
+
+      // Client errors say nothing about the host's health
+      if (retryable) {
+        recordFailure(host);
+      } else {
+        recordSuccess(host);
+      }
+
+      console.error(
+        `${policy.name} request failed (attempt ${attemptNumber}/${policy.maxAttempts}):`,
+        status ? `HTTP ${status}` : error?.message
+      );
+
+      if (!retryable || attemptNumber === policy.maxAttempts) break;
+
+      const retryAfter = status === 429 ? retryAfterOf(error) : null;
+      const delay = retryAfter ?? backoffDelay(attemptNumber, policy);
+      if (Date.now() + delay >= deadline) {
+        console.warn(
+          `${policy.name}: not retrying, a ${delay}ms wait would exceed the ${policy.deadlineMs}ms budget`
+        );
+        break;
+      }
+      console.log(`Retrying ${policy.name} in ${delay}ms...`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  if (lastError instanceof UpstreamError) throw lastError;
+  const status = statusOf(lastError);
+  throw new UpstreamError(
+    `${policy.name} request failed: ${
+      status ? `HTTP ${status}` : lastError?.message || "unknown error"
+    }`,
+    {
+      host,
+      status,
+      data: lastError?.response?.data,
+      retryable: isRetryable(status),
+    }
+  );
+}
+
+/**
+ * Make an HTTP request through axios under the upstream policy. Policy
+ * fields can be mixed into the usual axios config.
+ */
+export async function upstreamRequest<T = any>(
+  config: UpstreamRequestConfig
+): Promise<AxiosResponse<T>> {
+  const {
+    name,
+    maxAttempts,
+    deadlineMs,
+    attemptTimeoutMs,
+    baseDelayMs,
+    maxDelayMs,
+    ...axiosConfig
+  } = config;
+  const host = new URL(axiosConfig.url!, axiosConfig.baseURL).host;
+
+  return callUpstream(
+    host,
+    (timeoutMs) => axios.request<T>({ ...axiosConfig, timeout: timeoutMs }),
+    { name, maxAttempts, deadlineMs, attemptTimeoutMs, baseDelayMs, maxDelayMs }
+  );
+}
@@ -0,0 +1,276 @@
+import { HourForecast, SeriesPoint, fromLog } from "./forecast-model";
+import { WeatherReading } from "./providers/types";
+
+// Weather drivers for the prediction model. Holt-Winters explains an hour
+// from the level and the daily and weekly cycles; what it misses (its
+// one-step errors on the log scale) is regressed on how the weather differs
+// from what the level has already absorbed: each driver smoothed with the
+// level's own smoothing parameter. Wind disperses pollution; cold, humid,
+// high pressure air is a proxy for a shallow boundary layer that keeps it
+// near the ground; rain washes particles out.
+
+export const WEATHER_DRIVERS = [
+  "windSpeed",
+  "temperature",
+  "pressure",
+  "humidity",
+  "precipitation",
+] as const;
+
+export type WeatherDriver = (typeof WEATHER_DRIVERS)[number];
+
+export interface DriverModel {
+  // Drivers that varied enough in training to be fitted
+  drivers: WeatherDriver[];
+  // Change in log(1 + AQI) per unit change of each driver
+  coefficients: Partial<Record<WeatherDriver, number>>;
+  // Smoothing of the drivers' baselines, the level's alpha
+  smoothing: number;
+  pairedHours: number;
+  // Residual variance left after the drivers, relative to before
+  varianceRatio: number;
+}
+
+export interface DriverEffect {
+  driver: WeatherDriver;
+  // Driver value minus its smoothed value when the forecast was made
+  change: number;
+  // Effect on the predicted AQI, in percent
+  effect: number;
+  direction: "up" | "down";
+}
+
+export interface DrivenForecast extends HourForecast {
+  drivers: DriverEffect[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// Hours with both a residual and the weather needed to fit the drivers
+const MIN_PAIRED_HOURS = 72;
+// Ridge penalty on the standardised coefficients, relative to the sample size
+const RIDGE_PENALTY = 0.1;
+
+/**
+ * Exponentially smoothed value of a driver as of the end of each hour,
+ * carried over hours without weather. Only hours up to `until` are used.
+ */
+function smoothDriver(
+  weather: WeatherReading[],
+  driver: WeatherDriver,
+  smoothing: number,
+  until = Infinity
+): Map<number, number> {
+  const smoothed = new Map<number, number>();
+  let level: number | null = null;
+  let previousHour: number | null = null;
+  const readings = weather
+    .filter((reading) => reading.timestamp <= until)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  for (const reading of readings) {
+    const hour = Math.floor(reading.timestamp / HOUR_MS) * HOUR_MS;
+    const value = reading[driver];
+    if (typeof value !== "number") continue;
+    // Fill the hours in between with the carried level
+    if (level !== null && previousHour !== null) {
+      for (let gap = previousHour + HOUR_MS; gap < hour; gap += HOUR_MS) {
+        smoothed.set(gap, level);
+      }
+    }
+    level = level === null ? value : level + smoothing * (value - level);
+    smoothed.set(hour, level);
+    previousHour = hour;
+  }
+  return smoothed;
+}
+
+function driverValues(
+  weather: WeatherReading[],
+  driver: WeatherDriver
+): Map<number, number> {
+  const values = new Map<number, number>();
+  for (const reading of weather) {
+    const value = reading[driver];
+    if (typeof value === "number") {
+      values.set(Math.floor(reading.timestamp / HOUR_MS) * HOUR_MS, value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Solve a small symmetric positive definite system by Gaussian elimination
+ */
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) pivot = row;
+    }
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+    for (let row = column + 1; row < n; row++) {
+      const factor = a[row][column] / a[column][column];
+      for (let k = column; k <= n; k++) a[row][k] -= factor * a[column][k];
+    }
+  }
+  const solution = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Regress the model's one-step errors on the drivers' departures from
+ * their smoothed values an hour earlier. Returns null when too few hours
+ * have both.
+ */
+export function fitDriverModel(
+  residuals: SeriesPoint[],
+  weather: WeatherReading[],
+  smoothing: number
+): DriverModel | null {
+  const series = WEATHER_DRIVERS.map((driver) => ({
+    values: driverValues(weather, driver),
+    smoothed: smoothDriver(weather, driver, smoothing),
+  }));
+  const candidates = residuals.map((residual) => {
+    const hour = Math.floor(residual.timestamp / HOUR_MS) * HOUR_MS;
+    // The residual is the error forecasting this hour from the one before
+    return {
+      error: residual.value,
+      anomalies: series.map(({ values, smoothed }) => {
+        const value = values.get(hour);
+        const reference = smoothed.get(hour - HOUR_MS);
+        return value !== undefined && reference !== undefined
+          ? value - reference
+          : null;
+      }),
+    };
+  });
+
+  // Drivers with enough data and some variation, then the hours with all of them
+  const drivers = WEATHER_DRIVERS.filter((_, index) => {
+    const values = candidates
+      .map((candidate) => candidate.anomalies[index])
+      .filter((value): value is number => value !== null);
+    return (
+      values.length >= MIN_PAIRED_HOURS &&
+      values.some((value) => value !== values[0])
+    );
+  });
+  if (drivers.length === 0) return null;
+  const indices = drivers.map((driver) => WEATHER_DRIVERS.indexOf(driver));
+  const rows = candidates
+    .filter((candidate) =>
+      indices.every((index) => candidate.anomalies[index] !== null)
+    )
+    .map((candidate) => ({
+      y: candidate.error,
+      x: indices.map((index) => candidate.anomalies[index]!),
+    }));
+  if (rows.length < MIN_PAIRED_HOURS) return null;
+
+  // Centre and standardise, then ridge regression
+  const n = rows.length;
+  const k = drivers.length;
+  const yMean = rows.reduce((sum, row) => sum + row.y, 0) / n;
+  const xMeans = drivers.map(
+    (_, j) => rows.reduce((sum, row) => sum + row.x[j], 0) / n
+  );
+  const xSds = drivers.map((_, j) =>
+    Math.sqrt(
+      rows.reduce((sum, row) => sum + (row.x[j] - xMeans[j]) ** 2, 0) / n
+    )
+  );
+  const z = rows.map((row) =>
+    row.x.map((value, j) => (value - xMeans[j]) / (xSds[j] || 1))
+  );
+  const y = rows.map((row) => row.y - yMean);
+
+  const gram = Array.from({ length: k }, (_, i) =>
+    Array.from(
+      { length: k },
+      (_, j) =>
+        z.reduce((sum, row) => sum + row[i] * row[j], 0) +
+        (i === j ? RIDGE_PENALTY * n : 0)
+    )
+  );
+  const moments = Array.from({ length: k }, (_, i) =>
+    z.reduce((sum, row, index) => sum + row[i] * y[index], 0)
+  );
+  const standardised = solve(gram, moments);
+
+  const before = y.reduce((sum, value) => sum + value * value, 0);
+  const after = y.reduce((sum, value, index) => {
+    const fitted = z[index].reduce(
+      (total, zValue, j) => total + zValue * standardised[j],
+      0
+    );
+    return sum + (value - fitted) ** 2;
+  }, 0);
+
+  return {
+    drivers,
+    coefficients: Object.fromEntries(
+      drivers.map((driver, j) => [driver, standardised[j] / (xSds[j] || 1)])
+    ),
+    smoothing,
+    pairedHours: n,
+    varianceRatio: before > 0 ? after / before : 1,
+  };
+}
+
+/**
+ * Shift a forecast by the effect of the forecast weather, measured against
+ * the drivers' smoothed values at the origin (the last observed hour).
+ * Hours without forecast weather are left unchanged. The spread shrinks by
+ * what the drivers explained.
+ */
+export function applyDriverModel(
+  forecast: HourForecast[],
+  model: DriverModel | null,
+  weather: WeatherReading[],
+  origin: number
+): DrivenForecast[] {
+  if (!model) return forecast.map((point) => ({ ...point, drivers: [] }));
+
+  const series = model.drivers.map((driver) => ({
+    driver,
+    values: driverValues(weather, driver),
+    reference: smoothDriver(weather, driver, model.smoothing, origin).get(
+      origin
+    ),
+  }));
+  const sdScale = Math.sqrt(model.varianceRatio);
+  return forecast.map((point) => {
+    const drivers: DriverEffect[] = [];
+    let total = 0;
+    for (const { driver, values, reference } of series) {
+      const value = values.get(point.timestamp);
+      if (value === undefined || reference === undefined) continue;
+      const change = value - reference;
+      const contribution = model.coefficients[driver]! * change;
+      total += contribution;
+      drivers.push({
+        driver,
+        change: Math.round(change * 100) / 100,
+        effect: Math.round((Math.exp(contribution) - 1) * 1000) / 10,
+        direction: contribution >= 0 ? "up" : "down",
+      });
+    }
+    drivers.sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect));
+
+    const logMean = point.logMean + total;
+    return {
+      ...point,
+      value: fromLog(logMean),
+      logMean,
+      logSd: point.logSd === null ? null : point.logSd * sdScale,
+      drivers,
+    };
+  });
+}
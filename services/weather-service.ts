@@ -0,0 +1,112 @@
+import {
+  getOpenWeatherCurrentWeather,
+  getOpenWeatherWeatherForecast,
+  openWeatherProvider,
+} from "./providers/openweather-provider";
+import { WeatherReading } from "./providers/types";
+import { getWeatherRepository } from "./storage";
+import { locationIdFor } from "./storage/observation-repository";
+import { WEATHER_FIELDS } from "./storage/weather-repository";
+
+// Weather used as drivers by the prediction model. Current weather is
+// stored hourly next to the pollutant observations so the model can learn
+// how each location responds; forecasts are fetched when predicting.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hourStart(timestamp: number): number {
+  return Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+}
+
+/**
+ * Fetch the current weather and store it under its hour. Storage failures
+ * are only logged.
+ */
+export async function getCurrentWeather(
+  lat: string,
+  lon: string
+): Promise<WeatherReading> {
+  const reading = await getOpenWeatherCurrentWeather(lat, lon);
+  const timestamp = hourStart(reading.timestamp);
+
+  try {
+    const repository = await getWeatherRepository();
+    if (repository) {
+      await repository.record([
+        {
+          ...reading,
+          timestamp,
+          locationId: locationIdFor(lat, lon),
+          lat: Number(lat),
+          lon: Number(lon),
+          provider: openWeatherProvider.name,
+        },
+      ]);
+    }
+  } catch (error) {
+    console.error("Failed to store weather:", error);
+  }
+  return { ...reading, timestamp };
+}
+
+/**
+ * Stored hourly weather for a location, oldest first; empty without storage
+ */
+export async function getStoredWeather(
+  locationId: string,
+  start: number,
+  end: number
+): Promise<WeatherReading[]> {
+  const repository = await getWeatherRepository();
+  if (!repository) return [];
+  const observations = await repository.find({ locationId, start, end });
+  return observations.map((observation) => {
+    const reading = { timestamp: observation.timestamp } as WeatherReading;
+    for (const field of WEATHER_FIELDS) reading[field] = observation[field];
+    return reading;
+  });
+}
+
+/**
+ * The weather forecast at hourly resolution. OpenWeather forecasts in
+ * 3 hour steps: values are interpolated between steps, and each step's
+ * precipitation rate applies to the hours leading up to it.
+ */
+export async function getHourlyWeatherForecast(
+  lat: string,
+  lon: string
+): Promise<WeatherReading[]> {
+  const steps = (await getOpenWeatherWeatherForecast(lat, lon)).sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+
+  const hourly: WeatherReading[] = [];
+  for (let i = 0; i < steps.length; i++) {
+    const next = steps[i];
+    const previous = steps[i - 1];
+    if (!previous) {
+      hourly.push({ ...next, timestamp: hourStart(next.timestamp) });
+      continue;
+    }
+
+    const from = hourStart(previous.timestamp);
+    const to = hourStart(next.timestamp);
+    for (let hour = from + HOUR_MS; hour <= to; hour += HOUR_MS) {
+      const share = (hour - from) / (to - from);
+      const reading = { timestamp: hour } as WeatherReading;
+      for (const field of WEATHER_FIELDS) {
+        const a = previous[field];
+        const b = next[field];
+        reading[field] =
+          field === "precipitation" || a === null || b === null
+            ? b
+            : a + (b - a) * share;
+      }
+      // Wind direction wraps around; take the nearer step's direction
+      reading.windDirection =
+        share < 0.5 ? previous.windDirection : next.windDirection;
+      hourly.push(reading);
+    }
+  }
+  return hourly;
+}
@@ -0,0 +1,283 @@
+import { Pollutant } from "./aqi-calculator";
+import { mean } from "./statistics";
+
+// WHO global air quality guidelines (2021). Each pollutant has an air
+// quality guideline level (AQG) and interim targets (IT-1 is the least
+// strict) for specific averaging periods. All values are in μg/m³.
+// The 1-hour NO2 and 1/8-hour CO values are the earlier guidelines the
+// 2021 update kept unchanged.
+
+export type GuidelineAveraging = "1h" | "8h" | "24h" | "peak-season" | "annual";
+
+export interface WhoGuideline {
+  pollutant: Pollutant;
+  averaging: GuidelineAveraging;
+  aqg: number;
+  // Ordered from IT-1 (least strict) to the strictest interim target
+  interimTargets: number[];
+}
+
+export const WHO_2021_GUIDELINES: WhoGuideline[] = [
+  {
+    pollutant: "pm2_5",
+    averaging: "annual",
+    aqg: 5,
+    interimTargets: [35, 25, 15, 10],
+  },
+  {
+    pollutant: "pm2_5",
+    averaging: "24h",
+    aqg: 15,
+    interimTargets: [75, 50, 37.5, 25],
+  },
+  {
+    pollutant: "pm10",
+    averaging: "annual",
+    aqg: 15,
+    interimTargets: [70, 50, 30, 20],
+  },
+  {
+    pollutant: "pm10",
+    averaging: "24h",
+    aqg: 45,
+    interimTargets: [150, 100, 75, 50],
+  },
+  {
+    pollutant: "o3",
+    averaging: "peak-season",
+    aqg: 60,
+    interimTargets: [100, 70],
+  },
+  { pollutant: "o3", averaging: "8h", aqg: 100, interimTargets: [160, 120] },
+  {
+    pollutant: "no2",
+    averaging: "annual",
+    aqg: 10,
+    interimTargets: [40, 30, 20],
+  },
+  { pollutant: "no2", averaging: "24h", aqg: 25, interimTargets: [120, 50] },
+  { pollutant: "no2", averaging: "1h", aqg: 200, interimTargets: [] },
+  { pollutant: "so2", averaging: "24h", aqg: 40, interimTargets: [125, 50] },
+  { pollutant: "co", averaging: "24h", aqg: 4000, interimTargets: [7000] },
+  { pollutant: "co", averaging: "8h", aqg: 10000, interimTargets: [] },
+  { pollutant: "co", averaging: "1h", aqg: 35000, interimTargets: [] },
+];
+
+// Averages need at least 75% of their hours to be representative
+const MIN_COVERAGE = 0.75;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface HourlyConcentrations {
+  timestamp: number; // milliseconds
+  components: Record<string, number>;
+}
+
+export interface GuidelineAssessment {
+  pollutant: Pollutant;
+  averaging: GuidelineAveraging;
+  // Averaged concentration, or null when there is not enough data
+  concentration: number | null;
+  unit: "μg/m³";
+  hoursUsed: number;
+  // False when fewer than 75% of the period's hours were available
+  representative: boolean;
+  guideline: number;
+  interimTargets: { level: string; value: number }[];
+  // concentration / guideline; above 1 means the guideline is exceeded
+  exceedanceRatio: number | null;
+  meetsGuideline: boolean | null;
+  // Strictest level met ("AQG", "IT-4", ... "IT-1"), or null if none is
+  targetMet: string | null;
+}
+
+/**
+ * Compare one averaged concentration with a guideline and its interim targets
+ */
+export function assessConcentration(
+  guideline: WhoGuideline,
+  concentration: number | null,
+  hoursUsed: number,
+  representative: boolean
+): GuidelineAssessment {
+  const interimTargets = guideline.interimTargets.map((value, index) => ({
+    level: `IT-${index + 1}`,
+    value,
+  }));
+
+  let targetMet: string | null = null;
+  if (concentration !== null) {
+    if (concentration <= guideline.aqg) {
+      targetMet = "AQG";
+    } else {
+      // Walk from the strictest interim target to the least strict
+      for (let i = interimTargets.length - 1; i >= 0; i--) {
+        if (concentration <= interimTargets[i].value) {
+          targetMet = interimTargets[i].level;
+          break;
+        }
+      }
+    }
+  }
+
+  return {
+    pollutant: guideline.pollutant,
+    averaging: guideline.averaging,
+    concentration:
+      concentration === null ? null : Math.round(concentration * 100) / 100,
+    unit: "μg/m³",
+    hoursUsed,
+    representative,
+    guideline: guideline.aqg,
+    interimTargets,
+    exceedanceRatio:
+      concentration === null
+        ? null
+        : Math.round((concentration / guideline.aqg) * 100) / 100,
+    meetsGuideline:
+      concentration === null ? null : concentration <= guideline.aqg,
+    targetMet,
+  };
+}
+
+// Values of one pollutant keyed by the hour they belong to
+function hourlySeries(
+  readings: HourlyConcentrations[],
+  pollutant: Pollutant
+): Map<number, number> {
+  const series = new Map<number, number>();
+  for (const reading of readings) {
+    const value = reading.components[pollutant];
+    if (typeof value === "number" && isFinite(value) && value >= 0) {
+      series.set(Math.floor(reading.timestamp / HOUR_MS), value);
+    }
+  }
+  return series;
+}
+
+// Highest rolling 8-hour mean whose window ends within [fromHour, toHour]
+function maxEightHourMean(
+  series: Map<number, number>,
+  fromHour: number,
+  toHour: number
+): { value: number; hours: number } | null {
+  let best: { value: number; hours: number } | null = null;
+  for (let end = fromHour; end <= toHour; end++) {
+    const values: number[] = [];
+    for (let hour = end - 7; hour <= end; hour++) {
+      if (series.has(hour)) values.push(series.get(hour)!);
+    }
+    if (values.length < 8 * MIN_COVERAGE) continue;
+    const value = mean(values);
+    if (!best || value > best.value) best = { value, hours: values.length };
+  }
+  return best;
+}
+
+// Peak-season ozone: mean of the daily maximum 8-hour means over the six
+// consecutive months with the highest average
+function peakSeasonOzone(
+  series: Map<number, number>,
+  fromHour: number,
+  toHour: number
+): { value: number; hours: number } | null {
+  const byMonth = new Map<string, number[]>();
+  for (let dayStart = fromHour; dayStart + 23 <= toHour; dayStart += 24) {
+    const daily = maxEightHourMean(series, dayStart, dayStart + 23);
+    if (!daily) continue;
+    const month = new Date(dayStart * HOUR_MS).toISOString().slice(0, 7);
+    if (!byMonth.has(month)) byMonth.set(month, []);
+    byMonth.get(month)!.push(daily.value);
+  }
+
+  const months = Array.from(byMonth.keys()).sort();
+  let best: { value: number; hours: number } | null = null;
+  for (let i = 0; i + 6 <= months.length; i++) {
+    const window = months.slice(i, i + 6);
+    const values = window.flatMap((month) => byMonth.get(month)!);
+    const value = mean(values);
+    if (!best || value > best.value) {
+      best = { value, hours: values.length * 24 };
+    }
+  }
+  return best;
+}
+
+/**
+ * Assess hourly readings against every WHO 2021 guideline. Short-term
+ * periods use the last 24 hours before `end`; annual and peak-season
+ * values are only assessed when `longTerm` readings cover the past year.
+ */
+export function evaluateWhoGuidelines(
+  readings: HourlyConcentrations[],
+  options: { end?: number; longTerm?: boolean } = {}
+): GuidelineAssessment[] {
+  const end = options.end ?? Date.now();
+  const endHour = Math.floor(end / HOUR_MS);
+  const dayStartHour = endHour - 23;
+
+  const assessments: GuidelineAssessment[] = [];
+  for (const guideline of WHO_2021_GUIDELINES) {
+    const series = hourlySeries(readings, guideline.pollutant);
+    let result: { value: number; hours: number } | null = null;
+    let expectedHours = 1;
+
+    switch (guideline.averaging) {
+      case "1h": {
+        // Latest available hour within the last three
+        for (let hour = endHour; hour > endHour - 3; hour--) {
+          if (series.has(hour)) {
+            result = { value: series.get(hour)!, hours: 1 };
+            break;
+          }
+        }
+        break;
+      }
+      case "8h": {
+        // Daily maximum 8-hour mean over the last 24 hours
+        expectedHours = 8;
+        result = maxEightHourMean(series, dayStartHour, endHour);
+        break;
+      }
+      case "24h": {
+        expectedHours = 24;
+        const values: number[] = [];
+        for (let hour = dayStartHour; hour <= endHour; hour++) {
+          if (series.has(hour)) values.push(series.get(hour)!);
+        }
+        if (values.length > 0) {
+          result = { value: mean(values), hours: values.length };
+        }
+        break;
+      }
+      case "annual": {
+        if (!options.longTerm) continue;
+        expectedHours = 365 * 24;
+        const values = Array.from(series.entries())
+          .filter(([hour]) => hour > endHour - expectedHours && hour <= endHour)
+          .map(([, value]) => value);
+        if (values.length > 0) {
+          result = { value: mean(values), hours: values.length };
+        }
+        break;
+      }
+      case "peak-season": {
+        if (!options.longTerm) continue;
+        // Six months of daily values
+        expectedHours = 182 * 24;
+        result = peakSeasonOzone(series, endHour - 365 * 24 + 1, endHour);
+        break;
+      }
+    }
+
+    const hoursUsed = result?.hours ?? 0;
+    assessments.push(
+      assessConcentration(
+        guideline,
+        result ? result.value : null,
+        hoursUsed,
+        hoursUsed >= expectedHours * MIN_COVERAGE
+      )
+    );
+  }
+  return assessments;
+}